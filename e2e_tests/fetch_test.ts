@@ -0,0 +1,89 @@
+/**
+ * End-to-end fetch handler test
+ *
+ * Serves endpoint definitions with Deno.serve and createFetchHandler, without
+ * Fresh or a hand-written router.
+ */
+
+import { assertEquals } from "@std/assert";
+import { createFetchHandler, endpoint } from "../src/integrations/fetch.ts";
+import { z } from "zod";
+
+const NoteSchema = z.object({ id: z.string(), text: z.string() });
+
+const notes = new Map([["1", { id: "1", text: "Hello" }]]);
+
+const handler = createFetchHandler({
+  "/notes": {
+    POST: endpoint({
+      body: z.object({ text: z.string().min(1) }),
+      responses: { 201: NoteSchema },
+      handler: (_ctx, { body, respond }) => {
+        const note = { id: String(notes.size + 1), text: body.text };
+        notes.set(note.id, note);
+        return respond(201, note);
+      },
+    }),
+  },
+  "/notes/[id]": {
+    GET: endpoint({
+      params: z.object({ id: z.string() }),
+      handler: (_ctx, { params }) => {
+        const note = notes.get(params.id);
+        return note
+          ? Response.json(note)
+          : Response.json({ error: "Not found" }, { status: 404 });
+      },
+    }),
+  },
+}, { basePath: "/api" });
+
+async function withServer(
+  fn: (baseUrl: string) => Promise<void>,
+): Promise<void> {
+  const server = Deno.serve(
+    { port: 0, onListen: () => {} },
+    handler,
+  );
+  try {
+    await fn(`http://localhost:${server.addr.port}`);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.test("E2E fetch: creates and reads a note", async () => {
+  await withServer(async (baseUrl) => {
+    const created = await fetch(`${baseUrl}/api/notes`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: "Second" }),
+    });
+    assertEquals(created.status, 201);
+    const note = await created.json();
+
+    const response = await fetch(`${baseUrl}/api/notes/${note.id}`);
+    assertEquals(await response.json(), { id: note.id, text: "Second" });
+  });
+});
+
+Deno.test("E2E fetch: rejects invalid bodies and unknown routes", async () => {
+  await withServer(async (baseUrl) => {
+    const invalid = await fetch(`${baseUrl}/api/notes`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: "" }),
+    });
+    assertEquals(invalid.status, 400);
+    await invalid.body?.cancel();
+
+    const missing = await fetch(`${baseUrl}/api/unknown`);
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+
+    const method = await fetch(`${baseUrl}/api/notes`, { method: "GET" });
+    assertEquals(method.status, 405);
+    assertEquals(method.headers.get("Allow"), "POST, OPTIONS");
+    await method.body?.cancel();
+  });
+});
@@ -16,6 +16,7 @@ Options:
   -c, --config <file>   Path to deno.json (auto-detected if not provided)
   -f, --format <fmt>    Output format: types, client, routes, or protocol (default: types)
   -p, --protocol <file> Protocol module path (required when --format protocol)
+  --api-version <name>  Generate types for this version of versioned endpoints
   -h, --help            Show this help message
 
 Formats:
@@ -28,6 +29,7 @@ Examples:
   typed-endpoints -r routes/api -o src/api-types.ts
   typed-endpoints -r routes/api -o src/api-client.ts --format client
   typed-endpoints -r routes/api -o src/api-routes.ts --format routes
+  typed-endpoints -r routes/api -o src/api-v1.ts --format client --api-version 1
   typed-endpoints --format protocol --protocol ./my-protocol.ts -o src/protocol-types.ts
 `;
 
@@ -48,7 +50,7 @@ async function findDenoConfig(): Promise<string | undefined> {
 
 async function main() {
   const args = parseArgs(Deno.args, {
-    string: ["output", "config", "format", "protocol"],
+    string: ["output", "config", "format", "protocol", "api-version"],
     boolean: ["help"],
     collect: ["routes"],
     alias: {
@@ -123,6 +125,7 @@ async function main() {
       output: args.output,
       config,
       format,
+      version: args["api-version"],
     });
     console.log(`Generated ${format ?? "types"} written to ${args.output}`);
   } catch (error) {
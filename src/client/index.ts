@@ -26,8 +26,18 @@
  */
 
 import type {
+  ProblemDetails,
+  ValidationProblemDetails,
+} from "../core/problem.ts";
+import type { QueryStyle } from "../core/types.ts";
+import { serializeQuery } from "../core/query.ts";
+import { TRACEPARENT_HEADER } from "../core/tracing.ts";
+import type {
+  ApiErrorDef,
   ApiSchema,
+  RateLimitInfo,
   RequestOptions,
+  RetryOptions,
   SseEventsDef,
   SubscribeOptions,
   TypedClient,
@@ -35,11 +45,16 @@ import type {
 } from "./types.ts";
 
 export type {
+  ApiErrorDef,
   ApiSchema,
+  ErrorsOf,
   MethodDef,
+  MethodOptions,
+  RateLimitInfo,
   RequestOptions,
   ResourceDef,
   ResourceMethod,
+  RetryOptions,
   SseEventsDef,
   SseMethodDef,
   SubscribeMethod,
@@ -47,6 +62,11 @@ export type {
   TypedClient,
   TypedSseEvent,
 } from "./types.ts";
+export type {
+  ProblemDetails,
+  ValidationProblemDetails,
+} from "../core/problem.ts";
+export type { QueryStyle, ValidationIssue } from "../core/types.ts";
 
 export interface ClientConfig {
   /** Base URL for all requests (e.g., "http://localhost:3000") */
@@ -57,29 +77,146 @@ export interface ClientConfig {
   headers?: Record<string, string>;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
+  /** Default query encoding, matching the server's `queryStyle`. Default: "form" */
+  queryStyle?: QueryStyle;
+  /**
+   * Query encoding per method, keyed by call (e.g. "issues.list"). Pass the
+   * generated `apiQueryStyles` so each method follows its endpoint's
+   * `queryStyle`; it takes precedence over `queryStyle`.
+   */
+  queryStyles?: Readonly<Record<string, QueryStyle>>;
+  /** Retry policy for all requests. Default: no retries */
+  retry?: RetryOptions;
+  /**
+   * Warn (console.warn) the first time each deprecated method is called,
+   * i.e. its response has a Deprecation header. Default: false
+   */
+  warnDeprecated?: boolean;
+  /**
+   * W3C `traceparent` sent with every request so the server continues the
+   * trace, e.g. the `traceparent` a handler receives. A function is called
+   * per request.
+   */
+  traceparent?: string | (() => string | undefined);
+}
+
+const DEFAULT_RETRY_ON = [408, 409, 429, 500, 502, 503, 504];
+
+/** Methods that send the resource's last seen ETag as If-Match */
+const CONDITIONAL_METHODS = ["PUT", "PATCH", "DELETE"];
+
+/** Methods that need an Idempotency-Key to be retried safely */
+const NON_IDEMPOTENT_METHODS = ["POST", "PATCH"];
+
+/**
+ * Wait before the next attempt: the server's Retry-After if it sent one,
+ * otherwise exponential backoff.
+ */
+function retryDelay(
+  retry: RetryOptions,
+  attempt: number,
+  response?: Response,
+): number {
+  const retryAfter = Number(response?.headers.get("Retry-After") ?? NaN);
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) return retryAfter * 1000;
+  return (retry.delay ?? 500) * 2 ** (attempt - 1);
+}
+
+/** Warning for a call whose response has a Deprecation header */
+function deprecationWarning(call: string, response: Response): string {
+  const sunset = response.headers.get("Sunset");
+  const successor = response.headers.get("Link")
+    ?.match(/<([^>]*)>\s*;\s*rel="?successor-version"?/)?.[1];
+  return `${call}() is deprecated` +
+    (sunset ? ` and will be removed after ${sunset}` : "") +
+    (successor ? `; use ${successor} instead` : "");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
  * Build query string from object.
  */
-function buildQuery(query?: Record<string, unknown>): string {
+function buildQuery(
+  query?: Record<string, unknown>,
+  style?: QueryStyle,
+): string {
   if (!query) return "";
 
-  const params = new URLSearchParams();
-  for (const [key, value] of Object.entries(query)) {
-    if (value !== undefined && value !== null) {
-      if (Array.isArray(value)) {
-        for (const v of value) {
-          params.append(key, String(v));
-        }
+  const str = serializeQuery(query, style).toString();
+  return str ? `?${str}` : "";
+}
+
+/**
+ * Append form fields from an object.
+ * Arrays become repeated fields; Blobs are sent as file uploads.
+ */
+function appendFormFields(
+  form: FormData | URLSearchParams,
+  body: Record<string, unknown>,
+): void {
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue;
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (v instanceof Blob && form instanceof FormData) {
+        form.append(key, v);
       } else {
-        params.append(key, String(value));
+        form.append(key, String(v));
       }
     }
   }
+}
 
-  const str = params.toString();
-  return str ? `?${str}` : "";
+/**
+ * Encode a request body.
+ * FormData, URLSearchParams and Blobs are sent as-is. Objects are sent as
+ * multipart when they contain files or the method asks for it, otherwise as
+ * JSON (or urlencoded when requested).
+ */
+function encodeBody(
+  body: unknown,
+  contentType: RequestOptions["contentType"],
+): { body: BodyInit; contentType?: string } {
+  if (
+    body instanceof FormData || body instanceof URLSearchParams ||
+    body instanceof Blob
+  ) {
+    return { body };
+  }
+
+  const isObject = typeof body === "object" && body !== null &&
+    !Array.isArray(body);
+  const hasFiles = isObject &&
+    Object.values(body).some((value) =>
+      value instanceof Blob ||
+      (Array.isArray(value) && value.some((v) => v instanceof Blob))
+    );
+
+  if (isObject && (hasFiles || contentType === "multipart/form-data")) {
+    const form = new FormData();
+    appendFormFields(form, body as Record<string, unknown>);
+    return { body: form };
+  }
+  if (isObject && contentType === "application/x-www-form-urlencoded") {
+    const form = new URLSearchParams();
+    appendFormFields(form, body as Record<string, unknown>);
+    return { body: form };
+  }
+
+  return { body: JSON.stringify(body), contentType: "application/json" };
 }
 
 /**
@@ -150,6 +287,7 @@ async function* createSseSubscription<TEvents extends SseEventsDef>(
           response.status,
           response.statusText,
           await response.text(),
+          response.headers,
         );
       }
 
@@ -211,17 +349,71 @@ async function* createSseSubscription<TEvents extends SseEventsDef>(
 }
 
 /**
- * HTTP client error with status and response body.
+ * HTTP client error with status and response body. `TError` types the
+ * catalog errors of the failed method (see ErrorsOf).
  */
-export class ClientError extends Error {
+export class ClientError<TError extends ApiErrorDef = ApiErrorDef>
+  extends Error {
   constructor(
     public readonly status: number,
     public readonly statusText: string,
     public readonly body: unknown,
+    public readonly headers: Headers = new Headers(),
   ) {
     super(`HTTP ${status}: ${statusText}`);
     this.name = "ClientError";
   }
+
+  /** Rate limit headers of a 429 response, e.g. to schedule a retry */
+  get rateLimit(): RateLimitInfo | undefined {
+    if (this.status !== 429) return undefined;
+    const header = (name: string) => {
+      const value = this.headers.get(name);
+      return value === null ? undefined : Number(value);
+    };
+    return {
+      limit: header("RateLimit-Limit"),
+      remaining: header("RateLimit-Remaining"),
+      reset: header("RateLimit-Reset"),
+      retryAfter: header("Retry-After"),
+    };
+  }
+
+  /** The body as RFC 9457 problem details, if the server sent one */
+  get problem(): ProblemDetails | undefined {
+    const body = this.body as Partial<ProblemDetails> | null;
+    if (
+      typeof body === "object" && body !== null &&
+      typeof body.type === "string" && typeof body.status === "number"
+    ) {
+      return body as ProblemDetails;
+    }
+    return undefined;
+  }
+
+  /** True when the request was rejected by the server's schema validation */
+  isValidationProblem(): this is ClientError & {
+    body: ValidationProblemDetails;
+  } {
+    return Array.isArray(this.problem?.issues);
+  }
+
+  /** The body as a catalog error (a problem with a `code`), if it is one */
+  get error(): (ProblemDetails & TError) | undefined {
+    const problem = this.problem;
+    return typeof problem?.code === "string"
+      ? problem as ProblemDetails & TError
+      : undefined;
+  }
+
+  /** True when the server answered with the catalog error `code` */
+  isError<TCode extends TError["code"]>(
+    code: TCode,
+  ): this is ClientError<TError> & {
+    error: ProblemDetails & Extract<TError, { code: TCode }>;
+  } {
+    return this.error?.code === code;
+  }
 }
 
 /**
@@ -235,31 +427,102 @@ export function createClient<Api extends ApiSchema>(
     : config;
   const basePath = cfg.basePath ?? "/api";
   const fetchFn = cfg.fetch ?? fetch;
+  // Last ETag seen per resource path, sent back as If-Match on writes
+  const etags = new Map<string, string>();
+  // Deprecated methods already warned about, e.g. "users.retrieve"
+  const warned = new Set<string>();
+
+  /** Query encoding of a call: its endpoint's style, else the default */
+  function queryStyleOf(call: string): QueryStyle | undefined {
+    return cfg.queryStyles?.[call] ?? cfg.queryStyle;
+  }
+
+  /** The `traceparent` header of a request, if there is a trace to continue */
+  function traceHeaders(traceparent?: string): Record<string, string> {
+    const value = traceparent ??
+      (typeof cfg.traceparent === "function"
+        ? cfg.traceparent()
+        : cfg.traceparent);
+    return value ? { [TRACEPARENT_HEADER]: value } : {};
+  }
 
   async function request(
+    call: string,
     method: string,
     path: string,
     body?: unknown,
     options?: RequestOptions,
   ): Promise<unknown> {
-    const url = cfg.baseUrl + path + buildQuery(options?.query);
+    const url = cfg.baseUrl + path + buildQuery(
+      options?.query,
+      options?.queryStyle ?? queryStyleOf(call),
+    );
 
     const headers: Record<string, string> = {
       ...cfg.headers,
+      ...traceHeaders(options?.traceparent),
     };
+    for (const [key, value] of Object.entries(options?.headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        headers[key] = String(value);
+      }
+    }
 
-    let bodyStr: string | undefined;
+    let requestBody: BodyInit | undefined;
     if (body !== undefined) {
-      headers["Content-Type"] = "application/json";
-      bodyStr = JSON.stringify(body);
+      const encoded = encodeBody(body, options?.contentType);
+      if (encoded.contentType) {
+        headers["Content-Type"] = encoded.contentType;
+      }
+      requestBody = encoded.body;
     }
 
-    const response = await fetchFn(url, {
-      method,
-      headers,
-      body: bodyStr,
-      signal: options?.signal,
-    });
+    const retry = options?.retry === false
+      ? undefined
+      : options?.retry ?? cfg.retry;
+    const attempts = Math.max(1, retry?.attempts ?? 1);
+    const idempotencyKey = options?.idempotencyKey ??
+      (attempts > 1 && NON_IDEMPOTENT_METHODS.includes(method)
+        ? crypto.randomUUID()
+        : undefined);
+    if (idempotencyKey !== undefined) {
+      headers["Idempotency-Key"] = idempotencyKey;
+    }
+    const etag = etags.get(path);
+    if (
+      etag !== undefined && CONDITIONAL_METHODS.includes(method) &&
+      !Object.keys(headers).some((key) => key.toLowerCase() === "if-match")
+    ) {
+      headers["If-Match"] = etag;
+    }
+
+    let response: Response;
+    for (let attempt = 1;; attempt++) {
+      try {
+        response = await fetchFn(url, {
+          method,
+          headers,
+          body: requestBody,
+          signal: options?.signal,
+        });
+      } catch (error) {
+        if (attempt >= attempts || options?.signal?.aborted) throw error;
+        await sleep(retryDelay(retry!, attempt), options?.signal);
+        continue;
+      }
+      const retryOn = retry?.retryOn ?? DEFAULT_RETRY_ON;
+      if (attempt >= attempts || !retryOn.includes(response.status)) break;
+      await response.body?.cancel();
+      await sleep(retryDelay(retry!, attempt, response), options?.signal);
+    }
+
+    if (
+      cfg.warnDeprecated && response.headers.has("Deprecation") &&
+      !warned.has(call)
+    ) {
+      warned.add(call);
+      console.warn(deprecationWarning(call, response));
+    }
 
     if (!response.ok) {
       let errorBody: unknown;
@@ -268,7 +531,19 @@ export function createClient<Api extends ApiSchema>(
       } catch {
         errorBody = await response.text();
       }
-      throw new ClientError(response.status, response.statusText, errorBody);
+      throw new ClientError(
+        response.status,
+        response.statusText,
+        errorBody,
+        response.headers,
+      );
+    }
+
+    const newEtag = response.headers.get("ETag");
+    if (method === "DELETE") {
+      etags.delete(path);
+    } else if (newEtag !== null) {
+      etags.set(path, newEtag);
     }
 
     // No content
@@ -288,13 +563,14 @@ export function createClient<Api extends ApiSchema>(
    * Create a resource proxy that handles method calls and nested resources.
    */
   function createResourceProxy(pathSegments: string[]): unknown {
+    const call = (method: string) => [...pathSegments, method].join(".");
     return new Proxy(() => {}, {
       get(_target, prop: string) {
         // Handle method calls
         if (prop === "list") {
           return (options?: RequestOptions) => {
             const path = basePath + "/" + pathSegments.join("/");
-            return request("GET", path, undefined, options);
+            return request(call(prop), "GET", path, undefined, options);
           };
         }
 
@@ -302,14 +578,14 @@ export function createClient<Api extends ApiSchema>(
           return (id: string, options?: RequestOptions) => {
             const path = basePath + "/" + pathSegments.join("/") + "/" +
               encodeURIComponent(id);
-            return request("GET", path, undefined, options);
+            return request(call(prop), "GET", path, undefined, options);
           };
         }
 
         if (prop === "create") {
           return (body: unknown, options?: RequestOptions) => {
             const path = basePath + "/" + pathSegments.join("/");
-            return request("POST", path, body, options);
+            return request(call(prop), "POST", path, body, options);
           };
         }
 
@@ -317,7 +593,7 @@ export function createClient<Api extends ApiSchema>(
           return (id: string, body: unknown, options?: RequestOptions) => {
             const path = basePath + "/" + pathSegments.join("/") + "/" +
               encodeURIComponent(id);
-            return request("PUT", path, body, options);
+            return request(call(prop), "PUT", path, body, options);
           };
         }
 
@@ -325,7 +601,7 @@ export function createClient<Api extends ApiSchema>(
           return (id: string, options?: RequestOptions) => {
             const path = basePath + "/" + pathSegments.join("/") + "/" +
               encodeURIComponent(id);
-            return request("DELETE", path, undefined, options);
+            return request(call(prop), "DELETE", path, undefined, options);
           };
         }
 
@@ -346,11 +622,14 @@ export function createClient<Api extends ApiSchema>(
               options = idOrOptions ?? {};
             }
 
-            const url = cfg.baseUrl + path + buildQuery(options.query);
+            const url = cfg.baseUrl + path + buildQuery(
+              options.query,
+              queryStyleOf(call(prop)),
+            );
             return createSseSubscription(
               fetchFn,
               url,
-              cfg.headers ?? {},
+              { ...cfg.headers, ...traceHeaders() },
               options,
             );
           };
@@ -1,5 +1,5 @@
 import { assertEquals, assertRejects } from "@std/assert";
-import { ClientError, createClient } from "./index.ts";
+import { ClientError, createClient, type ErrorsOf } from "./index.ts";
 
 // Mock API type for testing (using type instead of interface for index signature compatibility)
 type TestApi = {
@@ -172,6 +172,434 @@ Deno.test("createClient throws ClientError on non-ok response", async () => {
   assertEquals(error.body, { error: "Not found" });
 });
 
+Deno.test("ClientError exposes validation problem details", async () => {
+  const problem = {
+    type: "urn:typed-endpoints:problem:validation-error",
+    title: "Request validation failed",
+    status: 400,
+    issues: [
+      {
+        path: ["name"],
+        code: "invalid_type",
+        message: "Expected string",
+        location: "body",
+      },
+    ],
+  };
+  const mockFetch = createMockFetch(() => {
+    return new Response(JSON.stringify(problem), {
+      status: 400,
+      statusText: "Bad Request",
+      headers: { "Content-Type": "application/problem+json" },
+    });
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+  });
+
+  const error = await assertRejects(
+    () => client.users.create({ name: "" }),
+    ClientError,
+  );
+
+  assertEquals(error.problem, problem);
+  assertEquals(error.isValidationProblem(), true);
+  if (error.isValidationProblem()) {
+    assertEquals(error.body.issues[0].path, ["name"]);
+  }
+});
+
+Deno.test("ClientError.problem is undefined for plain error bodies", () => {
+  const error = new ClientError(404, "Not Found", { error: "Not found" });
+  assertEquals(error.problem, undefined);
+  assertEquals(error.isValidationProblem(), false);
+});
+
+Deno.test("ClientError.isError narrows catalog errors by code", () => {
+  type UsersRetrieve = {
+    response: { id: string };
+    errors:
+      | { code: "NOT_FOUND"; status: 404; details: { id: string } }
+      | { code: "CONFLICT"; status: 409 };
+  };
+  const error = new ClientError<ErrorsOf<UsersRetrieve>>(404, "Not Found", {
+    type: "about:blank",
+    title: "Not found",
+    status: 404,
+    code: "NOT_FOUND",
+    details: { id: "123" },
+  });
+
+  assertEquals(error.error?.code, "NOT_FOUND");
+  assertEquals(error.isError("CONFLICT"), false);
+  assertEquals(error.isError("NOT_FOUND"), true);
+  if (error.isError("NOT_FOUND")) {
+    assertEquals(error.error.details.id, "123");
+  }
+  assertEquals(
+    new ClientError(404, "Not Found", { title: "x" }).error,
+    undefined,
+  );
+});
+
+Deno.test("ClientError exposes rate limit headers on 429 responses", async () => {
+  const mockFetch = createMockFetch(() => {
+    return new Response(
+      JSON.stringify({
+        type: "about:blank",
+        title: "Too Many Requests",
+        status: 429,
+      }),
+      {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: {
+          "Content-Type": "application/problem+json",
+          "RateLimit-Limit": "60",
+          "RateLimit-Remaining": "0",
+          "RateLimit-Reset": "42",
+          "Retry-After": "42",
+        },
+      },
+    );
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+  });
+
+  const error = await assertRejects(() => client.users.list(), ClientError);
+  assertEquals(error.rateLimit, {
+    limit: 60,
+    remaining: 0,
+    reset: 42,
+    retryAfter: 42,
+  });
+  assertEquals(new ClientError(500, "Error", "").rateLimit, undefined);
+});
+
+Deno.test("createClient retries POSTs with the same Idempotency-Key", async () => {
+  const keys: (string | null)[] = [];
+  const mockFetch = createMockFetch((_url, init) => {
+    keys.push(new Headers(init?.headers).get("Idempotency-Key"));
+    if (keys.length === 1) return Promise.reject(new TypeError("reset"));
+    if (keys.length === 2) {
+      return new Response(null, {
+        status: 503,
+        headers: { "Retry-After": "0" },
+      });
+    }
+    return Response.json({ id: "1", name: "Alice" }, { status: 201 });
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+    retry: { attempts: 3, delay: 1 },
+  });
+
+  const created = await client.users.create({ name: "Alice" });
+  assertEquals(created, { id: "1", name: "Alice" });
+  assertEquals(keys.length, 3);
+  assertEquals(typeof keys[0], "string");
+  assertEquals(new Set(keys).size, 1);
+});
+
+Deno.test("createClient gives up after the last retry", async () => {
+  let calls = 0;
+  const mockFetch = createMockFetch(() => {
+    calls++;
+    return Response.json({ error: "busy" }, { status: 503 });
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+    retry: { attempts: 2, delay: 1 },
+  });
+
+  const error = await assertRejects(() => client.users.list(), ClientError);
+  assertEquals(error.status, 503);
+  assertEquals(calls, 2);
+});
+
+Deno.test("createClient sends remembered ETags as If-Match", async () => {
+  const ifMatch: (string | null)[] = [];
+  let version = 1;
+  const mockFetch = createMockFetch((_url, init) => {
+    ifMatch.push(new Headers(init?.headers).get("If-Match"));
+    if (init?.method === "PUT") version++;
+    if (init?.method === "DELETE") return new Response(null, { status: 204 });
+    return Response.json({ id: "1" }, { headers: { ETag: `"${version}"` } });
+  });
+
+  const client = createClient<
+    TestApi & {
+      users: { update: { body: { name: string }; response: { id: string } } };
+    }
+  >({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+  });
+
+  await client.users.retrieve("1");
+  await client.users.update("1", { name: "Ada" });
+  await client.users.update("1", { name: "Sam" });
+  await client.users.delete("1");
+  await client.users.delete("1");
+  await client.users.update("2", { name: "Bo" }, {
+    headers: { "if-match": '"9"' },
+  });
+  assertEquals(ifMatch, [null, '"1"', '"2"', '"3"', null, '"9"']);
+});
+
+Deno.test("createClient warns once per deprecated method", async () => {
+  const mockFetch = createMockFetch((url) =>
+    Response.json(url.endsWith("/users") ? [] : { id: "1", name: "Alice" }, {
+      headers: {
+        "Deprecation": "true",
+        "Sunset": "Fri, 01 Jan 2027 00:00:00 GMT",
+        "Link": '</api/v2/users>; rel="successor-version"',
+      },
+    })
+  );
+  const warnings: string[] = [];
+  const original = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+  try {
+    const client = createClient<TestApi>({
+      baseUrl: "http://localhost:3000",
+      fetch: mockFetch,
+      warnDeprecated: true,
+    });
+    await client.users.list();
+    await client.users.list();
+    await client.users.retrieve("1");
+    await client.users.retrieve("2");
+
+    const quiet = createClient<TestApi>({
+      baseUrl: "http://localhost:3000",
+      fetch: mockFetch,
+    });
+    await quiet.users.list();
+  } finally {
+    console.warn = original;
+  }
+
+  assertEquals(warnings, [
+    "users.list() is deprecated and will be removed after " +
+    "Fri, 01 Jan 2027 00:00:00 GMT; use /api/v2/users instead",
+    "users.retrieve() is deprecated and will be removed after " +
+    "Fri, 01 Jan 2027 00:00:00 GMT; use /api/v2/users instead",
+  ]);
+});
+
+Deno.test("createClient sends Idempotency-Key only when asked or retrying", async () => {
+  const keys: (string | null)[] = [];
+  const mockFetch = createMockFetch((_url, init) => {
+    keys.push(new Headers(init?.headers).get("Idempotency-Key"));
+    return Response.json({ id: "1", name: "Alice" });
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+  });
+
+  await client.users.create({ name: "Alice" });
+  await client.users.create({ name: "Alice" }, { idempotencyKey: "order-7" });
+  await client.users.list({ retry: { attempts: 3 } });
+  assertEquals(keys, [null, "order-7", null]);
+});
+
+Deno.test("createClient sends traceparent to continue traces", async () => {
+  const parents: (string | null)[] = [];
+  const mockFetch = createMockFetch((_url, init) => {
+    parents.push(new Headers(init?.headers).get("traceparent"));
+    return Response.json([]);
+  });
+  const incoming = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+  let current: string | undefined = incoming;
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+    traceparent: () => current,
+  });
+
+  await client.users.list();
+  await client.users.list({
+    traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01",
+  });
+  current = undefined;
+  await client.users.list();
+  assertEquals(parents, [
+    incoming,
+    "00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01",
+    null,
+  ]);
+});
+
+Deno.test("createClient sends typed per-request headers", async () => {
+  type HeadersApi = {
+    users: {
+      update: {
+        body: { name: string };
+        response: { id: string };
+        headers: { "If-Match": string };
+      };
+    };
+  };
+  const requests: { headers: Record<string, string> }[] = [];
+
+  const mockFetch = createMockFetch((_url, init) => {
+    requests.push({ headers: init?.headers as Record<string, string> });
+    return Response.json({ id: "1" });
+  });
+
+  const client = createClient<HeadersApi>({
+    baseUrl: "http://localhost:3000",
+    headers: { Authorization: "Bearer token" },
+    fetch: mockFetch,
+  });
+
+  await client.users.update("1", { name: "Sam" }, {
+    headers: { "If-Match": '"v1"' },
+  });
+
+  assertEquals(requests[0].headers["Authorization"], "Bearer token");
+  assertEquals(requests[0].headers["If-Match"], '"v1"');
+});
+
+Deno.test("createClient sends objects with files as multipart", async () => {
+  type UploadApi = {
+    uploads: {
+      create: {
+        body: { title: string; file: File };
+        response: { id: string };
+        contentType: "multipart/form-data";
+      };
+    };
+  };
+  const requests: { headers: Record<string, string>; body: unknown }[] = [];
+
+  const mockFetch = createMockFetch((_url, init) => {
+    requests.push({
+      headers: init?.headers as Record<string, string>,
+      body: init?.body,
+    });
+    return Response.json({ id: "1" });
+  });
+
+  const client = createClient<UploadApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+  });
+
+  await client.uploads.create({
+    title: "Report",
+    file: new File(["hello"], "report.txt"),
+  });
+
+  const body = requests[0].body as FormData;
+  assertEquals(body instanceof FormData, true);
+  assertEquals(body.get("title"), "Report");
+  assertEquals(await (body.get("file") as File).text(), "hello");
+  // fetch sets the multipart boundary itself
+  assertEquals(requests[0].headers["Content-Type"], undefined);
+});
+
+Deno.test("createClient encodes urlencoded bodies on request", async () => {
+  const requests: { body: unknown }[] = [];
+
+  const mockFetch = createMockFetch((_url, init) => {
+    requests.push({ body: init?.body });
+    return Response.json({ ok: true });
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+  });
+
+  await client.users.create({ name: "Sam Smith" }, {
+    contentType: "application/x-www-form-urlencoded",
+  });
+
+  assertEquals(String(requests[0].body), "name=Sam+Smith");
+});
+
+Deno.test("createClient encodes query in the configured style", async () => {
+  const requests: { url: string }[] = [];
+
+  const mockFetch = createMockFetch((url) => {
+    requests.push({ url });
+    return Response.json([]);
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+    queryStyle: "comma",
+  });
+
+  await client.users.list({
+    query: { ids: [1, 2], filter: { status: "open" } },
+  });
+  await client.users.list({
+    query: { ids: [1, 2] },
+    queryStyle: "form",
+  });
+
+  assertEquals(
+    decodeURIComponent(requests[0].url),
+    "http://localhost:3000/api/users?ids=1,2&filter[status]=open",
+  );
+  assertEquals(
+    requests[1].url,
+    "http://localhost:3000/api/users?ids=1&ids=2",
+  );
+});
+
+Deno.test("createClient encodes each method's query in its endpoint's style", async () => {
+  const requests: { url: string }[] = [];
+
+  const mockFetch = createMockFetch((url) => {
+    requests.push({ url });
+    return Response.json([]);
+  });
+
+  const client = createClient<TestApi>({
+    baseUrl: "http://localhost:3000",
+    fetch: mockFetch,
+    queryStyle: "comma",
+    queryStyles: { "users.list": "deepObject" },
+  });
+
+  await client.users.list({ query: { filter: { status: "open" } } });
+  await client.users.retrieve("1", { query: { ids: [1, 2] } });
+  await client.users.list({
+    query: { ids: [1, 2] },
+    queryStyle: "form",
+  });
+
+  assertEquals(
+    decodeURIComponent(requests[0].url),
+    "http://localhost:3000/api/users?filter[status]=open",
+  );
+  assertEquals(
+    decodeURIComponent(requests[1].url),
+    "http://localhost:3000/api/users/1?ids=1,2",
+  );
+  assertEquals(
+    requests[2].url,
+    "http://localhost:3000/api/users?ids=1&ids=2",
+  );
+});
+
 Deno.test("createClient uses custom basePath", async () => {
   const requests: { url: string }[] = [];
 
@@ -20,6 +20,8 @@
  * ```
  */
 
+import type { QueryStyle } from "../core/types.ts";
+
 /** Standard resource methods */
 export type ResourceMethod =
   | "list"
@@ -34,8 +36,31 @@ export interface MethodDef {
   query?: Record<string, unknown>;
   body?: unknown;
   response?: unknown;
+  headers?: Record<string, unknown>;
+  /** Body content types, when the method accepts more than JSON */
+  contentType?: string;
+  /** Declared rate limit; requests over it fail with a 429 ClientError */
+  rateLimit?: { window: string | number; max: number };
+  /** Repeats with the same Idempotency-Key replay the first response */
+  idempotent?: boolean;
+  /** Catalog errors the method can fail with, discriminated by `code` */
+  errors?: ApiErrorDef;
+}
+
+/** A catalog error as generated: its code, status and details */
+export interface ApiErrorDef {
+  code: string;
+  status: number;
+  details?: unknown;
 }
 
+/**
+ * Errors a method can fail with, to type ClientError, e.g.
+ * `ClientError<ErrorsOf<Api["users"]["retrieve"]>>`
+ */
+export type ErrorsOf<M> = M extends { errors: infer E extends ApiErrorDef } ? E
+  : ApiErrorDef;
+
 /** A resource can have methods and/or nested resources */
 // deno-lint-ignore no-explicit-any
 export type ResourceDef = Record<string, any>;
@@ -48,42 +73,94 @@ export type ApiSchema = Record<string, any>;
 // Client method signatures
 // =============================================================================
 
+/**
+ * Retry policy for failed requests. Retried POST and PATCH requests carry an
+ * Idempotency-Key, the same on every attempt, so `idempotent` endpoints run
+ * them once.
+ */
+export interface RetryOptions {
+  /** Total attempts, including the first */
+  attempts: number;
+  /** Delay before the first retry in ms, doubled on each retry. Default: 500 */
+  delay?: number;
+  /**
+   * Statuses worth retrying. Network errors are always retried.
+   * Default: [408, 409, 429, 500, 502, 503, 504]
+   */
+  retryOn?: number[];
+}
+
 /** Options that can be passed to any method */
 export interface RequestOptions {
   query?: Record<string, unknown>;
+  /** Query encoding for this request, overriding the client default */
+  queryStyle?: QueryStyle;
+  /** Extra request headers, merged over the client's default headers */
+  headers?: Record<string, unknown>;
+  /**
+   * How to encode an object body. Objects containing files are always sent as
+   * multipart. Default: "application/json"
+   */
+  contentType?:
+    | "application/json"
+    | "multipart/form-data"
+    | "application/x-www-form-urlencoded";
   signal?: AbortSignal;
+  /** Retry policy for this request, overriding the client default */
+  retry?: RetryOptions | false;
+  /**
+   * Idempotency-Key to send. Default: a random key when the request may be
+   * retried.
+   */
+  idempotencyKey?: string;
+  /** `traceparent` for this request, overriding the client's */
+  traceparent?: string;
 }
 
+/** Method options - headers are required and typed when the method declares them */
+export type MethodOptions<M extends MethodDef> = M["headers"] extends
+  Record<string, unknown> ? RequestOptions & { headers: M["headers"] }
+  : RequestOptions;
+
+/** Trailing options argument - required when the method declares headers */
+export type MethodOptionsArg<M extends MethodDef> = M["headers"] extends
+  Record<string, unknown> ? [options: MethodOptions<M>]
+  : [options?: MethodOptions<M>];
+
 /** List method - no required params, returns array */
 export type ListMethod<M extends MethodDef> = M["query"] extends
-  Record<string, unknown>
-  ? (options: RequestOptions & { query: M["query"] }) => Promise<M["response"]>
-  : (options?: RequestOptions) => Promise<M["response"]>;
+  Record<string, unknown> ? (
+    options: MethodOptions<M> & { query: M["query"] },
+  ) => Promise<M["response"]>
+  : (...options: MethodOptionsArg<M>) => Promise<M["response"]>;
 
 /** Retrieve method - requires id param */
 export type RetrieveMethod<M extends MethodDef> = (
   id: string,
-  options?: RequestOptions,
+  ...options: MethodOptionsArg<M>
 ) => Promise<M["response"]>;
 
 /** Create method - requires body */
 export type CreateMethod<M extends MethodDef> = M["body"] extends undefined
-  ? (options?: RequestOptions) => Promise<M["response"]>
-  : (body: M["body"], options?: RequestOptions) => Promise<M["response"]>;
+  ? (...options: MethodOptionsArg<M>) => Promise<M["response"]>
+  : (
+    body: M["body"],
+    ...options: MethodOptionsArg<M>
+  ) => Promise<M["response"]>;
 
 /** Update method - requires id and body */
 export type UpdateMethod<M extends MethodDef> = M["body"] extends undefined
-  ? (id: string, options?: RequestOptions) => Promise<M["response"]>
+  ? (id: string, ...options: MethodOptionsArg<M>) => Promise<M["response"]>
   : (
     id: string,
     body: M["body"],
-    options?: RequestOptions,
+    ...options: MethodOptionsArg<M>
   ) => Promise<M["response"]>;
 
 /** Delete method - requires id */
 export type DeleteMethod<M extends MethodDef> = (
   id: string,
-  options?: RequestOptions,
+  ...options: MethodOptionsArg<M>
 ) => Promise<M["response"]>;
 
 // =============================================================================
@@ -102,6 +179,18 @@ export interface SseMethodDef {
   events: SseEventsDef;
 }
 
+/** Rate limit state sent with a 429 response */
+export interface RateLimitInfo {
+  /** Requests allowed per window */
+  limit?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** Seconds until the window resets */
+  reset?: number;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
+}
+
 /** Options for SSE subscription */
 export interface SubscribeOptions {
   query?: Record<string, unknown>;
@@ -135,26 +224,31 @@ export type SubscribeMethod<M extends SseMethodDef> = M["params"] extends
 // Resource to Client type mapping
 // =============================================================================
 
-// deno-lint-ignore ban-types
-type Empty = {};
+/** The client function for a resource method */
+type ClientMethod<K, M> = K extends "subscribe"
+  ? M extends SseMethodDef ? SubscribeMethod<M> : never
+  : M extends MethodDef ? K extends "list" ? ListMethod<M>
+    : K extends "retrieve" ? RetrieveMethod<M>
+    : K extends "create" ? CreateMethod<M>
+    : K extends "update" ? UpdateMethod<M>
+    : K extends "delete" ? DeleteMethod<M>
+    : never
+  : never;
+
+/** Method names of a resource whose definitions have the right shape */
+type ClientMethodName<R extends ResourceDef, K extends keyof R> = K extends
+  "subscribe" ? R[K] extends SseMethodDef ? K : never
+  : K extends ResourceMethod ? R[K] extends MethodDef ? K : never
+  : never;
 
-/** Convert a ResourceDef to client methods */
+/**
+ * Convert a ResourceDef to client methods. Methods are mapped over the
+ * resource's own keys, so their JSDoc (e.g. `@deprecated`) shows on calls.
+ */
 export type ResourceClient<R extends ResourceDef> =
-  // REST Methods
-  & (R["list"] extends MethodDef ? { list: ListMethod<R["list"]> } : Empty)
-  & (R["retrieve"] extends MethodDef
-    ? { retrieve: RetrieveMethod<R["retrieve"]> }
-    : Empty)
-  & (R["create"] extends MethodDef ? { create: CreateMethod<R["create"]> }
-    : Empty)
-  & (R["update"] extends MethodDef ? { update: UpdateMethod<R["update"]> }
-    : Empty)
-  & (R["delete"] extends MethodDef ? { delete: DeleteMethod<R["delete"]> }
-    : Empty)
-  // SSE Method
-  & (R["subscribe"] extends SseMethodDef
-    ? { subscribe: SubscribeMethod<R["subscribe"]> }
-    : Empty)
+  & {
+    [K in keyof R as ClientMethodName<R, K>]: ClientMethod<K, R[K]>;
+  }
   & // Nested resources (exclude method names)
   {
     [K in Exclude<keyof R, ResourceMethod | "subscribe">]: R[K] extends
@@ -0,0 +1,94 @@
+/**
+ * Access Logs
+ *
+ * One structured entry per request: method, route, status and duration,
+ * with the validated request and the JSON response body. Fields marked
+ * `.meta({ sensitive: true })` are masked, so entries can go to ordinary
+ * log storage.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type { ApiMethodDef, ValidatedRequest } from "./types.ts";
+import { responseSchemaFor } from "./response.ts";
+import { redact } from "./redaction.ts";
+
+/** What an access log entry records about a request */
+export interface AccessLogEntry {
+  /** ISO timestamp of the request */
+  time: string;
+  method: string;
+  route: string;
+  operationId?: string;
+  /** Status sent, or 500 when handling threw */
+  status: number;
+  /** Milliseconds from the request to its response */
+  duration: number;
+  /** Trace context of the request's span */
+  traceparent?: string;
+  /** Validated path params, query and body; absent when validation failed */
+  request?: { params?: unknown; query?: unknown; body?: unknown };
+  /** JSON response body */
+  response?: unknown;
+  /** Error thrown while handling the request */
+  error?: string;
+}
+
+/** Receives an entry per request. Errors it throws are reported, not sent. */
+export type AccessLogger = (entry: AccessLogEntry) => void | Promise<void>;
+
+/** Access logging: `true` for JSON lines on the console, or a logger */
+export type AccessLogConfig = true | AccessLogger;
+
+/** Writes entries as JSON lines to the console */
+export const consoleAccessLogger: AccessLogger = (entry) => {
+  console.log(JSON.stringify(entry));
+};
+
+/** The logger for an `accessLog` option, if logging is on */
+export function accessLogger(
+  config: AccessLogConfig | undefined,
+): AccessLogger | undefined {
+  return config === true ? consoleAccessLogger : config;
+}
+
+/** The schemas access log entries are redacted with */
+export interface LoggedSchemas
+  extends Pick<ApiMethodDef, "response" | "responses"> {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+/** Params, query and body of a validated request, redacted */
+export function loggedRequest(
+  request: Pick<ValidatedRequest, "params" | "query" | "body">,
+  def: LoggedSchemas,
+): NonNullable<AccessLogEntry["request"]> {
+  return {
+    ...(request.params !== undefined &&
+      { params: redact(request.params, def.params) }),
+    ...(request.query !== undefined &&
+      { query: redact(request.query, def.query) }),
+    ...(request.body !== undefined && { body: redact(request.body, def.body) }),
+  };
+}
+
+/**
+ * The JSON body of a response, redacted with the schema declared for its
+ * status. Undefined for other bodies; the response itself isn't consumed.
+ */
+export async function loggedResponse(
+  response: Response,
+  def: LoggedSchemas,
+): Promise<unknown> {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (!contentType.includes("json") || response.bodyUsed) return undefined;
+  try {
+    const data = JSON.parse(await response.clone().text());
+    return redact(data, responseSchemaFor(def, response.status));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,55 @@
+import { assertEquals } from "@std/assert";
+import { z } from "zod";
+import { loggedRequest, loggedResponse } from "./accesslog.ts";
+import { REDACTED } from "./redaction.ts";
+
+const schemas = {
+  query: z.object({ apiKey: z.string().meta({ sensitive: true }) }),
+  body: z.object({ card: z.string().meta({ sensitive: true }) }),
+  response: z.object({ id: z.string(), card: z.string() }),
+  responses: {
+    201: z.object({ secret: z.string().meta({ sensitive: true }) }),
+  },
+};
+
+Deno.test("loggedRequest redacts params, query and body", () => {
+  assertEquals(
+    loggedRequest({
+      params: { id: "1" },
+      query: { apiKey: "key" },
+      body: { card: "4242" },
+    }, schemas),
+    {
+      params: { id: "1" },
+      query: { apiKey: REDACTED },
+      body: { card: REDACTED },
+    },
+  );
+  assertEquals(
+    loggedRequest({ params: {}, query: undefined, body: undefined }, {}),
+    { params: {} },
+  );
+});
+
+Deno.test("loggedResponse redacts with the schema of the status", async () => {
+  const response = Response.json({ secret: "s3cret" }, { status: 201 });
+  assertEquals(await loggedResponse(response, schemas), { secret: REDACTED });
+  // The response can still be sent
+  assertEquals(await response.json(), { secret: "s3cret" });
+
+  assertEquals(
+    await loggedResponse(Response.json({ id: "1", card: "4242" }), schemas),
+    { id: "1", card: "4242" },
+  );
+});
+
+Deno.test("loggedResponse skips bodies that aren't JSON", async () => {
+  assertEquals(await loggedResponse(new Response("text"), schemas), undefined);
+  assertEquals(
+    await loggedResponse(
+      new Response("{", { headers: { "Content-Type": "application/json" } }),
+      schemas,
+    ),
+    undefined,
+  );
+});
@@ -0,0 +1,294 @@
+/**
+ * Authorization Policies
+ *
+ * An endpoint's `authorize` policy is checked against the authenticated
+ * principal after the request is validated: required roles, required scopes,
+ * and/or a predicate over the principal and the validated request. Response
+ * schema fields marked with visibleTo() are stripped for callers without one
+ * of the listed roles.
+ *
+ * Roles are read from the principal's `roles` (array) or `role` (string);
+ * scopes from `scopes` (array) or `scope` (space-delimited, as in OAuth).
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type { ApiMethodDef, ValidatedRequest } from "./types.ts";
+import { rebuildResponse, responseSchemaFor } from "./response.ts";
+
+/** Who may call an endpoint. All given conditions must hold. */
+export interface AuthorizationPolicy<
+  // deno-lint-ignore no-explicit-any
+  TPrincipal = any,
+  TRequest = ValidatedRequest,
+> {
+  /** The principal needs at least one of these roles */
+  roles?: readonly string[];
+  /** The principal needs every one of these scopes */
+  scopes?: readonly string[];
+  /** Custom rule over the principal and the validated request */
+  check?(principal: TPrincipal, request: TRequest): boolean | Promise<boolean>;
+  /** Human-readable summary, published in OpenAPI */
+  description?: string;
+}
+
+function stringList(value: unknown, separator?: RegExp): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  if (typeof value === "string") {
+    return separator ? value.split(separator).filter(Boolean) : [value];
+  }
+  return [];
+}
+
+function field(principal: unknown, key: string): unknown {
+  return typeof principal === "object" && principal !== null
+    ? (principal as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/** Roles of a principal (`roles` array or `role` string) */
+export function principalRoles(principal: unknown): string[] {
+  return [
+    ...stringList(field(principal, "roles")),
+    ...stringList(field(principal, "role")),
+  ];
+}
+
+/** Scopes of a principal (`scopes` array or space-delimited `scope`) */
+export function principalScopes(principal: unknown): string[] {
+  return [
+    ...stringList(field(principal, "scopes")),
+    ...stringList(field(principal, "scope"), /\s+/),
+  ];
+}
+
+/** Identity of a principal: its `id` or `sub`, or itself if a string */
+export function principalId(principal: unknown): string | undefined {
+  if (typeof principal === "string") return principal;
+  const value = field(principal, "id") ?? field(principal, "sub");
+  return value === undefined ? undefined : String(value);
+}
+
+/** Evaluate a policy. Role and scope checks run before the predicate. */
+export async function isAuthorized(
+  policy: AuthorizationPolicy,
+  principal: unknown,
+  request: ValidatedRequest,
+): Promise<boolean> {
+  if (policy.roles && policy.roles.length > 0) {
+    const roles = principalRoles(principal);
+    if (!policy.roles.some((role) => roles.includes(role))) return false;
+  }
+  if (policy.scopes && policy.scopes.length > 0) {
+    const scopes = principalScopes(principal);
+    if (!policy.scopes.every((scope) => scopes.includes(scope))) return false;
+  }
+  if (policy.check) {
+    return await policy.check(principal, request);
+  }
+  return true;
+}
+
+/** Summary of a policy for the `x-authorization` OpenAPI extension */
+export function describeAuthorization(
+  policy: AuthorizationPolicy,
+): Record<string, unknown> {
+  return {
+    ...(policy.roles && { roles: policy.roles }),
+    ...(policy.scopes && { scopes: policy.scopes }),
+    ...(policy.check && { custom: true }),
+    ...(policy.description && { description: policy.description }),
+  };
+}
+
+// =============================================================================
+// Field Visibility
+// =============================================================================
+
+/**
+ * Mark a response field as visible only to principals with one of the roles.
+ * The field should be optional, since other callers won't receive it. The
+ * roles are kept as `visibleTo` metadata, so they survive `.describe()` and
+ * `.meta()`, and OpenAPI documents them as `x-visible-to`.
+ *
+ * @example
+ * ```ts
+ * response: z.object({
+ *   name: z.string(),
+ *   email: visibleTo(z.string(), ["admin"]).optional(),
+ * })
+ * ```
+ */
+export function visibleTo<T extends z.ZodType>(
+  schema: T,
+  roles: readonly string[],
+): T {
+  return schema.meta({ visibleTo: roles }) as T;
+}
+
+type ZodDef = Record<string, unknown> & { type?: string };
+
+function defOf(schema: z.ZodType): ZodDef {
+  return schema._zod.def as unknown as ZodDef;
+}
+
+/** Roles a field is restricted to, looking through optional/default wrappers */
+function restrictedTo(schema: z.ZodType): readonly string[] | undefined {
+  let current: z.ZodType | undefined = schema;
+  while (current) {
+    const roles = current.meta()?.visibleTo;
+    if (Array.isArray(roles)) return roles;
+    const def = defOf(current);
+    current = "innerType" in def ? def.innerType as z.ZodType : undefined;
+  }
+  return undefined;
+}
+
+/** The schema beneath an optional/default wrapper or a pipe's input */
+function wrapped(schema: z.ZodType): z.ZodType | undefined {
+  const def = defOf(schema);
+  if ("innerType" in def) return def.innerType as z.ZodType;
+  return def.type === "pipe" ? def.in as z.ZodType : undefined;
+}
+
+/** The shapes a value of the schema may have: union options, unwrapped */
+function variants(schema: z.ZodType): z.ZodType[] {
+  let inner = schema;
+  for (let next = wrapped(inner); next; next = wrapped(inner)) inner = next;
+  const def = defOf(inner);
+  return def.type === "union"
+    ? (def.options as z.ZodType[]).flatMap(variants)
+    : [inner];
+}
+
+/** Whether a field is restricted or has restricted fields itself */
+function isRestricted(field: z.ZodType): boolean {
+  return restrictedTo(field) !== undefined || hasRestrictedFields(field);
+}
+
+const restrictedCache = new WeakMap<z.ZodType, boolean>();
+
+/** Whether a schema has restricted fields anywhere (cached per schema) */
+export function hasRestrictedFields(schema: z.ZodType): boolean {
+  const cached = restrictedCache.get(schema);
+  if (cached !== undefined) return cached;
+  restrictedCache.set(schema, false); // guards recursive schemas
+
+  const result = variants(schema).some((variant) => {
+    const def = defOf(variant);
+    switch (def.type) {
+      case "object":
+        return Object.values(def.shape as Record<string, z.ZodType>).some(
+          isRestricted,
+        );
+      case "array":
+        return hasRestrictedFields(def.element as z.ZodType);
+      case "record":
+        return isRestricted(def.valueType as z.ZodType);
+      default:
+        return false;
+    }
+  });
+  restrictedCache.set(schema, result);
+  return result;
+}
+
+/** Whether the roles may see a field */
+function isVisible(field: z.ZodType, roles: readonly string[]): boolean {
+  const allowed = restrictedTo(field);
+  return !allowed || allowed.some((role) => roles.includes(role));
+}
+
+/**
+ * Remove fields the roles may not see, following the schema's objects,
+ * arrays, records and unions.
+ */
+export function filterFields(
+  data: unknown,
+  schema: z.ZodType,
+  roles: readonly string[],
+): unknown {
+  return variants(schema).reduce(
+    (current, variant) => filterShape(current, variant, roles),
+    data,
+  );
+}
+
+function filterShape(
+  data: unknown,
+  schema: z.ZodType,
+  roles: readonly string[],
+): unknown {
+  const def = defOf(schema);
+
+  if (def.type === "array" && Array.isArray(data)) {
+    const element = def.element as z.ZodType;
+    return data.map((item) => filterFields(item, element, roles));
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return data;
+  }
+
+  if (def.type === "object") {
+    const shape = def.shape as Record<string, z.ZodType>;
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (!Object.hasOwn(shape, key)) {
+        result[key] = value;
+        continue;
+      }
+      if (!isVisible(shape[key], roles)) continue;
+      result[key] = filterFields(value, shape[key], roles);
+    }
+    return result;
+  }
+
+  if (def.type === "record") {
+    const valueType = def.valueType as z.ZodType;
+    if (!isVisible(valueType, roles)) return {};
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        filterFields(value, valueType, roles),
+      ]),
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Strip restricted fields from a JSON response for callers without the
+ * required roles. Responses whose schema has no visibleTo() fields pass
+ * through untouched.
+ */
+export async function filterResponse(
+  response: Response,
+  def: Pick<ApiMethodDef, "response" | "responses">,
+  roles: readonly string[],
+): Promise<Response> {
+  const schema = responseSchemaFor(def, response.status);
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (
+    !schema || !hasRestrictedFields(schema) ||
+    !contentType.includes("application/json")
+  ) {
+    return response;
+  }
+
+  const text = await response.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return rebuildResponse(response, text);
+  }
+  return rebuildResponse(
+    response,
+    JSON.stringify(filterFields(data, schema, roles)),
+  );
+}
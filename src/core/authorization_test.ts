@@ -0,0 +1,184 @@
+import { assertEquals } from "@std/assert";
+import { z } from "zod";
+import {
+  describeAuthorization,
+  filterFields,
+  filterResponse,
+  hasRestrictedFields,
+  isAuthorized,
+  principalRoles,
+  principalScopes,
+  visibleTo,
+} from "./authorization.ts";
+import type { ValidatedRequest } from "./types.ts";
+
+const request: ValidatedRequest = {
+  body: undefined,
+  query: undefined,
+  params: { id: "7" },
+  headers: undefined,
+  cookies: undefined,
+};
+
+Deno.test("principalRoles and principalScopes read common shapes", () => {
+  assertEquals(principalRoles({ roles: ["admin", 1], role: "owner" }), [
+    "admin",
+    "owner",
+  ]);
+  assertEquals(principalScopes({ scope: "read  write" }), ["read", "write"]);
+  assertEquals(principalScopes({ scopes: ["read"] }), ["read"]);
+  assertEquals(principalRoles(undefined), []);
+});
+
+Deno.test("isAuthorized requires any role and every scope", async () => {
+  const policy = { roles: ["admin", "editor"], scopes: ["posts:write"] };
+
+  assertEquals(
+    await isAuthorized(
+      policy,
+      { roles: ["editor"], scopes: ["posts:write"] },
+      request,
+    ),
+    true,
+  );
+  assertEquals(
+    await isAuthorized(
+      policy,
+      { roles: ["viewer"], scopes: ["posts:write"] },
+      request,
+    ),
+    false,
+  );
+  assertEquals(
+    await isAuthorized(
+      policy,
+      { roles: ["admin"], scope: "posts:read" },
+      request,
+    ),
+    false,
+  );
+  assertEquals(await isAuthorized(policy, undefined, request), false);
+});
+
+Deno.test("isAuthorized evaluates the predicate with the validated request", async () => {
+  const policy = {
+    check: (principal: { id: string }, req: ValidatedRequest) =>
+      Promise.resolve((req.params as { id: string }).id === principal.id),
+  };
+
+  assertEquals(await isAuthorized(policy, { id: "7" }, request), true);
+  assertEquals(await isAuthorized(policy, { id: "8" }, request), false);
+});
+
+Deno.test("describeAuthorization summarizes policies", () => {
+  assertEquals(
+    describeAuthorization({
+      roles: ["admin"],
+      check: () => true,
+      description: "Owner or admin",
+    }),
+    { roles: ["admin"], custom: true, description: "Owner or admin" },
+  );
+  assertEquals(describeAuthorization({ scopes: ["read"] }), {
+    scopes: ["read"],
+  });
+});
+
+const userSchema = z.object({
+  name: z.string(),
+  email: visibleTo(z.string(), ["admin", "support"]).optional(),
+  billing: visibleTo(z.object({ plan: z.string() }), ["admin"]).optional(),
+  teams: z.array(z.object({
+    id: z.string(),
+    budget: visibleTo(z.number(), ["admin"]).optional(),
+  })),
+});
+
+const user = {
+  name: "Ada",
+  email: "ada@example.com",
+  billing: { plan: "pro" },
+  teams: [{ id: "t1", budget: 100 }],
+};
+
+Deno.test("filterFields strips fields hidden from the roles", () => {
+  assertEquals(filterFields(user, userSchema, ["support"]), {
+    name: "Ada",
+    email: "ada@example.com",
+    teams: [{ id: "t1" }],
+  });
+  assertEquals(filterFields(user, userSchema, ["admin"]), user);
+  assertEquals(filterFields([user], z.array(userSchema), []), [{
+    name: "Ada",
+    teams: [{ id: "t1" }],
+  }]);
+});
+
+Deno.test("hasRestrictedFields detects nested visibility rules", () => {
+  assertEquals(hasRestrictedFields(userSchema), true);
+  assertEquals(hasRestrictedFields(z.object({ id: z.string() })), false);
+});
+
+Deno.test("visibleTo survives describe() and meta()", () => {
+  const schema = z.object({
+    name: z.string(),
+    email: visibleTo(z.string(), ["admin"]).describe("Email").optional(),
+    phone: visibleTo(z.string(), ["admin"]).meta({ example: "555" }),
+  });
+
+  assertEquals(hasRestrictedFields(schema), true);
+  assertEquals(
+    filterFields({ name: "Ada", email: "a@b.c", phone: "555" }, schema, []),
+    { name: "Ada" },
+  );
+});
+
+Deno.test("filterFields follows unions, records and wrappers", () => {
+  const payment = z.union([
+    z.object({
+      type: z.literal("card"),
+      last4: visibleTo(z.string(), ["billing"]).optional(),
+    }),
+    z.object({ type: z.literal("invoice"), email: z.string() }),
+  ]);
+  const schema = z.object({
+    payment: payment.nullable().default(null),
+    budgets: z.record(
+      z.string(),
+      z.object({ limit: visibleTo(z.number(), ["billing"]) }),
+    ),
+  });
+  const order = {
+    payment: { type: "card", last4: "4242" },
+    budgets: { eng: { limit: 100 } },
+  };
+
+  assertEquals(hasRestrictedFields(payment), true);
+  assertEquals(hasRestrictedFields(schema), true);
+  assertEquals(filterFields(order, schema, ["support"]), {
+    payment: { type: "card" },
+    budgets: { eng: {} },
+  });
+  assertEquals(filterFields(order, schema, ["billing"]), order);
+  assertEquals(
+    filterFields({ type: "invoice", email: "a@b.c" }, payment, []),
+    { type: "invoice", email: "a@b.c" },
+  );
+});
+
+Deno.test("filterResponse rewrites JSON responses with restricted fields", async () => {
+  const response = await filterResponse(
+    Response.json(user, { headers: { "X-Request-Id": "r1" } }),
+    { response: userSchema },
+    [],
+  );
+
+  assertEquals(response.headers.get("X-Request-Id"), "r1");
+  assertEquals(await response.json(), { name: "Ada", teams: [{ id: "t1" }] });
+
+  const plain = Response.json({ id: "1" });
+  assertEquals(
+    await filterResponse(plain, { response: z.object({ id: z.string() }) }, []),
+    plain,
+  );
+});
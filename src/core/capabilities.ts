@@ -0,0 +1,86 @@
+/**
+ * Capabilities
+ *
+ * Endpoints declare the capabilities they need (`requires: ["auth", "db"]`)
+ * and providers registered with the handlers resolve them per request. A
+ * provider rejects a request by throwing a CapabilityError, which becomes a
+ * problem response (e.g. 401 from an auth provider).
+ *
+ * @module
+ */
+
+import type { ProblemDetails } from "./problem.ts";
+
+/** Resolves a capability for one request */
+export type Provider<TContext, TValue = unknown> = (
+  ctx: TContext,
+) => TValue | Promise<TValue>;
+
+/** Capability providers by name */
+// deno-lint-ignore no-explicit-any
+export type Providers<TContext = any> = Record<string, Provider<TContext>>;
+
+/** Resolved values for the required capability names */
+export type Capabilities<
+  TProviders,
+  TRequires extends readonly PropertyKey[],
+> = {
+  [K in TRequires[number] & keyof TProviders]: TProviders[K] extends
+    (ctx: never) => infer R ? Awaited<R> : never;
+};
+
+/** Error thrown by a provider to reject the request */
+export class CapabilityError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly title: string,
+    public readonly detail?: string,
+    /** Problem type URI. Default: "about:blank" */
+    public readonly type: string = "about:blank",
+  ) {
+    super(detail ?? title);
+    this.name = "CapabilityError";
+  }
+
+  /** The problem details sent to the client */
+  toProblem(): ProblemDetails {
+    return {
+      type: this.type,
+      title: this.title,
+      status: this.status,
+      ...(this.detail !== undefined && { detail: this.detail }),
+    };
+  }
+}
+
+/**
+ * Check that every required capability has a provider.
+ * Called when handlers are created so a missing provider fails at startup
+ * rather than on the first request.
+ */
+export function assertProviders(
+  requires: readonly string[],
+  providers: Providers,
+  label: string,
+): void {
+  const missing = requires.filter((name) => !Object.hasOwn(providers, name));
+  if (missing.length > 0) {
+    throw new Error(
+      `${label} requires capabilities without a provider: ${
+        missing.join(", ")
+      }`,
+    );
+  }
+}
+
+/** Resolve the required capabilities for a request */
+export async function resolveCapabilities<TContext>(
+  requires: readonly string[],
+  providers: Providers<TContext>,
+  ctx: TContext,
+): Promise<Record<string, unknown>> {
+  const values = await Promise.all(
+    requires.map((name) => providers[name](ctx)),
+  );
+  return Object.fromEntries(requires.map((name, i) => [name, values[i]]));
+}
@@ -0,0 +1,73 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  assertProviders,
+  CapabilityError,
+  resolveCapabilities,
+} from "./capabilities.ts";
+
+Deno.test("CapabilityError converts to problem details", () => {
+  const error = new CapabilityError(401, "Unauthorized", "Missing token");
+  assertEquals(error.message, "Missing token");
+  assertEquals(error.toProblem(), {
+    type: "about:blank",
+    title: "Unauthorized",
+    status: 401,
+    detail: "Missing token",
+  });
+  assertEquals(new CapabilityError(403, "Forbidden").toProblem(), {
+    type: "about:blank",
+    title: "Forbidden",
+    status: 403,
+  });
+});
+
+Deno.test("assertProviders reports missing providers", () => {
+  assertProviders(["auth"], { auth: () => "user" }, "GET endpoint");
+  assertThrows(
+    () => assertProviders(["auth", "db"], { auth: () => "user" }, "GET"),
+    Error,
+    "GET requires capabilities without a provider: db",
+  );
+  // Inherited members aren't providers
+  assertThrows(
+    () => assertProviders(["toString"], {}, "GET"),
+    Error,
+    "GET requires capabilities without a provider: toString",
+  );
+});
+
+Deno.test("resolveCapabilities resolves the required providers", async () => {
+  const calls: string[] = [];
+  const providers = {
+    auth: (ctx: { user: string }) => {
+      calls.push("auth");
+      return ctx.user;
+    },
+    db: () => {
+      calls.push("db");
+      return Promise.resolve({ connected: true });
+    },
+    unused: () => {
+      calls.push("unused");
+      return null;
+    },
+  };
+
+  const resolved = await resolveCapabilities(["auth", "db"], providers, {
+    user: "sam",
+  });
+  assertEquals(resolved, { auth: "sam", db: { connected: true } });
+  assertEquals(calls, ["auth", "db"]);
+});
+
+Deno.test("resolveCapabilities propagates provider errors", async () => {
+  await assertRejects(
+    () =>
+      resolveCapabilities(["auth"], {
+        auth: () => {
+          throw new CapabilityError(401, "Unauthorized");
+        },
+      }, {}),
+    CapabilityError,
+  );
+});
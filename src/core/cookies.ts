@@ -0,0 +1,139 @@
+/**
+ * Cookies
+ *
+ * Request cookie parsing and typed Set-Cookie definitions. A response cookie
+ * definition is shared by the endpoint (for OpenAPI) and the handler (to set
+ * it), so both agree on the name, value type and attributes.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+
+/** Attributes written to the Set-Cookie header */
+export interface CookieAttributes {
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds */
+  maxAge?: number;
+  httpOnly?: boolean;
+  /** Forced to true when sameSite is "None" */
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/** Configuration for responseCookie() */
+export interface ResponseCookieConfig<TSchema extends z.ZodType>
+  extends CookieAttributes {
+  name: string;
+  /** Schema for the cookie value */
+  schema: TSchema;
+  description?: string;
+}
+
+/** A cookie an endpoint sets on its responses */
+export interface ResponseCookie<TSchema extends z.ZodType = z.ZodType>
+  extends ResponseCookieConfig<TSchema> {
+  /** Append a Set-Cookie header. The value is validated against the schema. */
+  set(headers: Headers, value: z.input<TSchema>): void;
+  /** Append a Set-Cookie header that expires the cookie */
+  clear(headers: Headers): void;
+}
+
+/** Map of response cookie definitions, keyed by a local name */
+export type ResponseCookieDefs = Record<string, ResponseCookie>;
+
+/**
+ * Parse a Cookie request header into a name/value record.
+ * Values are URI-decoded; the first occurrence of a name wins.
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!header) return result;
+
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    if (!name || Object.hasOwn(result, name)) continue;
+    const raw = part.slice(index + 1).trim().replace(/^"(.*)"$/, "$1");
+    try {
+      result[name] = decodeURIComponent(raw);
+    } catch {
+      result[name] = raw;
+    }
+  }
+  return result;
+}
+
+/** Serialize a cookie into a Set-Cookie header value */
+export function serializeCookie(
+  name: string,
+  value: string,
+  attributes: CookieAttributes = {},
+): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  parts.push(`Path=${attributes.path ?? "/"}`);
+  if (attributes.domain) parts.push(`Domain=${attributes.domain}`);
+  if (attributes.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(attributes.maxAge)}`);
+  }
+  if (attributes.httpOnly) parts.push("HttpOnly");
+  if (attributes.secure || attributes.sameSite === "None") {
+    parts.push("Secure");
+  }
+  if (attributes.sameSite) parts.push(`SameSite=${attributes.sameSite}`);
+  return parts.join("; ");
+}
+
+/**
+ * Define a cookie set by an endpoint's responses.
+ *
+ * @example
+ * ```ts
+ * const session = responseCookie({
+ *   name: "session",
+ *   schema: z.string(),
+ *   httpOnly: true,
+ *   sameSite: "Lax",
+ *   maxAge: 60 * 60 * 24,
+ * });
+ *
+ * endpoint({
+ *   setCookies: { session },
+ *   handler: () => {
+ *     const response = Response.json({ ok: true });
+ *     session.set(response.headers, createSessionToken());
+ *     return response;
+ *   },
+ * });
+ * ```
+ */
+export function responseCookie<TSchema extends z.ZodType>(
+  config: ResponseCookieConfig<TSchema>,
+): ResponseCookie<TSchema> {
+  const { name, schema, description: _, ...attributes } = config;
+  return {
+    ...config,
+    set(headers, value) {
+      const parsed = schema.parse(value);
+      headers.append(
+        "Set-Cookie",
+        serializeCookie(name, String(parsed), attributes),
+      );
+    },
+    clear(headers) {
+      headers.append(
+        "Set-Cookie",
+        serializeCookie(name, "", { ...attributes, maxAge: 0 }),
+      );
+    },
+  };
+}
+
+/** Describe a response cookie for docs, e.g. "session=<value>; Path=/; HttpOnly" */
+export function describeResponseCookie(cookie: ResponseCookie): string {
+  const value = serializeCookie(cookie.name, "", cookie)
+    .replace(/^[^=]*=; /, `${cookie.name}=<value>; `);
+  return cookie.description ? `${value} - ${cookie.description}` : value;
+}
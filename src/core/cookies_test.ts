@@ -0,0 +1,84 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "zod";
+import { parseCookies, responseCookie, serializeCookie } from "./cookies.ts";
+
+// parseCookies tests
+
+Deno.test("parseCookies parses name/value pairs", () => {
+  assertEquals(parseCookies("session=abc; theme=dark"), {
+    session: "abc",
+    theme: "dark",
+  });
+});
+
+Deno.test("parseCookies decodes values and strips quotes", () => {
+  assertEquals(parseCookies('name=J%C3%B6rg; quoted="v 1"'), {
+    name: "Jörg",
+    quoted: "v 1",
+  });
+});
+
+Deno.test("parseCookies keeps the first occurrence of a name", () => {
+  assertEquals(parseCookies("id=1; id=2"), { id: "1" });
+});
+
+Deno.test("parseCookies keeps names of Object.prototype members", () => {
+  assertEquals(parseCookies("constructor=1; toString=2"), {
+    constructor: "1",
+    toString: "2",
+  });
+});
+
+Deno.test("parseCookies handles missing header", () => {
+  assertEquals(parseCookies(null), {});
+});
+
+// serializeCookie tests
+
+Deno.test("serializeCookie writes attributes", () => {
+  assertEquals(
+    serializeCookie("session", "a b", {
+      maxAge: 3600,
+      httpOnly: true,
+      sameSite: "Strict",
+      domain: "example.com",
+    }),
+    "session=a%20b; Path=/; Domain=example.com; Max-Age=3600; HttpOnly; SameSite=Strict",
+  );
+});
+
+Deno.test("serializeCookie forces Secure for SameSite=None", () => {
+  assertEquals(
+    serializeCookie("id", "1", { sameSite: "None" }),
+    "id=1; Path=/; Secure; SameSite=None",
+  );
+});
+
+// responseCookie tests
+
+const session = responseCookie({
+  name: "session",
+  schema: z.string().min(8),
+  httpOnly: true,
+  sameSite: "Lax",
+});
+
+Deno.test("responseCookie.set appends a Set-Cookie header", () => {
+  const headers = new Headers();
+  session.set(headers, "token-123");
+  assertEquals(headers.getSetCookie(), [
+    "session=token-123; Path=/; HttpOnly; SameSite=Lax",
+  ]);
+});
+
+Deno.test("responseCookie.set validates the value", () => {
+  assertThrows(() => session.set(new Headers(), "short"));
+});
+
+Deno.test("responseCookie.clear expires the cookie", () => {
+  const headers = new Headers();
+  session.clear(headers);
+  assertEquals(headers.getSetCookie(), [
+    "session=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax",
+  ]);
+});
@@ -0,0 +1,176 @@
+/**
+ * CORS
+ *
+ * Cross-origin access for API routes, configured globally in the handler
+ * options and per method definition. Preflight requests are answered from
+ * what the route declares: its methods, and the request headers each method
+ * reads (header schemas, body content type, security schemes, conditional
+ * and idempotency headers), plus the headers clients send on any request.
+ *
+ * @module
+ */
+
+import { z } from "zod";
+import type { ApiMethodDef } from "./types.ts";
+import type { SecuritySchemes } from "./security.ts";
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency.ts";
+import { CONDITIONAL_READ_METHODS, CONDITIONAL_WRITE_METHODS } from "./etag.ts";
+import { TRACEPARENT_HEADER } from "./tracing.ts";
+
+/**
+ * Headers clients may send on any request: the Idempotency-Key generated
+ * clients add to retried writes, and trace context
+ */
+const CLIENT_HEADERS = [IDEMPOTENCY_KEY_HEADER, TRACEPARENT_HEADER];
+
+/** Which cross-origin requests a route accepts */
+export interface CorsOptions {
+  /**
+   * Allowed origins: "*", one origin, a list, or a predicate.
+   * Default: "*"
+   */
+  origin?: string | readonly string[] | ((origin: string) => boolean);
+  /** Allow cookies and credentials (the origin is echoed instead of "*") */
+  credentials?: boolean;
+  /** Request headers allowed on top of the ones the endpoint declares */
+  allowHeaders?: readonly string[];
+  /** Response headers scripts may read */
+  exposeHeaders?: readonly string[];
+  /** How long preflight results may be cached, in seconds */
+  maxAge?: number;
+}
+
+/** `true` for the defaults, options, or `false` to turn CORS off */
+export type CorsConfig = boolean | CorsOptions;
+
+/** Merge a method's `cors` over the global config; undefined when off */
+export function corsPolicy(
+  global: CorsConfig | undefined,
+  local: CorsConfig | undefined,
+): CorsOptions | undefined {
+  if (local === false || (local === undefined && !global)) return undefined;
+  return {
+    ...(typeof global === "object" ? global : {}),
+    ...(typeof local === "object" ? local : {}),
+  };
+}
+
+/** Access-Control-Allow-Origin for a request origin, if it's allowed */
+export function allowedOrigin(
+  policy: CorsOptions,
+  origin: string,
+): string | undefined {
+  const allowed = policy.origin ?? "*";
+  if (allowed === "*") return policy.credentials ? origin : "*";
+  if (typeof allowed === "function") {
+    return allowed(origin) ? origin : undefined;
+  }
+  const origins = typeof allowed === "string" ? [allowed] : allowed;
+  return origins.includes(origin) ? origin : undefined;
+}
+
+/**
+ * Request headers a method reads, for Access-Control-Allow-Headers. Always
+ * includes `Idempotency-Key` and `traceparent`.
+ */
+export function declaredRequestHeaders(
+  method: string,
+  def: ApiMethodDef<
+    z.ZodType | undefined,
+    z.ZodType | undefined,
+    z.ZodType | undefined,
+    z.ZodType | undefined,
+    z.ZodType | undefined
+  >,
+  securitySchemes: SecuritySchemes = {},
+): string[] {
+  const headers = new Set<string>();
+  if (def.headers instanceof z.ZodObject) {
+    for (const name of Object.keys(def.headers.shape)) headers.add(name);
+  }
+  if (def.body) headers.add("Content-Type");
+  for (const name of def.security ?? []) {
+    const scheme = securitySchemes[name];
+    if (scheme?.type === "apiKey") {
+      if (scheme.in === "header") headers.add(scheme.name);
+    } else if (scheme) {
+      headers.add("Authorization");
+    }
+  }
+  if (def.etag && CONDITIONAL_READ_METHODS.includes(method)) {
+    headers.add("If-None-Match");
+  }
+  if (def.etag && CONDITIONAL_WRITE_METHODS.includes(method)) {
+    headers.add("If-Match");
+  }
+  for (const name of CLIENT_HEADERS) headers.add(name);
+  return [...headers];
+}
+
+/** CORS headers for an actual (non-preflight) response */
+export function corsHeaders(
+  policy: CorsOptions,
+  req: Request,
+): Record<string, string> {
+  const origin = req.headers.get("Origin");
+  const headers: Record<string, string> = {};
+  // Responses differ by origin unless every origin gets "*"
+  if ((policy.origin ?? "*") !== "*" || policy.credentials) {
+    headers["Vary"] = "Origin";
+  }
+  const allowOrigin = origin === null
+    ? undefined
+    : allowedOrigin(policy, origin);
+  if (allowOrigin === undefined) return headers;
+
+  headers["Access-Control-Allow-Origin"] = allowOrigin;
+  if (policy.credentials) headers["Access-Control-Allow-Credentials"] = "true";
+  if (policy.exposeHeaders?.length) {
+    headers["Access-Control-Expose-Headers"] = policy.exposeHeaders.join(", ");
+  }
+  return headers;
+}
+
+/**
+ * Headers answering a preflight for one method: the allowed origin,
+ * methods and request headers. Only `Vary` when the origin isn't allowed.
+ */
+export function preflightHeaders(
+  policy: CorsOptions,
+  req: Request,
+  allowMethods: readonly string[],
+  allowHeaders: readonly string[],
+): Record<string, string> {
+  const headers = corsHeaders(policy, req);
+  headers["Vary"] = "Origin, Access-Control-Request-Method, " +
+    "Access-Control-Request-Headers";
+  if (!headers["Access-Control-Allow-Origin"]) return headers;
+
+  delete headers["Access-Control-Expose-Headers"];
+  headers["Access-Control-Allow-Methods"] = allowMethods.join(", ");
+  const allowed = [...allowHeaders, ...(policy.allowHeaders ?? [])];
+  if (allowed.length > 0) {
+    headers["Access-Control-Allow-Headers"] = allowed.join(", ");
+  }
+  if (policy.maxAge !== undefined) {
+    headers["Access-Control-Max-Age"] = String(policy.maxAge);
+  }
+  return headers;
+}
+
+/** Copy of a response with extra headers set (`Vary` is appended to) */
+export function withHeaders(
+  response: Response,
+  headers: Record<string, string>,
+): Response {
+  if (Object.keys(headers).length === 0) return response;
+  const copy = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() === "vary") {
+      copy.headers.append(name, value);
+    } else {
+      copy.headers.set(name, value);
+    }
+  }
+  return copy;
+}
@@ -0,0 +1,113 @@
+import { assertEquals } from "@std/assert";
+import { z } from "zod";
+import {
+  allowedOrigin,
+  corsHeaders,
+  corsPolicy,
+  declaredRequestHeaders,
+  preflightHeaders,
+} from "./cors.ts";
+import { apiKeyAuth, bearerAuth } from "./security.ts";
+
+function request(headers: Record<string, string>): Request {
+  return new Request("http://localhost/api/users", { headers });
+}
+
+Deno.test("corsPolicy merges method config over the global config", () => {
+  assertEquals(corsPolicy(undefined, undefined), undefined);
+  assertEquals(corsPolicy(false, undefined), undefined);
+  assertEquals(corsPolicy(true, undefined), {});
+  assertEquals(corsPolicy({ maxAge: 60 }, false), undefined);
+  assertEquals(corsPolicy(undefined, { credentials: true }), {
+    credentials: true,
+  });
+  assertEquals(
+    corsPolicy({ origin: "https://a.test", maxAge: 60 }, { maxAge: 10 }),
+    { origin: "https://a.test", maxAge: 10 },
+  );
+});
+
+Deno.test("allowedOrigin matches strings, lists and predicates", () => {
+  assertEquals(allowedOrigin({}, "https://a.test"), "*");
+  assertEquals(
+    allowedOrigin({ credentials: true }, "https://a.test"),
+    "https://a.test",
+  );
+  const list = { origin: ["https://a.test", "https://b.test"] };
+  assertEquals(allowedOrigin(list, "https://b.test"), "https://b.test");
+  assertEquals(allowedOrigin(list, "https://c.test"), undefined);
+  const predicate = { origin: (o: string) => o.endsWith(".a.test") };
+  assertEquals(
+    allowedOrigin(predicate, "https://x.a.test"),
+    "https://x.a.test",
+  );
+  assertEquals(allowedOrigin(predicate, "https://b.test"), undefined);
+});
+
+Deno.test("declaredRequestHeaders collects the headers a method reads", () => {
+  const schemes = {
+    bearer: bearerAuth({ verify: () => ({}) }),
+    key: apiKeyAuth({ in: "header", name: "X-API-Key", verify: () => ({}) }),
+  };
+  assertEquals(
+    declaredRequestHeaders("PUT", {
+      headers: z.object({ "x-request-id": z.string() }),
+      body: z.object({ name: z.string() }),
+      security: ["bearer", "key"],
+      idempotent: true,
+      etag: "hash",
+    }, schemes),
+    [
+      "x-request-id",
+      "Content-Type",
+      "Authorization",
+      "X-API-Key",
+      "If-Match",
+      "Idempotency-Key",
+      "traceparent",
+    ],
+  );
+  assertEquals(declaredRequestHeaders("GET", { etag: "hash" }), [
+    "If-None-Match",
+    "Idempotency-Key",
+    "traceparent",
+  ]);
+  assertEquals(declaredRequestHeaders("GET", {}), [
+    "Idempotency-Key",
+    "traceparent",
+  ]);
+});
+
+Deno.test("corsHeaders only allows matching origins", () => {
+  const policy = { origin: "https://a.test", exposeHeaders: ["ETag"] };
+  assertEquals(corsHeaders(policy, request({ Origin: "https://a.test" })), {
+    "Vary": "Origin",
+    "Access-Control-Allow-Origin": "https://a.test",
+    "Access-Control-Expose-Headers": "ETag",
+  });
+  assertEquals(corsHeaders(policy, request({ Origin: "https://b.test" })), {
+    "Vary": "Origin",
+  });
+  assertEquals(corsHeaders({}, request({})), {});
+});
+
+Deno.test("preflightHeaders lists methods, headers and max age", () => {
+  const headers = preflightHeaders(
+    { credentials: true, allowHeaders: ["X-Trace"], maxAge: 600 },
+    request({
+      Origin: "https://a.test",
+      "Access-Control-Request-Method": "POST",
+    }),
+    ["GET", "POST", "OPTIONS"],
+    ["Content-Type"],
+  );
+  assertEquals(headers, {
+    "Vary": "Origin, Access-Control-Request-Method, " +
+      "Access-Control-Request-Headers",
+    "Access-Control-Allow-Origin": "https://a.test",
+    "Access-Control-Allow-Credentials": "true",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, X-Trace",
+    "Access-Control-Max-Age": "600",
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Deprecation and Sunset
+ *
+ * Endpoints being retired set `deprecated` and, once a removal date is known,
+ * `sunset`. Their responses carry the `Deprecation` (RFC 9745) and `Sunset`
+ * (RFC 8594) headers, plus a `successor-version` Link to the replacement.
+ *
+ * @module
+ */
+
+/** When a deprecated endpoint goes away, and what replaces it */
+export interface Sunset {
+  /** Removal date: a Date or a date string like "2026-06-30" */
+  date: string | Date;
+  /** URL of the replacement endpoint or migration guide */
+  replacement?: string;
+}
+
+/** Lifecycle fields of a method definition */
+export interface DeprecationDef {
+  deprecated?: boolean | string | Date;
+  sunset?: Sunset;
+}
+
+function parseDate(date: string | Date, label: string): Date {
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new Error(`Invalid ${label}: "${String(date)}"`);
+  }
+  return parsed;
+}
+
+/** Whether a method is deprecated; a sunset implies it */
+export function isDeprecated(def: DeprecationDef): boolean {
+  return Boolean(def.deprecated) || def.sunset !== undefined;
+}
+
+/**
+ * Response headers announcing a method's deprecation, or undefined if it
+ * isn't deprecated. Throws on invalid dates.
+ */
+export function deprecationHeaders(
+  def: DeprecationDef,
+): Record<string, string> | undefined {
+  if (!isDeprecated(def)) return undefined;
+
+  // RFC 9745 wants the deprecation date; older clients understand "true"
+  const since = typeof def.deprecated === "string" ||
+      def.deprecated instanceof Date
+    ? parseDate(def.deprecated, "deprecation date")
+    : undefined;
+  const headers: Record<string, string> = {
+    Deprecation: since ? `@${Math.floor(since.getTime() / 1000)}` : "true",
+  };
+  if (def.sunset) {
+    headers["Sunset"] = parseDate(def.sunset.date, "sunset date")
+      .toUTCString();
+    if (def.sunset.replacement) {
+      headers["Link"] = `<${def.sunset.replacement}>; rel="successor-version"`;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Sunset date as YYYY-MM-DD and the replacement, for docs and generated
+ * types
+ */
+export function describeSunset(
+  sunset: Sunset,
+): { date: string; replacement?: string } {
+  return {
+    date: parseDate(sunset.date, "sunset date").toISOString().slice(0, 10),
+    ...(sunset.replacement ? { replacement: sunset.replacement } : {}),
+  };
+}
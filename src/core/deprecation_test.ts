@@ -0,0 +1,57 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  deprecationHeaders,
+  describeSunset,
+  isDeprecated,
+} from "./deprecation.ts";
+
+Deno.test("isDeprecated treats a sunset as deprecation", () => {
+  assertEquals(isDeprecated({}), false);
+  assertEquals(isDeprecated({ deprecated: false }), false);
+  assertEquals(isDeprecated({ deprecated: true }), true);
+  assertEquals(isDeprecated({ sunset: { date: "2027-01-01" } }), true);
+});
+
+Deno.test("deprecationHeaders announces deprecation and sunset", () => {
+  assertEquals(deprecationHeaders({}), undefined);
+  assertEquals(deprecationHeaders({ deprecated: true }), {
+    Deprecation: "true",
+  });
+  assertEquals(
+    deprecationHeaders({
+      deprecated: "2026-01-01T00:00:00Z",
+      sunset: {
+        date: new Date("2027-01-01T00:00:00Z"),
+        replacement: "https://api.example.com/v2/users",
+      },
+    }),
+    {
+      Deprecation: "@1767225600",
+      Sunset: "Fri, 01 Jan 2027 00:00:00 GMT",
+      Link: '<https://api.example.com/v2/users>; rel="successor-version"',
+    },
+  );
+});
+
+Deno.test("deprecationHeaders rejects invalid dates", () => {
+  assertThrows(
+    () => deprecationHeaders({ sunset: { date: "next year" } }),
+    Error,
+    'Invalid sunset date: "next year"',
+  );
+  assertThrows(
+    () => deprecationHeaders({ deprecated: "soon" }),
+    Error,
+    'Invalid deprecation date: "soon"',
+  );
+});
+
+Deno.test("describeSunset formats the date as YYYY-MM-DD", () => {
+  assertEquals(describeSunset({ date: "2027-01-01T00:00:00Z" }), {
+    date: "2027-01-01",
+  });
+  assertEquals(
+    describeSunset({ date: "2027-01-01", replacement: "/api/v2/users" }),
+    { date: "2027-01-01", replacement: "/api/v2/users" },
+  );
+});
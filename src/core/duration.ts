@@ -0,0 +1,38 @@
+/**
+ * Durations
+ *
+ * Human-readable durations used by endpoint options (`"30s"`, `"1m"`, `"24h"`).
+ *
+ * @module
+ */
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Convert a duration like "500ms", "30s", "1m", "2h" or "7d" to
+ * milliseconds. Numbers are taken as milliseconds. Throws unless the
+ * duration is positive and finite.
+ */
+export function parseDuration(
+  duration: string | number,
+  label = "duration",
+): number {
+  const match = typeof duration === "string"
+    ? duration.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/)
+    : undefined;
+  const ms = typeof duration === "number"
+    ? duration
+    : match
+    ? Number(match[1]) * UNITS[match[2]]
+    : NaN;
+  if (!(ms > 0 && Number.isFinite(ms))) {
+    throw new Error(`Invalid ${label}: "${duration}"`);
+  }
+  return ms;
+}
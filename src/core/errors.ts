@@ -0,0 +1,141 @@
+/**
+ * Error Catalog
+ *
+ * Application errors are declared once with defineErrors(), each with a
+ * status and a schema for its `details`. Endpoints list the errors they can
+ * raise in `errors`, and handlers `throw apiError(error, details)`. The runtime
+ * sends them as problem details carrying the `code`, so clients can tell
+ * errors apart without parsing messages.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type { ProblemDetails } from "./problem.ts";
+
+/** An application error: its status, title and details schema */
+export interface ErrorDef {
+  status: number;
+  /** Problem title. Default: the code */
+  title?: string;
+  /** Problem type URI. Default: "about:blank" */
+  type?: string;
+  /** Schema of the `details` sent with the error */
+  details?: z.ZodType;
+  /** Documentation for OpenAPI */
+  description?: string;
+}
+
+/** An error of a catalog, tagged with its code */
+export interface CatalogError<TCode extends string = string> extends ErrorDef {
+  code: TCode;
+}
+
+/** Errors created by defineErrors(), keyed by code */
+export type ErrorCatalog<TDefs extends Record<string, ErrorDef>> = {
+  [K in keyof TDefs & string]: TDefs[K] & { code: K };
+};
+
+/** Problem details sent for a catalog error */
+export interface ApiErrorProblem<
+  TCode extends string = string,
+  TDetails = unknown,
+> extends ProblemDetails {
+  code: TCode;
+  details?: TDetails;
+}
+
+/**
+ * Declare the API's errors. Endpoints list the entries they can raise in
+ * `errors`.
+ *
+ * @example
+ * ```ts
+ * export const errors = defineErrors({
+ *   NOT_FOUND: { status: 404, details: z.object({ id: z.string() }) },
+ *   CONFLICT: { status: 409, title: "Already exists" },
+ * });
+ *
+ * endpoint({
+ *   errors: [errors.NOT_FOUND],
+ *   handler: (_ctx, { params }) => {
+ *     throw apiError(errors.NOT_FOUND, { id: params.id });
+ *   },
+ * });
+ * ```
+ */
+export function defineErrors<const TDefs extends Record<string, ErrorDef>>(
+  defs: TDefs,
+): ErrorCatalog<TDefs> {
+  return Object.fromEntries(
+    Object.entries(defs).map(([code, def]) => [code, { ...def, code }]),
+  ) as ErrorCatalog<TDefs>;
+}
+
+/** Thrown by handlers to answer with an error of the catalog */
+export class ApiError<TCode extends string = string> extends Error {
+  constructor(
+    public readonly code: TCode,
+    /** Checked against the error's `details` schema */
+    public readonly details?: unknown,
+    /** Human-readable explanation, sent as the problem `detail` */
+    public readonly detail?: string,
+  ) {
+    super(detail ?? code);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Arguments after the error in apiError(): the details its schema expects
+ * (required when the schema is), then the optional `detail`
+ */
+export type ApiErrorArgs<TError extends CatalogError> = TError extends
+  { details: infer TDetails extends z.ZodType }
+  ? undefined extends z.input<TDetails>
+    ? [details?: z.input<TDetails>, detail?: string]
+  : [details: z.input<TDetails>, detail?: string]
+  : [details?: undefined, detail?: string];
+
+/**
+ * Create an ApiError for handlers to throw, from an entry of the catalog so
+ * its details are typed by the entry's schema
+ */
+export function apiError<const TError extends CatalogError>(
+  error: TError,
+  ...[details, detail]: ApiErrorArgs<TError>
+): ApiError<TError["code"]> {
+  return new ApiError(error.code, details, detail);
+}
+
+/**
+ * The problem details for an ApiError thrown by an endpoint, or undefined if
+ * the endpoint doesn't list its code. Throws when the details don't match
+ * the declared schema.
+ */
+export function errorProblem(
+  error: ApiError,
+  errors: readonly CatalogError[],
+): ApiErrorProblem | undefined {
+  const def = errors.find((entry) => entry.code === error.code);
+  if (!def) return undefined;
+
+  let details: unknown = undefined;
+  if (def.details) {
+    const result = def.details.safeParse(error.details);
+    if (!result.success) {
+      throw new Error(
+        `Invalid details for ${error.code} error: ${result.error.message}`,
+      );
+    }
+    details = result.data;
+  }
+  return {
+    type: def.type ?? "about:blank",
+    title: def.title ?? error.code,
+    status: def.status,
+    ...(error.detail !== undefined && { detail: error.detail }),
+    code: error.code,
+    ...(details !== undefined && { details }),
+  };
+}
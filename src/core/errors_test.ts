@@ -0,0 +1,72 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "zod";
+import { ApiError, apiError, defineErrors, errorProblem } from "./errors.ts";
+
+const errors = defineErrors({
+  NOT_FOUND: {
+    status: 404,
+    title: "Not found",
+    details: z.object({ id: z.string() }),
+  },
+  RATE_LIMITED: {
+    status: 429,
+    type: "https://errors.example.com/rate-limited",
+  },
+});
+
+Deno.test("defineErrors tags each error with its code", () => {
+  assertEquals(errors.NOT_FOUND.code, "NOT_FOUND");
+  assertEquals(errors.RATE_LIMITED, {
+    code: "RATE_LIMITED",
+    status: 429,
+    type: "https://errors.example.com/rate-limited",
+  });
+});
+
+Deno.test("apiError creates a throwable ApiError", () => {
+  const error = apiError(errors.NOT_FOUND, { id: "1" }, "No user with id 1");
+  assertEquals(error instanceof ApiError, true);
+  assertEquals(error.code, "NOT_FOUND");
+  assertEquals(error.details, { id: "1" });
+  assertEquals(error.message, "No user with id 1");
+});
+
+Deno.test("errorProblem builds problems from the catalog", () => {
+  const listed = [errors.NOT_FOUND, errors.RATE_LIMITED];
+  assertEquals(
+    errorProblem(new ApiError("NOT_FOUND", { id: "1", secret: "x" }), listed),
+    {
+      type: "about:blank",
+      title: "Not found",
+      status: 404,
+      code: "NOT_FOUND",
+      details: { id: "1" },
+    },
+  );
+  assertEquals(
+    errorProblem(
+      apiError(errors.RATE_LIMITED, undefined, "Slow down"),
+      listed,
+    ),
+    {
+      type: "https://errors.example.com/rate-limited",
+      title: "RATE_LIMITED",
+      status: 429,
+      detail: "Slow down",
+      code: "RATE_LIMITED",
+    },
+  );
+  assertEquals(
+    errorProblem(apiError(errors.NOT_FOUND, { id: "1" }), []),
+    undefined,
+  );
+});
+
+Deno.test("errorProblem throws on details that don't match the schema", () => {
+  assertThrows(
+    () =>
+      errorProblem(new ApiError("NOT_FOUND", { id: 1 }), [errors.NOT_FOUND]),
+    Error,
+    "Invalid details for NOT_FOUND error",
+  );
+});
@@ -0,0 +1,41 @@
+// Type-level test to verify apiError() details are typed by the catalog
+// Run with: deno check src/core/errors_types_test.ts
+
+import { z } from "zod";
+import { apiError, defineErrors } from "./errors.ts";
+
+const errors = defineErrors({
+  NOT_FOUND: { status: 404, details: z.object({ id: z.string() }) },
+  INVALID: {
+    status: 422,
+    details: z.object({ field: z.string() }).optional(),
+  },
+  CONFLICT: { status: 409, title: "Already exists" },
+});
+
+// Details matching the schema, and the code taken from the entry
+apiError(errors.NOT_FOUND, { id: "1" }).code satisfies "NOT_FOUND";
+apiError(errors.NOT_FOUND, { id: "1" }, "No user with id 1");
+
+// @ts-expect-error - id is a string
+apiError(errors.NOT_FOUND, { id: 1 });
+
+// @ts-expect-error - unknown property
+apiError(errors.NOT_FOUND, { id: "1", extra: true });
+
+// @ts-expect-error - the schema requires details
+apiError(errors.NOT_FOUND);
+
+// Optional details may be left out
+apiError(errors.INVALID);
+apiError(errors.INVALID, { field: "name" });
+
+// Errors without a schema take no details, only the detail message
+apiError(errors.CONFLICT);
+apiError(errors.CONFLICT, undefined, "Name taken");
+
+// @ts-expect-error - no details schema
+apiError(errors.CONFLICT, { id: "1" });
+
+// @ts-expect-error - codes come from catalog entries, not strings
+apiError("NOT_FOUND", { id: "1" });
@@ -0,0 +1,168 @@
+/**
+ * ETags and Conditional Requests
+ *
+ * An endpoint's `etag` strategy tags its JSON responses: `"hash"` uses a hash
+ * of the body, `{ field: "version" }` a version field of the resource. GETs
+ * answer a matching `If-None-Match` with 304 Not Modified. PUT, PATCH and
+ * DELETE require `If-Match` (428 without it) and compare it against the
+ * resource loaded by `current`, answering a mismatch with 412.
+ *
+ * @module
+ */
+
+import type { ValidatedRequest } from "./types.ts";
+import type { ProblemDetails } from "./problem.ts";
+import { fingerprint } from "./idempotency.ts";
+
+/** ETag options of an endpoint */
+export interface EtagPolicy<
+  // deno-lint-ignore no-explicit-any
+  TPrincipal = any,
+  TRequest = ValidatedRequest,
+> {
+  /** Version field of the resource. Default: a hash of the JSON body */
+  field?: string;
+  /**
+   * The resource as it is now, for If-Match on PUT, PATCH and DELETE.
+   * Return undefined if it doesn't exist. With a hash, return what GET sends.
+   */
+  current?(
+    request: TRequest,
+    principal: TPrincipal,
+  ): unknown | Promise<unknown>;
+}
+
+/** How an endpoint tags responses: `"hash"`, or a policy */
+export type EtagStrategy<
+  // deno-lint-ignore no-explicit-any
+  TPrincipal = any,
+  TRequest = ValidatedRequest,
+> = "hash" | EtagPolicy<TPrincipal, TRequest>;
+
+/** Methods whose responses can be revalidated with If-None-Match */
+export const CONDITIONAL_READ_METHODS = ["GET", "HEAD"];
+
+/** Methods that must send If-Match */
+export const CONDITIONAL_WRITE_METHODS = ["PUT", "PATCH", "DELETE"];
+
+/** Resolve `etag` on an endpoint to a policy, or undefined if off */
+export function etagPolicy(
+  etag: EtagStrategy | undefined,
+): EtagPolicy | undefined {
+  if (!etag) return undefined;
+  return etag === "hash" ? {} : etag;
+}
+
+/** The ETag of a resource (parsed JSON), or undefined if it has none */
+export async function etagOf(
+  policy: EtagPolicy,
+  resource: unknown,
+): Promise<string | undefined> {
+  if (resource === undefined) return undefined;
+  if (policy.field === undefined) {
+    return `"${(await fingerprint(resource)).slice(0, 32)}"`;
+  }
+  const version = typeof resource === "object" && resource !== null
+    ? (resource as Record<string, unknown>)[policy.field]
+    : undefined;
+  if (version === undefined || version === null) return undefined;
+  return `"${String(version).replaceAll('"', "")}"`;
+}
+
+function opaqueTag(tag: string): string {
+  return tag.startsWith("W/") ? tag.slice(2) : tag;
+}
+
+/**
+ * Whether an If-Match or If-None-Match header matches an ETag. If-Match uses
+ * strong comparison, If-None-Match weak comparison.
+ */
+export function etagMatches(
+  header: string,
+  etag: string,
+  weak: boolean,
+): boolean {
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim();
+    if (tag === "*") return true;
+    if (weak) return opaqueTag(tag) === opaqueTag(etag);
+    return !tag.startsWith("W/") && !etag.startsWith("W/") && tag === etag;
+  });
+}
+
+/** Copy of a successful JSON response with its ETag set */
+export async function withEtag(
+  response: Response,
+  policy: EtagPolicy,
+): Promise<Response> {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (
+    !response.ok || response.headers.has("ETag") ||
+    !contentType.includes("json")
+  ) {
+    return response;
+  }
+
+  let body: unknown;
+  try {
+    body = await response.clone().json();
+  } catch {
+    return response;
+  }
+  const etag = await etagOf(policy, body);
+  if (!etag) return response;
+
+  const tagged = new Response(response.body, response);
+  tagged.headers.set("ETag", etag);
+  return tagged;
+}
+
+/** 304 for a GET whose ETag matches If-None-Match, else the response */
+export function notModified(req: Request, response: Response): Response {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  const etag = response.headers.get("ETag");
+  if (!ifNoneMatch || !etag || !etagMatches(ifNoneMatch, etag, true)) {
+    return response;
+  }
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Type");
+  headers.delete("Content-Length");
+  return new Response(null, { status: 304, headers });
+}
+
+/**
+ * Check If-Match against the current resource. Returns the problem to reject
+ * the request with (428 or 412), or undefined if it may proceed.
+ */
+export async function checkPrecondition(
+  policy: EtagPolicy,
+  req: Request,
+  request: ValidatedRequest,
+  principal: unknown,
+): Promise<ProblemDetails | undefined> {
+  const ifMatch = req.headers.get("If-Match");
+  if (!ifMatch) {
+    return {
+      type: "about:blank",
+      title: "Precondition Required",
+      status: 428,
+      detail: "This request requires an If-Match header",
+    };
+  }
+
+  const current = await policy.current?.(request, principal);
+  // Serialize as the response would, so the hash matches what GET sent
+  const resource = current === undefined
+    ? undefined
+    : JSON.parse(JSON.stringify(current));
+  const etag = await etagOf(policy, resource);
+  if (etag !== undefined && etagMatches(ifMatch, etag, false)) {
+    return undefined;
+  }
+  return {
+    type: "about:blank",
+    title: "Precondition Failed",
+    status: 412,
+    detail: "The resource has changed since it was retrieved",
+  };
+}
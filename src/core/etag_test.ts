@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import {
+  checkPrecondition,
+  etagMatches,
+  etagOf,
+  notModified,
+  withEtag,
+} from "./etag.ts";
+
+const validated = { body: {}, query: {}, params: {}, headers: {}, cookies: {} };
+
+Deno.test("etagOf hashes resources regardless of key order", async () => {
+  const etag = await etagOf({}, { id: "1", name: "Ada" });
+  assertEquals(etag, await etagOf({}, { name: "Ada", id: "1" }));
+  assertEquals(etag?.length, 34);
+  assertEquals(etag === await etagOf({}, { id: "1", name: "Sam" }), false);
+  assertEquals(await etagOf({}, undefined), undefined);
+});
+
+Deno.test("etagOf reads a version field", async () => {
+  assertEquals(await etagOf({ field: "version" }, { version: 3 }), '"3"');
+  assertEquals(await etagOf({ field: "version" }, { id: "1" }), undefined);
+});
+
+Deno.test("etagMatches compares weakly or strongly", () => {
+  assertEquals(etagMatches('"a", "b"', '"b"', true), true);
+  assertEquals(etagMatches('W/"a"', '"a"', true), true);
+  assertEquals(etagMatches('W/"a"', '"a"', false), false);
+  assertEquals(etagMatches('"a"', '"a"', false), true);
+  assertEquals(etagMatches("*", '"a"', false), true);
+  assertEquals(etagMatches('"a"', '"b"', true), false);
+});
+
+Deno.test("withEtag tags successful JSON responses only", async () => {
+  const tagged = await withEtag(Response.json({ version: 2 }), {
+    field: "version",
+  });
+  assertEquals(tagged.headers.get("ETag"), '"2"');
+  assertEquals(await tagged.json(), { version: 2 });
+
+  const failed = await withEtag(
+    Response.json({ version: 2 }, { status: 404 }),
+    { field: "version" },
+  );
+  assertEquals(failed.headers.get("ETag"), null);
+
+  const text = await withEtag(new Response("hello"), {});
+  assertEquals(text.headers.get("ETag"), null);
+});
+
+Deno.test("notModified answers a matching If-None-Match with 304", () => {
+  const response = new Response("{}", {
+    headers: { "Content-Type": "application/json", ETag: '"1"' },
+  });
+  const req = (ifNoneMatch: string) =>
+    new Request("http://localhost/", {
+      headers: { "If-None-Match": ifNoneMatch },
+    });
+
+  const cached = notModified(req('W/"1"'), response);
+  assertEquals(cached.status, 304);
+  assertEquals(cached.headers.get("ETag"), '"1"');
+  assertEquals(cached.headers.get("Content-Type"), null);
+  assertEquals(notModified(req('"2"'), response), response);
+});
+
+Deno.test("checkPrecondition requires a matching If-Match", async () => {
+  const policy = { field: "version", current: () => ({ version: 2 }) };
+  const req = (ifMatch?: string) =>
+    new Request("http://localhost/", {
+      method: "PUT",
+      headers: ifMatch ? { "If-Match": ifMatch } : {},
+    });
+
+  assertEquals(
+    (await checkPrecondition(policy, req(), validated, undefined))?.status,
+    428,
+  );
+  assertEquals(
+    (await checkPrecondition(policy, req('"1"'), validated, undefined))
+      ?.status,
+    412,
+  );
+  assertEquals(
+    await checkPrecondition(policy, req('"2"'), validated, undefined),
+    undefined,
+  );
+  assertEquals(
+    (await checkPrecondition(
+      { current: () => undefined },
+      req("*"),
+      validated,
+      undefined,
+    ))?.status,
+    412,
+  );
+});
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import type { ApiDef } from "@/core/types.ts";
+
+const apiDef: ApiDef = {
+  GET: {
+    public: true,
+    security: ["bearer", "apiKey"],
+    authorize: {
+      scopes: ["issues:read"],
+      description: "Requires the issues:read scope",
+    },
+    requires: ["auth", "database"],
+    rateLimit: { window: "1m", max: 60, key: "principal" },
+    queryStyle: "deepObject",
+    query: z.object({
+      filter: z.object({
+        status: z.enum(["open", "closed"]),
+        assignee: z.string().optional(),
+      }).optional(),
+      labels: z.array(z.string()).optional(),
+      limit: z.number().int().optional(),
+    }),
+    response: z.array(z.object({ id: z.number(), title: z.string() })),
+  },
+};
+
+export const handler = {
+  __apiDef: apiDef,
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import type { ApiDef } from "@/core/types.ts";
+import { responseCookie } from "@/core/cookies.ts";
+import { defineErrors } from "@/core/errors.ts";
+
+const session = responseCookie({
+  name: "session",
+  schema: z.string(),
+  httpOnly: true,
+  sameSite: "Lax",
+  maxAge: 3600,
+});
+
+const errors = defineErrors({
+  INVALID_CREDENTIALS: { status: 401, title: "Invalid credentials" },
+  ACCOUNT_LOCKED: {
+    status: 401,
+    title: "Account locked",
+    details: z.object({ until: z.string() }),
+  },
+});
+
+const apiDef: ApiDef = {
+  POST: {
+    public: true,
+    cookies: z.object({ csrf: z.string() }),
+    body: z.object({ username: z.string(), password: z.string() }),
+    response: z.object({ ok: z.boolean() }),
+    setCookies: { session },
+    errors: [errors.INVALID_CREDENTIALS, errors.ACCOUNT_LOCKED],
+  },
+};
+
+export const handler = {
+  __apiDef: apiDef,
+};
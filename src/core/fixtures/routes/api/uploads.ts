@@ -0,0 +1,20 @@
+import { z } from "zod";
+import type { ApiDef } from "@/core/types.ts";
+
+const apiDef: ApiDef = {
+  POST: {
+    public: true,
+    contentTypes: ["multipart/form-data", "application/x-www-form-urlencoded"],
+    maxBodySize: 10 * 1024 * 1024,
+    idempotent: true,
+    body: z.object({
+      title: z.string(),
+      file: z.file().optional(),
+    }),
+    response: z.object({ id: z.string() }),
+  },
+};
+
+export const handler = {
+  __apiDef: apiDef,
+};
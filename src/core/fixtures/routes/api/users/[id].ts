@@ -0,0 +1,30 @@
+import { z } from "zod";
+import type { ApiDef } from "@/core/types.ts";
+
+const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+const apiDef: ApiDef = {
+  GET: {
+    public: true,
+    params: z.object({ id: z.string() }),
+    response: UserSchema,
+  },
+  PUT: {
+    public: true,
+    params: z.object({ id: z.string() }),
+    headers: z.object({ "If-Match": z.string() }),
+    body: z.object({ name: z.string() }),
+    response: UserSchema,
+    validationStatus: 422,
+  },
+  DELETE: {
+    public: true,
+  },
+};
+
+export const handler = {
+  __apiDef: apiDef,
+};
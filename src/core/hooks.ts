@@ -0,0 +1,173 @@
+/**
+ * Lifecycle Hooks
+ *
+ * Observe every request of an API definition without wrapping handlers:
+ * `onRequest` before the pipeline runs, `onValidationError` when the request
+ * is rejected by its schemas, `onResponse` once the response is ready and
+ * `onError` when something throws. The same points feed the request's span
+ * when a tracer is configured, and its access log entry.
+ *
+ * @module
+ */
+
+import type { ValidatedRequest } from "./types.ts";
+import type { ValidationProblemDetails } from "./problem.ts";
+import {
+  type AccessLogEntry,
+  type AccessLogger,
+  loggedRequest,
+  loggedResponse,
+  type LoggedSchemas,
+} from "./accesslog.ts";
+import {
+  formatTraceparent,
+  parseTraceparent,
+  TRACEPARENT_HEADER,
+  type Tracer,
+} from "./tracing.ts";
+
+/** The request a hook is called for */
+export interface RequestInfo {
+  req: Request;
+  method: string;
+  /** Matched route pattern, or the path when the adapter has none */
+  route: string;
+  operationId?: string;
+}
+
+/** Callbacks around each request. Hooks may be async. */
+export interface LifecycleHooks {
+  /** Before authentication; return a Response to answer with it instead */
+  onRequest?: (
+    info: RequestInfo,
+  ) => void | Response | Promise<void | Response>;
+  /** When validation fails, with the problem about to be sent */
+  onValidationError?: (
+    info: RequestInfo,
+    problem: ValidationProblemDetails,
+  ) => void | Promise<void>;
+  /** Once the response is ready; return a Response to replace it */
+  onResponse?: (
+    info: RequestInfo,
+    response: Response,
+  ) => void | Response | Promise<void | Response>;
+  /** When handling throws; return a Response to answer with it instead */
+  onError?: (
+    info: RequestInfo,
+    error: unknown,
+  ) => void | Response | Promise<void | Response>;
+}
+
+/** What observes the requests of a method */
+export interface RequestObservers {
+  hooks?: LifecycleHooks;
+  tracer?: Tracer;
+  accessLog?: AccessLogger;
+  /** Schemas that redact access log entries */
+  schemas?: LoggedSchemas;
+}
+
+/** What the pipeline reports to, and learns from, the request's observers */
+export interface RequestLifecycle {
+  /** Trace context for outgoing calls, so traces continue downstream */
+  traceparent?: string;
+  /** Report a validated request, for the access log */
+  validated(request: ValidatedRequest): void;
+  /** Report a failed validation before its problem is sent */
+  validationFailed(problem: ValidationProblemDetails): Promise<void>;
+}
+
+/**
+ * Run `handle` inside the hooks and the request's span. The span is named
+ * after the operationId, or the method and route, and records the status,
+ * validation failure locations and thrown errors. The access log gets an
+ * entry once the response is final.
+ */
+export async function observeRequest(
+  info: RequestInfo,
+  observers: RequestObservers,
+  handle: (lifecycle: RequestLifecycle) => Promise<Response>,
+): Promise<Response> {
+  const { hooks = {}, tracer, accessLog, schemas = {} } = observers;
+  const started = new Date();
+  const incoming = info.req.headers.get(TRACEPARENT_HEADER) ?? undefined;
+  const span = tracer?.startSpan(
+    info.operationId ?? `${info.method} ${info.route}`,
+    {
+      kind: "server",
+      parent: parseTraceparent(incoming),
+      attributes: {
+        "http.request.method": info.method,
+        "http.route": info.route,
+        ...(info.operationId && { "operation.id": info.operationId }),
+      },
+    },
+  );
+
+  const entry: Partial<AccessLogEntry> = {};
+  const lifecycle: RequestLifecycle = {
+    traceparent: span ? formatTraceparent(span.spanContext()) : incoming,
+    validated(request) {
+      if (accessLog) entry.request = loggedRequest(request, schemas);
+    },
+    async validationFailed(problem) {
+      const locations = new Set(problem.issues.map((issue) => issue.location));
+      span?.setAttribute("validation.failed", true);
+      if (locations.size > 0) {
+        span?.setAttribute("validation.location", [...locations].join(","));
+      }
+      await hooks.onValidationError?.(info, problem);
+    },
+  };
+
+  const finish = async (response: Response): Promise<Response> => {
+    span?.setAttribute("http.response.status_code", response.status);
+    span?.setStatus({ code: response.status >= 500 ? "error" : "ok" });
+    entry.status = response.status;
+    if (accessLog) entry.response = await loggedResponse(response, schemas);
+    return response;
+  };
+
+  try {
+    const response = await hooks.onRequest?.(info) ??
+      await handle(lifecycle);
+    return await finish(await hooks.onResponse?.(info, response) ?? response);
+  } catch (error) {
+    span?.recordException(error);
+    entry.error = String(error);
+    const response = await hooks.onError?.(info, error);
+    if (!response) {
+      span?.setStatus({ code: "error", message: String(error) });
+      throw error;
+    }
+    return await finish(response);
+  } finally {
+    span?.end();
+    if (accessLog) {
+      await writeAccessLog(accessLog, {
+        time: started.toISOString(),
+        method: info.method,
+        route: info.route,
+        ...(info.operationId && { operationId: info.operationId }),
+        status: entry.status ?? 500,
+        duration: Date.now() - started.getTime(),
+        ...(lifecycle.traceparent && { traceparent: lifecycle.traceparent }),
+        ...(entry.request && { request: entry.request }),
+        ...(entry.response !== undefined && { response: entry.response }),
+        ...(entry.error && { error: entry.error }),
+      });
+    }
+  }
+}
+
+/** Write an entry; a failing logger mustn't fail the request */
+async function writeAccessLog(
+  accessLog: AccessLogger,
+  entry: AccessLogEntry,
+): Promise<void> {
+  try {
+    await accessLog(entry);
+  } catch (error) {
+    console.error("Access log failed:", error);
+  }
+}
@@ -0,0 +1,177 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { z } from "zod";
+import { observeRequest, type RequestInfo } from "./hooks.ts";
+import { memoryTracer } from "./tracing.ts";
+import type { AccessLogEntry } from "./accesslog.ts";
+import { REDACTED } from "./redaction.ts";
+
+const TRACEPARENT = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+function info(headers: Record<string, string> = {}): RequestInfo {
+  return {
+    req: new Request("http://localhost/api/users", { headers }),
+    method: "GET",
+    route: "/api/users",
+  };
+}
+
+Deno.test("observeRequest lets onRequest answer and onResponse replace", async () => {
+  const seen: string[] = [];
+  const response = await observeRequest(
+    info(),
+    {
+      hooks: {
+        onRequest: () => {
+          seen.push("request");
+          return new Response("early", { status: 503 });
+        },
+        onResponse: (_info, response) => {
+          seen.push(`response ${response.status}`);
+          return new Response("replaced");
+        },
+      },
+    },
+    () => {
+      seen.push("handle");
+      return Promise.resolve(new Response("late"));
+    },
+  );
+  assertEquals(await response.text(), "replaced");
+  assertEquals(seen, ["request", "response 503"]);
+});
+
+Deno.test("observeRequest hands errors to onError", async () => {
+  const failing = () => Promise.reject(new Error("boom"));
+  const handled = await observeRequest(
+    info(),
+    {
+      hooks: {
+        onError: (_info, error) =>
+          new Response((error as Error).message, { status: 500 }),
+      },
+    },
+    failing,
+  );
+  assertEquals(await handled.text(), "boom");
+
+  const logged: unknown[] = [];
+  await assertRejects(
+    () =>
+      observeRequest(
+        info(),
+        {
+          hooks: {
+            onError: (_info, error) => {
+              logged.push(error);
+            },
+          },
+        },
+        failing,
+      ),
+    Error,
+    "boom",
+  );
+  assertEquals(logged.length, 1);
+});
+
+Deno.test("observeRequest traces the request and its validation failure", async () => {
+  const tracer = memoryTracer();
+  let traceparent: string | undefined;
+  await observeRequest(
+    { ...info({ traceparent: TRACEPARENT }), operationId: "usersList" },
+    { tracer },
+    async (lifecycle) => {
+      traceparent = lifecycle.traceparent;
+      await lifecycle.validationFailed({
+        type: "about:blank",
+        title: "Request validation failed",
+        status: 400,
+        issues: [
+          { path: ["limit"], code: "too_big", message: "", location: "query" },
+          { path: ["x"], code: "invalid", message: "", location: "headers" },
+        ],
+      });
+      return new Response(null, { status: 400 });
+    },
+  );
+
+  const [span] = tracer.spans;
+  assertEquals(span.name, "usersList");
+  assertEquals(span.kind, "server");
+  assertEquals(span.parentSpanId, "00f067aa0ba902b7");
+  assertEquals(span.attributes, {
+    "http.request.method": "GET",
+    "http.route": "/api/users",
+    "operation.id": "usersList",
+    "validation.failed": true,
+    "validation.location": "query,headers",
+    "http.response.status_code": 400,
+  });
+  assertEquals(span.status, { code: "ok" });
+  assertEquals(
+    traceparent,
+    `00-${span.context.traceId}-${span.context.spanId}-01`,
+  );
+});
+
+Deno.test("observeRequest passes the incoming traceparent on without a tracer", async () => {
+  let traceparent: string | undefined;
+  await observeRequest(
+    info({ traceparent: TRACEPARENT }),
+    {},
+    (lifecycle) => {
+      traceparent = lifecycle.traceparent;
+      return Promise.resolve(new Response());
+    },
+  );
+  assertEquals(traceparent, TRACEPARENT);
+});
+
+Deno.test("observeRequest writes a redacted access log entry", async () => {
+  const entries: AccessLogEntry[] = [];
+  const schemas = {
+    body: z.object({
+      email: z.string(),
+      password: z.string().meta({ sensitive: true }),
+    }),
+    response: z.object({ token: z.string().meta({ sensitive: true }) }),
+  };
+  await observeRequest(
+    { ...info({ traceparent: TRACEPARENT }), operationId: "sessionCreate" },
+    { accessLog: (entry) => void entries.push(entry), schemas },
+    (lifecycle) => {
+      lifecycle.validated({
+        body: { email: "a@example.com", password: "hunter2" },
+        query: undefined,
+        params: {},
+        headers: undefined,
+        cookies: undefined,
+      });
+      return Promise.resolve(Response.json({ token: "secret" }));
+    },
+  );
+
+  const [entry] = entries;
+  assertEquals(entry.operationId, "sessionCreate");
+  assertEquals(entry.status, 200);
+  assertEquals(entry.traceparent, TRACEPARENT);
+  assertEquals(entry.request, {
+    params: {},
+    body: { email: "a@example.com", password: REDACTED },
+  });
+  assertEquals(entry.response, { token: REDACTED });
+});
+
+Deno.test("observeRequest logs requests that throw as 500s", async () => {
+  const entries: AccessLogEntry[] = [];
+  await assertRejects(() =>
+    observeRequest(
+      info(),
+      { accessLog: (entry) => void entries.push(entry) },
+      () => Promise.reject(new Error("boom")),
+    )
+  );
+  assertEquals(entries[0].status, 500);
+  assertEquals(entries[0].error, "Error: boom");
+  assertEquals(entries[0].request, undefined);
+});
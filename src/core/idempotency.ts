@@ -0,0 +1,298 @@
+/**
+ * Idempotency Keys
+ *
+ * `idempotent: true` makes retries of mutating endpoints safe. The first
+ * request with an `Idempotency-Key` header runs the handler and its response
+ * is stored; repeats with the same key and payload get that response
+ * replayed. Reusing a key for a different payload gets a 422, and a repeat
+ * while the first request is still running gets a 409.
+ *
+ * @module
+ */
+
+import { problemResponse } from "./problem.ts";
+import { principalId } from "./authorization.ts";
+import { parseDuration } from "./duration.ts";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/** Idempotency options of an endpoint (`idempotent: true` uses defaults) */
+export interface IdempotencyPolicy {
+  /** Reject requests without an Idempotency-Key with a 400. Default: false */
+  required?: boolean;
+  /** How long responses are kept for replay. Default: "24h" */
+  ttl?: string | number;
+}
+
+/** A response kept for replay */
+export interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: Uint8Array;
+}
+
+/** A claimed key: in progress until `response` is set */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  response?: StoredResponse;
+}
+
+/** Keeps idempotency records; shared by all endpoints of a handler set */
+export interface IdempotencyStore {
+  /**
+   * Claim `key` for a request. Returns the existing record if the key was
+   * already claimed, or undefined if this request now owns it.
+   */
+  begin(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+  ): Promise<IdempotencyRecord | undefined>;
+  /** Store the response of the request that owns `key` */
+  complete(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number,
+  ): Promise<void>;
+  /** Give up a claim so the request can be retried */
+  release(key: string): Promise<void>;
+}
+
+const DEFAULT_TTL = "24h";
+
+/** Resolve `idempotent` on an endpoint to a policy, or undefined if off */
+export function idempotencyPolicy(
+  idempotent: boolean | IdempotencyPolicy | undefined,
+): IdempotencyPolicy | undefined {
+  if (!idempotent) return undefined;
+  return idempotent === true ? {} : idempotent;
+}
+
+/** Record lifetime of a policy in milliseconds */
+export function idempotencyTtl(policy: IdempotencyPolicy): number {
+  return parseDuration(policy.ttl ?? DEFAULT_TTL, "idempotency ttl");
+}
+
+/** In-memory store, per process; use kvIdempotencyStore() across instances */
+export function memoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<
+    string,
+    { record: IdempotencyRecord; expiresAt: number }
+  >();
+
+  return {
+    begin(key, fingerprint, ttlMs) {
+      const now = Date.now();
+      const existing = records.get(key);
+      if (existing && existing.expiresAt > now) {
+        return Promise.resolve(existing.record);
+      }
+      // Drop expired records so the map doesn't grow forever
+      for (const [k, v] of records) {
+        if (v.expiresAt <= now) records.delete(k);
+      }
+      records.set(key, { record: { fingerprint }, expiresAt: now + ttlMs });
+      return Promise.resolve(undefined);
+    },
+    complete(key, record, ttlMs) {
+      records.set(key, { record, expiresAt: Date.now() + ttlMs });
+      return Promise.resolve();
+    },
+    release(key) {
+      records.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Deno KV store, for keys shared across instances. Records expire with
+ * their ttl; responses must fit in a KV value (64 KiB).
+ */
+export function kvIdempotencyStore(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey = ["idempotency"],
+): IdempotencyStore {
+  return {
+    async begin(key, fingerprint, ttlMs) {
+      const entryKey = [...prefix, key];
+      while (true) {
+        const entry = await kv.get<IdempotencyRecord>(entryKey);
+        if (entry.value) return entry.value;
+        const result = await kv.atomic()
+          .check(entry)
+          .set(entryKey, { fingerprint }, { expireIn: ttlMs })
+          .commit();
+        if (result.ok) return undefined;
+      }
+    },
+    async complete(key, record, ttlMs) {
+      await kv.set([...prefix, key], record, { expireIn: ttlMs });
+    },
+    async release(key) {
+      await kv.delete([...prefix, key]);
+    },
+  };
+}
+
+/** Hex SHA-256 of some bytes */
+async function sha256(bytes: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * JSON with sorted object keys, so equal payloads fingerprint equally.
+ * Files are represented by their metadata and a hash of their content.
+ */
+async function stableStringify(value: unknown): Promise<string> {
+  if (value instanceof File) {
+    return JSON.stringify({
+      name: value.name,
+      type: value.type,
+      size: value.size,
+      sha256: await sha256(await value.arrayBuffer()),
+    });
+  }
+  if (Array.isArray(value)) {
+    const items = await Promise.all(value.map(stableStringify));
+    return `[${items.join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = await Promise.all(
+      Object.keys(value).sort().map(async (key) =>
+        `${JSON.stringify(key)}:${await stableStringify(
+          (value as Record<string, unknown>)[key],
+        )}`
+      ),
+    );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** SHA-256 of a validated payload */
+export async function fingerprint(payload: unknown): Promise<string> {
+  return await sha256(
+    new TextEncoder().encode(await stableStringify(payload)),
+  );
+}
+
+async function storeResponse(response: Response): Promise<StoredResponse> {
+  return {
+    status: response.status,
+    headers: [...response.headers],
+    body: new Uint8Array(await response.clone().arrayBuffer()),
+  };
+}
+
+function replayResponse(stored: StoredResponse): Response {
+  const headers = new Headers(stored.headers);
+  headers.set("Idempotent-Replayed", "true");
+  return new Response(
+    stored.body.byteLength > 0 ? stored.body as BodyInit : null,
+    { status: stored.status, headers },
+  );
+}
+
+/** What identifies a request's key: endpoint, route and caller */
+export interface IdempotencyScope {
+  method: string;
+  route: string;
+  principal: unknown;
+}
+
+/**
+ * Run `handler` at most once per Idempotency-Key. Requests without a key
+ * run normally unless the policy requires one. `payload` is what a repeat
+ * must match: the validated params, query and body, so a key reused on
+ * another resource of the route is rejected. Server errors (5xx), thrown
+ * errors and responses the store can't keep release the key so the client
+ * can retry. `check` runs only on a first execution, before the handler; a
+ * response it returns is sent without keeping the key.
+ */
+export async function handleIdempotent(
+  policy: IdempotencyPolicy,
+  store: IdempotencyStore,
+  req: Request,
+  scope: IdempotencyScope,
+  payload: unknown,
+  handler: () => Promise<Response>,
+  check?: () => Promise<Response | undefined>,
+): Promise<Response> {
+  const key = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null || key === "" || key.length > 255) {
+    if (key === null && !policy.required) {
+      return (await check?.()) ?? await handler();
+    }
+    return problemResponse({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: key === null
+        ? `This endpoint requires an ${IDEMPOTENCY_KEY_HEADER} header`
+        : `${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 characters`,
+    });
+  }
+
+  // Keys are per caller, so one client can't replay another's response
+  const caller = principalId(scope.principal) ?? "";
+  const storeKey = `${scope.method} ${scope.route} ${caller} ${key}`;
+  const ttlMs = idempotencyTtl(policy);
+  const print = await fingerprint(payload);
+
+  const existing = await store.begin(storeKey, print, ttlMs);
+  if (existing) {
+    if (existing.fingerprint !== print) {
+      return problemResponse({
+        type: "about:blank",
+        title: "Unprocessable Content",
+        status: 422,
+        detail:
+          `${IDEMPOTENCY_KEY_HEADER} was already used with a different payload`,
+      });
+    }
+    if (!existing.response) {
+      return problemResponse({
+        type: "about:blank",
+        title: "Conflict",
+        status: 409,
+        detail:
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+      });
+    }
+    return replayResponse(existing.response);
+  }
+
+  let response: Response;
+  try {
+    const rejected = await check?.();
+    if (rejected) {
+      await store.release(storeKey);
+      return rejected;
+    }
+    response = await handler();
+  } catch (error) {
+    await store.release(storeKey);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await store.release(storeKey);
+    return response;
+  }
+  try {
+    await store.complete(
+      storeKey,
+      { fingerprint: print, response: await storeResponse(response) },
+      ttlMs,
+    );
+  } catch (error) {
+    // The handler ran: send its response, but don't leave the key pending
+    console.error("Idempotency store failed to keep the response:", error);
+    await store.release(storeKey);
+  }
+  return response;
+}
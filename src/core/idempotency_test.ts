@@ -0,0 +1,258 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  fingerprint,
+  handleIdempotent,
+  idempotencyTtl,
+  kvIdempotencyStore,
+  memoryIdempotencyStore,
+} from "./idempotency.ts";
+import { parseDuration } from "./duration.ts";
+
+const scope = { method: "POST", route: "/api/payments", principal: "ada" };
+
+function request(key?: string): Request {
+  return new Request("http://localhost/api/payments", {
+    method: "POST",
+    headers: key === undefined ? {} : { "Idempotency-Key": key },
+  });
+}
+
+Deno.test("parseDuration converts durations to milliseconds", () => {
+  assertEquals(parseDuration("250ms"), 250);
+  assertEquals(parseDuration("10s"), 10_000);
+  assertEquals(parseDuration("1d"), 86_400_000);
+  assertEquals(parseDuration(42), 42);
+  assertThrows(() => parseDuration("-1s"), Error, 'Invalid duration: "-1s"');
+  assertThrows(
+    () => idempotencyTtl({ ttl: "forever" }),
+    Error,
+    'Invalid idempotency ttl: "forever"',
+  );
+  assertEquals(idempotencyTtl({}), 86_400_000);
+});
+
+Deno.test("fingerprint ignores object key order", async () => {
+  assertEquals(
+    await fingerprint({ amount: 10, currency: "EUR" }),
+    await fingerprint({ currency: "EUR", amount: 10 }),
+  );
+  assertEquals(
+    (await fingerprint({ amount: 10 })) === (await fingerprint({ amount: 11 })),
+    false,
+  );
+});
+
+Deno.test("fingerprint hashes file content", async () => {
+  const file = (content: string) =>
+    new File([content], "a.txt", { type: "text/plain" });
+  assertEquals(
+    await fingerprint({ file: file("abc") }),
+    await fingerprint({ file: file("abc") }),
+  );
+  assertEquals(
+    (await fingerprint({ file: file("abc") })) ===
+      (await fingerprint({ file: file("xyz") })),
+    false,
+  );
+});
+
+Deno.test("handleIdempotent replays the first response for a repeated key", async () => {
+  const store = memoryIdempotencyStore();
+  let calls = 0;
+  const run = () => {
+    calls++;
+    return Promise.resolve(Response.json({ id: calls }, { status: 201 }));
+  };
+
+  const first = await handleIdempotent({}, store, request("k1"), scope, {
+    amount: 10,
+  }, run);
+  assertEquals(first.status, 201);
+  assertEquals(await first.json(), { id: 1 });
+  assertEquals(first.headers.get("Idempotent-Replayed"), null);
+
+  const replay = await handleIdempotent({}, store, request("k1"), scope, {
+    amount: 10,
+  }, run);
+  assertEquals(replay.status, 201);
+  assertEquals(await replay.json(), { id: 1 });
+  assertEquals(replay.headers.get("Idempotent-Replayed"), "true");
+  assertEquals(replay.headers.get("Content-Type"), "application/json");
+  assertEquals(calls, 1);
+
+  // Keys belong to their caller
+  const other = await handleIdempotent(
+    {},
+    store,
+    request("k1"),
+    {
+      ...scope,
+      principal: "sam",
+    },
+    { amount: 10 },
+    run,
+  );
+  assertEquals(await other.json(), { id: 2 });
+});
+
+Deno.test("handleIdempotent rejects a reused key with a different payload", async () => {
+  const store = memoryIdempotencyStore();
+  const run = () => Promise.resolve(Response.json({ ok: true }));
+
+  await handleIdempotent({}, store, request("k1"), scope, { amount: 10 }, run);
+  const response = await handleIdempotent({}, store, request("k1"), scope, {
+    amount: 20,
+  }, run);
+  assertEquals(response.status, 422);
+  assertEquals(
+    response.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+});
+
+Deno.test("handleIdempotent returns 409 while the first request runs", async () => {
+  const store = memoryIdempotencyStore();
+  const started = Promise.withResolvers<void>();
+  const finished = Promise.withResolvers<Response>();
+  const pending = handleIdempotent({}, store, request("k1"), scope, {}, () => {
+    started.resolve();
+    return finished.promise;
+  });
+  await started.promise;
+
+  const concurrent = await handleIdempotent(
+    {},
+    store,
+    request("k1"),
+    scope,
+    {},
+    () => Promise.resolve(Response.json({ ok: true })),
+  );
+  assertEquals(concurrent.status, 409);
+
+  finished.resolve(Response.json({ ok: true }));
+  assertEquals((await pending).status, 200);
+});
+
+Deno.test("handleIdempotent releases the key after server errors", async () => {
+  const store = memoryIdempotencyStore();
+  const fail = () => Promise.resolve(new Response(null, { status: 503 }));
+  const ok = () => Promise.resolve(Response.json({ ok: true }));
+
+  assertEquals(
+    (await handleIdempotent({}, store, request("k1"), scope, {}, fail)).status,
+    503,
+  );
+  assertEquals(
+    (await handleIdempotent({}, store, request("k1"), scope, {}, ok)).status,
+    200,
+  );
+
+  await assertRejects(() =>
+    handleIdempotent({}, store, request("k2"), scope, {}, () => {
+      throw new Error("boom");
+    })
+  );
+  assertEquals(
+    (await handleIdempotent({}, store, request("k2"), scope, {}, ok)).status,
+    200,
+  );
+});
+
+Deno.test("handleIdempotent releases the key when the store can't keep the response", async () => {
+  const memory = memoryIdempotencyStore();
+  const store = {
+    ...memory,
+    complete: () => Promise.reject(new Error("value too large")),
+  };
+  const ok = () => Promise.resolve(Response.json({ ok: true }));
+  const error = console.error;
+  console.error = () => {};
+  try {
+    const response = await handleIdempotent(
+      {},
+      store,
+      request("k1"),
+      scope,
+      {},
+      ok,
+    );
+    assertEquals(await response.json(), { ok: true });
+    // Not left pending: a retry runs again instead of getting a 409
+    assertEquals(
+      (await handleIdempotent({}, store, request("k1"), scope, {}, ok)).status,
+      200,
+    );
+  } finally {
+    console.error = error;
+  }
+});
+
+Deno.test("handleIdempotent checks the Idempotency-Key header", async () => {
+  const store = memoryIdempotencyStore();
+  const run = () => Promise.resolve(Response.json({ ok: true }));
+
+  assertEquals(
+    (await handleIdempotent({}, store, request(), scope, {}, run)).status,
+    200,
+  );
+  assertEquals(
+    (await handleIdempotent(
+      { required: true },
+      store,
+      request(),
+      scope,
+      {},
+      run,
+    ))
+      .status,
+    400,
+  );
+  assertEquals(
+    (await handleIdempotent(
+      {},
+      store,
+      request("x".repeat(256)),
+      scope,
+      {},
+      run,
+    ))
+      .status,
+    400,
+  );
+});
+
+Deno.test("memoryIdempotencyStore forgets records after their ttl", async () => {
+  const store = memoryIdempotencyStore();
+  assertEquals(await store.begin("a", "f", 20), undefined);
+  assertEquals(await store.begin("a", "f", 20), { fingerprint: "f" });
+
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assertEquals(await store.begin("a", "f", 20), undefined);
+});
+
+Deno.test("kvIdempotencyStore keeps records in Deno KV", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const store = kvIdempotencyStore(kv);
+    const run = () => Promise.resolve(Response.json({ id: 1 }));
+
+    await handleIdempotent({}, store, request("k1"), scope, {}, run);
+    const replay = await handleIdempotent(
+      {},
+      store,
+      request("k1"),
+      scope,
+      {},
+      run,
+    );
+    assertEquals(replay.headers.get("Idempotent-Replayed"), "true");
+    assertEquals(await replay.json(), { id: 1 });
+
+    await store.release("x");
+    assertEquals(await store.begin("x", "f", 60_000), undefined);
+    assertEquals(await store.begin("x", "g", 60_000), { fingerprint: "f" });
+  } finally {
+    kv.close();
+  }
+});
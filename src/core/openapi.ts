@@ -5,12 +5,33 @@ import {
 } from "@asteasolutions/zod-to-openapi";
 import { toFileUrl } from "@std/path";
 import { z } from "zod";
-import type { ApiDef, ApiMethodDef, HttpMethod } from "./types.ts";
+import type { ApiDef, ApiMethodDef, HttpMethod, QueryStyle } from "./types.ts";
 import type { AnyPaginationMeta } from "../pagination/types.ts";
+import {
+  PROBLEM_CONTENT_TYPE,
+  ProblemDetailsSchema,
+  ValidationProblemSchema,
+} from "./problem.ts";
+import { describeResponseCookie } from "./cookies.ts";
+import { securitySchemeObject, type SecuritySchemes } from "./security.ts";
+import { describeAuthorization } from "./authorization.ts";
+import { describeRateLimit } from "./ratelimit.ts";
+import { IDEMPOTENCY_KEY_HEADER, idempotencyPolicy } from "./idempotency.ts";
+import {
+  CONDITIONAL_READ_METHODS,
+  CONDITIONAL_WRITE_METHODS,
+  etagPolicy,
+} from "./etag.ts";
+import { describeSunset, isDeprecated } from "./deprecation.ts";
+import { apiDefForVersion } from "./versioning.ts";
+import type { CatalogError } from "./errors.ts";
+import type { ApiRegistry } from "./registry.ts";
 
 /** Extended method def that may include pagination metadata */
 interface MethodDefWithPagination extends
   ApiMethodDef<
+    z.ZodType | undefined,
+    z.ZodType | undefined,
     z.ZodType | undefined,
     z.ZodType | undefined,
     z.ZodType | undefined
@@ -44,8 +65,27 @@ export interface OpenApiServer {
 
 export interface GeneratorOptions {
   routesDir?: string;
+  /** Routes registered with defineApi(), used instead of `routesDir` */
+  api?: ApiRegistry;
   info?: OpenApiInfo;
   servers?: OpenApiServer[];
+  /**
+   * Global body size limit passed to createApiHandlers(), so body endpoints
+   * without their own `maxBodySize` document the 413 response too
+   */
+  maxBodySize?: number;
+  /**
+   * Global timeout passed to createApiHandlers(), so endpoints without their
+   * own `timeout` document the 504 response too
+   */
+  timeout?: string | number;
+  /** Security schemes referenced by endpoints' `security` field */
+  securitySchemes?: SecuritySchemes;
+  /**
+   * Document this version of versioned endpoints (the schemas in their
+   * `versions`). Also the default `info.version`. Default: the latest version
+   */
+  version?: string;
 }
 
 export interface RouteModule {
@@ -79,6 +119,16 @@ export function filePathToOpenApiPath(filePath: string): string {
   return path;
 }
 
+/**
+ * Convert a registry route pattern to OpenAPI path format.
+ * e.g. /api/users/[id] or /api/users/:id -> /api/users/{id}
+ */
+function routePathToOpenApiPath(path: string): string {
+  return path
+    .replace(/\[(?:\.\.\.)?(\w+)\]/g, "{$1}")
+    .replace(/:(\w+)[+*]?/g, "{$1}");
+}
+
 function extractPathParams(path: string): string[] {
   const matches = path.match(/\{(\w+)\}/g);
   if (!matches) return [];
@@ -86,7 +136,8 @@ function extractPathParams(path: string): string[] {
 }
 
 /**
- * Generate OpenAPI spec by scanning route files.
+ * Generate OpenAPI spec by scanning route files, or from a defineApi()
+ * registry when `api` is given.
  * Only includes routes with public: true.
  */
 export async function generateOpenApiSpec(
@@ -94,12 +145,94 @@ export async function generateOpenApiSpec(
 ): Promise<ReturnType<OpenApiGeneratorV31["generateDocument"]>> {
   const {
     routesDir = "routes/api",
+    api,
     info = {},
     servers = [],
+    maxBodySize,
+    timeout,
+    securitySchemes = {},
+    version,
   } = options;
 
   const registry = new OpenAPIRegistry();
+  for (const [name, scheme] of Object.entries(securitySchemes)) {
+    registry.registerComponent(
+      "securitySchemes",
+      name,
+      securitySchemeObject(scheme),
+    );
+  }
+  const queryStyles: QueryStyleEntry[] = [];
+  const fileSchemas = new Set<z.ZodType>();
+
+  const routes: RouteEntry[] = api
+    ? Object.entries(api.apiDefs).map(([path, apiDef]) => ({
+      source: path,
+      path: routePathToOpenApiPath(path),
+      apiDef,
+    }))
+    : await importRouteFiles(routesDir);
+
+  for (const { source, path: openApiPath, apiDef: currentDef } of routes) {
+    const apiDef = version ? apiDefForVersion(currentDef, version) : currentDef;
+    try {
+      const pathParams = extractPathParams(openApiPath);
+
+      for (const method of HTTP_METHODS) {
+        const methodDef = apiDef[method];
+        if (!methodDef?.public) continue;
+
+        registerEndpoint(
+          registry,
+          openApiPath,
+          method,
+          methodDef,
+          pathParams,
+          fileSchemas,
+          maxBodySize,
+          timeout,
+        );
+        if (methodDef.query && methodDef.queryStyle) {
+          queryStyles.push({
+            path: openApiPath,
+            method,
+            style: methodDef.queryStyle,
+          });
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to process route ${source}:`, error);
+    }
+  }
+
+  const generator = new OpenApiGeneratorV31(registry.definitions);
+  const document = withBinaryFiles(
+    fileSchemas,
+    () =>
+      generator.generateDocument({
+        openapi: "3.1.0",
+        info: {
+          title: info.title ?? "API",
+          version: info.version ?? version ?? "1.0.0",
+          description: info.description,
+        },
+        servers: servers.length > 0 ? servers : undefined,
+      }),
+  );
+  applyQueryStyles(document, queryStyles);
+  describeFieldMetadata(document);
+  return document;
+}
+
+/** An API definition with its OpenAPI path and where it came from */
+interface RouteEntry {
+  source: string;
+  path: string;
+  apiDef: ApiDef;
+}
 
+/** Import route files and pair each API definition with its OpenAPI path */
+async function importRouteFiles(routesDir: string): Promise<RouteEntry[]> {
   const routeFiles: string[] = [];
   for await (const entry of Deno.readDir(routesDir)) {
     await collectRouteFiles(routesDir, entry, routeFiles);
@@ -108,6 +241,7 @@ export async function generateOpenApiSpec(
   // Cache-bust timestamp for fresh imports during build
   const cacheBuster = `?t=${Date.now()}`;
 
+  const routes: RouteEntry[] = [];
   for (const filePath of routeFiles) {
     try {
       const absolutePath = await Deno.realPath(filePath);
@@ -117,30 +251,162 @@ export async function generateOpenApiSpec(
       const apiDef = mod.handler?.__apiDef;
       if (!apiDef) continue;
 
-      const openApiPath = filePathToOpenApiPath(filePath);
-      const pathParams = extractPathParams(openApiPath);
+      routes.push({
+        source: filePath,
+        path: filePathToOpenApiPath(filePath),
+        apiDef,
+      });
+    } catch (error) {
+      console.warn(`Failed to process route ${filePath}:`, error);
+    }
+  }
+  return routes;
+}
 
-      for (const method of HTTP_METHODS) {
-        const methodDef = apiDef[method];
-        if (!methodDef?.public) continue;
+interface QueryStyleEntry {
+  path: string;
+  method: HttpMethod;
+  style: QueryStyle;
+}
+
+/** OpenAPI style/explode for array and object query params, by queryStyle */
+const ARRAY_STYLES: Record<QueryStyle, { style: string; explode: boolean }> = {
+  form: { style: "form", explode: true },
+  comma: { style: "form", explode: false },
+  pipe: { style: "pipeDelimited", explode: false },
+  deepObject: { style: "form", explode: true },
+};
 
-        registerEndpoint(registry, openApiPath, method, methodDef, pathParams);
+/**
+ * Set style/explode on query parameters. zod-to-openapi has no per-operation
+ * serialization setting, so the generated document is patched instead.
+ */
+function applyQueryStyles(
+  document: ReturnType<OpenApiGeneratorV31["generateDocument"]>,
+  entries: QueryStyleEntry[],
+): void {
+  for (const { path, method, style } of entries) {
+    const operation = document.paths?.[path]?.[
+      method.toLowerCase() as Lowercase<HttpMethod>
+    ];
+    for (const param of operation?.parameters ?? []) {
+      if (!("in" in param) || param.in !== "query") continue;
+      const type = param.schema && "type" in param.schema
+        ? param.schema.type
+        : undefined;
+      if (type === "array") {
+        Object.assign(param, ARRAY_STYLES[style]);
+      } else if (type === "object" && style === "deepObject") {
+        Object.assign(param, { style: "deepObject", explode: true });
       }
-    } catch (error) {
-      console.warn(`Failed to process route ${filePath}:`, error);
     }
   }
+}
 
-  const generator = new OpenApiGeneratorV31(registry.definitions);
-  return generator.generateDocument({
-    openapi: "3.1.0",
-    info: {
-      title: info.title ?? "API",
-      version: info.version ?? "1.0.0",
-      description: info.description,
-    },
-    servers: servers.length > 0 ? servers : undefined,
-  });
+/** Keywords of a JSON schema that hold subschemas */
+const SUBSCHEMA_KEYWORDS = [
+  "items",
+  "prefixItems",
+  "additionalProperties",
+  "anyOf",
+  "oneOf",
+  "allOf",
+  "not",
+];
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Document fields marked `.meta({ sensitive: true })` with `x-sensitive`, and
+ * as `writeOnly` where requests use them, and visibleTo() fields with
+ * `x-visible-to`. zod-to-openapi copies metadata into the document as is, so
+ * the generated document is patched instead.
+ */
+function describeFieldMetadata(
+  document: ReturnType<OpenApiGeneratorV31["generateDocument"]>,
+): void {
+  const components: Record<string, unknown> = document.components?.schemas ??
+    {};
+  const requestComponents = new Set<string>();
+  for (const pathItem of Object.values(document.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[
+        method.toLowerCase() as Lowercase<HttpMethod>
+      ];
+      if (!operation) continue;
+      for (const param of operation.parameters ?? []) {
+        if ("schema" in param) {
+          describeFields(param.schema, components, requestComponents);
+        }
+      }
+      for (const schema of contentSchemas(operation.requestBody)) {
+        describeFields(schema, components, requestComponents);
+      }
+      for (const response of Object.values(operation.responses ?? {})) {
+        for (const schema of contentSchemas(response)) {
+          describeFields(schema, components);
+        }
+      }
+    }
+  }
+  for (const schema of Object.values(components)) {
+    describeFields(schema, components);
+  }
+}
+
+/** Schemas of a request body's or response's media types */
+function contentSchemas(bodyOrResponse: unknown): unknown[] {
+  const content = (bodyOrResponse as { content?: unknown } | undefined)
+    ?.content as Record<string, { schema?: unknown }> | undefined;
+  return Object.values(content ?? {}).map((media) => media.schema);
+}
+
+/**
+ * Rewrite `sensitive` to `x-sensitive` and `visibleTo` to `x-visible-to` in a
+ * schema and its subschemas. In requests, given the components they use so
+ * far, sensitive fields are also marked `writeOnly` and `$ref`s are followed
+ * into the components.
+ */
+function describeFields(
+  node: unknown,
+  components: Record<string, unknown>,
+  requestComponents?: Set<string>,
+): void {
+  if (typeof node !== "object" || node === null) return;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      describeFields(item, components, requestComponents);
+    }
+    return;
+  }
+  const schema = node as Record<string, unknown>;
+  if (schema.sensitive === true || schema["x-sensitive"] === true) {
+    delete schema.sensitive;
+    schema["x-sensitive"] = true;
+    if (requestComponents) schema.writeOnly = true;
+  }
+  if (Array.isArray(schema.visibleTo)) {
+    schema["x-visible-to"] = schema.visibleTo;
+    delete schema.visibleTo;
+  }
+  const ref = schema.$ref;
+  if (
+    requestComponents && typeof ref === "string" &&
+    ref.startsWith(SCHEMA_REF_PREFIX)
+  ) {
+    const name = ref.slice(SCHEMA_REF_PREFIX.length);
+    if (!requestComponents.has(name)) {
+      requestComponents.add(name);
+      describeFields(components[name], components, requestComponents);
+    }
+  }
+  const properties = schema.properties as Record<string, unknown> | undefined;
+  for (const property of Object.values(properties ?? {})) {
+    describeFields(property, components, requestComponents);
+  }
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    describeFields(schema[keyword], components, requestComponents);
+  }
 }
 
 /** Check if a file should be skipped (tests, private, dotfiles). */
@@ -196,12 +462,177 @@ async function collectRouteFiles(
   }
 }
 
+/** Problem components, registered on first use per registry */
+const PROBLEM_SCHEMAS = {
+  Problem: ProblemDetailsSchema,
+  ValidationProblem: ValidationProblemSchema,
+};
+const problemRefs = new WeakMap<
+  OpenAPIRegistry,
+  Partial<Record<keyof typeof PROBLEM_SCHEMAS, z.ZodType>>
+>();
+
+function problemRef(
+  registry: OpenAPIRegistry,
+  name: keyof typeof PROBLEM_SCHEMAS,
+): z.ZodType {
+  let refs = problemRefs.get(registry);
+  if (!refs) {
+    refs = {};
+    problemRefs.set(registry, refs);
+  }
+  // Clone so the instance picks up the .openapi() extension, which only
+  // applies to schemas created after extendZodWithOpenApi() ran
+  refs[name] ??= registry.register(name, PROBLEM_SCHEMAS[name].clone());
+  return refs[name];
+}
+
+/**
+ * Catalog error components by code, registered on first use per registry as
+ * `Error_<code>` so they don't collide with the API's own schemas
+ */
+const errorRefs = new WeakMap<OpenAPIRegistry, Map<string, z.ZodType>>();
+
+/** Component for a catalog error: a problem with its code and details */
+function errorRef(registry: OpenAPIRegistry, error: CatalogError): z.ZodType {
+  let refs = errorRefs.get(registry);
+  if (!refs) {
+    refs = new Map();
+    errorRefs.set(registry, refs);
+  }
+  let ref = refs.get(error.code);
+  if (!ref) {
+    ref = registry.register(
+      `Error_${error.code}`,
+      ProblemDetailsSchema.extend({
+        code: z.literal(error.code),
+        ...(error.details && { details: error.details }),
+      }),
+    );
+    refs.set(error.code, ref);
+  }
+  return ref;
+}
+
+/** Responses of an operation, by status */
+type ResponseEntries = Record<
+  string,
+  {
+    description: string;
+    content?: Record<string, { schema: z.ZodType }>;
+    headers?: Record<string, unknown>;
+  }
+>;
+
+/**
+ * Document a problem+json response, next to the problem the status already
+ * documents if any: descriptions are joined and schemas become a union.
+ */
+function addProblem(
+  responses: ResponseEntries,
+  registry: OpenAPIRegistry,
+  status: string,
+  description: string,
+  name: keyof typeof PROBLEM_SCHEMAS,
+): void {
+  const response = responses[status];
+  if (!response) {
+    responses[status] = problemEntry(registry, description, name);
+    return;
+  }
+  const schema = problemRef(registry, name);
+  const problem = response.content?.[PROBLEM_CONTENT_TYPE]?.schema;
+  responses[status] = {
+    ...response,
+    description: `${response.description}; ${description}`,
+    content: {
+      ...response.content,
+      [PROBLEM_CONTENT_TYPE]: {
+        schema: !problem || problem === schema
+          ? schema
+          : z.union([problem, schema]),
+      },
+    },
+  };
+}
+
+/** A problem+json response entry */
+function problemEntry(
+  registry: OpenAPIRegistry,
+  description: string,
+  name: keyof typeof PROBLEM_SCHEMAS,
+) {
+  return {
+    description,
+    content: {
+      [PROBLEM_CONTENT_TYPE]: { schema: problemRef(registry, name) },
+    },
+  };
+}
+
+/** Collect the z.file() fields of a body that have no metadata of their own */
+function collectFileSchemas(schema: z.ZodType, files: Set<z.ZodType>): void {
+  const def = schema._zod.def as unknown as Record<string, unknown>;
+  switch (def.type) {
+    case "file":
+      if (!schema.meta()) files.add(schema);
+      return;
+    case "object":
+      for (
+        const field of Object.values(def.shape as Record<string, z.ZodType>)
+      ) {
+        collectFileSchemas(field, files);
+      }
+      return;
+    case "array":
+      collectFileSchemas(def.element as z.ZodType, files);
+      return;
+    case "optional":
+    case "nullable":
+    case "default":
+      collectFileSchemas(def.innerType as z.ZodType, files);
+      return;
+  }
+}
+
+/**
+ * Run `generate` with z.file() fields described as binary strings.
+ * zod-to-openapi has no mapping for file schemas and only reads metadata from
+ * registries, so it's there for the generation only: the user's schemas are
+ * left as they were.
+ */
+function withBinaryFiles<T>(files: Set<z.ZodType>, generate: () => T): T {
+  for (const file of files) {
+    z.globalRegistry.add(file, { type: "string", format: "binary" });
+  }
+  try {
+    return generate();
+  } finally {
+    for (const file of files) z.globalRegistry.remove(file);
+  }
+}
+
+/** Add documented headers to the endpoint's (object) headers schema */
+function addRequestHeaders(
+  request: Record<string, unknown>,
+  headers: Record<string, z.ZodType>,
+): void {
+  if (request.headers === undefined) {
+    request.headers = z.object(headers);
+  } else if (request.headers instanceof z.ZodObject) {
+    request.headers = request.headers.extend(headers);
+  }
+}
+
 function registerEndpoint(
   registry: OpenAPIRegistry,
   path: string,
   method: HttpMethod,
   def: MethodDefWithPagination,
   pathParams: string[],
+  fileSchemas: Set<z.ZodType>,
+  globalMaxBodySize?: number,
+  globalTimeout?: string | number,
 ): void {
   const request: Record<string, unknown> = {};
 
@@ -221,24 +652,63 @@ function registerEndpoint(
     request.query = def.query;
   }
 
+  if (def.headers) {
+    request.headers = def.headers;
+  }
+
+  // Document the Idempotency-Key header alongside the declared headers
+  const idempotency = idempotencyPolicy(def.idempotent);
+  if (idempotency) {
+    const key = z.string().min(1).max(255).openapi({
+      description: "Unique key; repeats replay the first response",
+    });
+    addRequestHeaders(request, {
+      [IDEMPOTENCY_KEY_HEADER]: idempotency.required ? key : key.optional(),
+    });
+  }
+
+  // Document conditional request headers
+  const etag = etagPolicy(def.etag);
+  const conditionalRead = etag !== undefined &&
+    CONDITIONAL_READ_METHODS.includes(method);
+  const conditionalWrite = etag !== undefined &&
+    CONDITIONAL_WRITE_METHODS.includes(method);
+  if (conditionalRead) {
+    addRequestHeaders(request, {
+      "If-None-Match": z.string().optional().openapi({
+        description: "ETag of a cached copy; a match gets a 304",
+      }),
+    });
+  }
+  if (conditionalWrite) {
+    addRequestHeaders(request, {
+      "If-Match": z.string().openapi({
+        description: "ETag of the version being changed",
+      }),
+    });
+  }
+
+  if (def.cookies) {
+    request.cookies = def.cookies;
+  }
+
   if (def.body && ["POST", "PUT", "PATCH"].includes(method)) {
     let bodySchema = def.body;
     if (def.bodyName) {
       bodySchema = registry.register(def.bodyName, def.body);
     }
+    const contentTypes = def.contentTypes ?? ["application/json"];
+    if (contentTypes.some((type) => type !== "application/json")) {
+      collectFileSchemas(def.body, fileSchemas);
+    }
     request.body = {
-      content: {
-        "application/json": {
-          schema: bodySchema,
-        },
-      },
+      content: Object.fromEntries(
+        contentTypes.map((type) => [type, { schema: bodySchema }]),
+      ),
     };
   }
 
-  const responses: Record<
-    string,
-    { description: string; content?: Record<string, { schema: z.ZodType }> }
-  > = {};
+  const responses: ResponseEntries = {};
 
   if (def.response) {
     let responseSchema = def.response;
@@ -290,6 +760,187 @@ function registerEndpoint(
     };
   }
 
+  // Document cookies set by successful responses
+  const setCookies = Object.values(def.setCookies ?? {});
+  if (setCookies.length > 0) {
+    for (const [status, response] of Object.entries(responses)) {
+      if (!status.startsWith("2")) continue;
+      response.headers = {
+        "Set-Cookie": {
+          description: setCookies.map(describeResponseCookie).join("\n"),
+          schema: { type: "string" },
+        },
+      };
+    }
+  }
+
+  // Document the problem+json response sent when request validation fails
+  if (def.params || def.query || def.headers || def.cookies || request.body) {
+    const status = String(def.validationStatus ?? 400);
+    responses[status] ??= problemEntry(
+      registry,
+      "Request validation failed",
+      "ValidationProblem",
+    );
+    // Malformed JSON is always a 400, even when validation uses 422
+    if (status !== "400" && request.body) {
+      responses["400"] ??= problemEntry(
+        registry,
+        "Malformed request",
+        "ValidationProblem",
+      );
+    }
+  }
+
+  // Document authentication failures
+  if (def.security && def.security.length > 0) {
+    responses["401"] ??= problemEntry(
+      registry,
+      "Authentication required",
+      "Problem",
+    );
+  }
+
+  // Document authorization failures
+  if (def.authorize) {
+    responses["403"] ??= problemEntry(registry, "Forbidden", "Problem");
+  }
+
+  // Document rate limit rejections
+  if (def.rateLimit) {
+    responses["429"] ??= {
+      ...problemEntry(registry, "Rate limit exceeded", "Problem"),
+      headers: {
+        "Retry-After": {
+          description: "Seconds until the rate limit window resets",
+          schema: { type: "integer" },
+        },
+        "RateLimit-Limit": {
+          description: "Requests allowed per window",
+          schema: { type: "integer" },
+        },
+        "RateLimit-Remaining": {
+          description: "Requests left in the current window",
+          schema: { type: "integer" },
+        },
+        "RateLimit-Reset": {
+          description: "Seconds until the current window resets",
+          schema: { type: "integer" },
+        },
+      },
+    };
+  }
+
+  // Document ETags and precondition failures
+  if (etag) {
+    for (const [status, response] of Object.entries(responses)) {
+      if (!status.startsWith("2")) continue;
+      response.headers = {
+        ...response.headers,
+        ETag: {
+          description: etag.field
+            ? `Version of the resource (its \`${etag.field}\` field)`
+            : "Hash of the response body",
+          schema: { type: "string" },
+        },
+      };
+    }
+  }
+  if (conditionalRead) {
+    responses["304"] ??= { description: "Not modified" };
+  }
+  if (conditionalWrite) {
+    responses["412"] ??= problemEntry(
+      registry,
+      "If-Match doesn't match the current version",
+      "Problem",
+    );
+    responses["428"] ??= problemEntry(
+      registry,
+      "If-Match required",
+      "Problem",
+    );
+  }
+
+  // Document idempotency key conflicts, with the validation problems that
+  // share their status (422 with `validationStatus: 422`, 400 otherwise)
+  if (idempotency) {
+    responses["409"] ??= problemEntry(
+      registry,
+      "A request with this Idempotency-Key is in progress",
+      "Problem",
+    );
+    addProblem(
+      responses,
+      registry,
+      "422",
+      "Idempotency-Key reused with a different payload",
+      "Problem",
+    );
+    if (idempotency.required) {
+      addProblem(
+        responses,
+        registry,
+        "400",
+        "Missing Idempotency-Key",
+        "Problem",
+      );
+    }
+  }
+
+  // Document body limits and content-type enforcement
+  if (request.body) {
+    if ((def.maxBodySize ?? globalMaxBodySize) !== undefined) {
+      responses["413"] ??= problemEntry(
+        registry,
+        "Request body too large",
+        "Problem",
+      );
+    }
+    responses["415"] ??= problemEntry(
+      registry,
+      "Unsupported content type",
+      "Problem",
+    );
+  }
+
+  // Document requests cut off by the timeout
+  const timeout = def.timeout ?? globalTimeout;
+  if (timeout !== undefined) {
+    responses["504"] ??= problemEntry(
+      registry,
+      "The request timed out",
+      "Problem",
+    );
+  }
+
+  // Document the catalog errors the handler can throw, grouped by status.
+  // They join any problem already documented for the status as alternatives.
+  const errorsByStatus = Map.groupBy(def.errors ?? [], (error) => error.status);
+  for (const [status, errors] of errorsByStatus) {
+    const response = responses[String(status)];
+    const schemas = errors.map((error) => errorRef(registry, error));
+    const problem = response?.content?.[PROBLEM_CONTENT_TYPE]?.schema;
+    if (problem) schemas.unshift(problem);
+    const description = errors
+      .map((error) => error.description ?? error.title ?? error.code)
+      .join("; ");
+    responses[String(status)] = {
+      ...response,
+      description: response
+        ? `${response.description}; ${description}`
+        : description,
+      content: {
+        ...response?.content,
+        [PROBLEM_CONTENT_TYPE]: {
+          schema: schemas.length === 1
+            ? schemas[0]
+            : z.union(schemas as [z.ZodType, ...z.ZodType[]]),
+        },
+      },
+    };
+  }
+
   // Build the path registration object
   // deno-lint-ignore no-explicit-any
   const pathDef: any = {
@@ -302,10 +953,48 @@ function registerEndpoint(
     responses,
   };
 
+  // Deprecated operations; the sunset says when they go away
+  if (isDeprecated(def)) {
+    pathDef.deprecated = true;
+  }
+  if (def.sunset) {
+    pathDef["x-sunset"] = describeSunset(def.sunset);
+  }
+
+  // Any one of the listed schemes satisfies the operation
+  if (def.security && def.security.length > 0) {
+    pathDef.security = def.security.map((name) => ({ [name]: [] }));
+  }
+
+  // Add authorization policy summary if present
+  if (def.authorize) {
+    pathDef["x-authorization"] = describeAuthorization(def.authorize);
+  }
+
+  // Add rate limit extension if present
+  if (def.rateLimit) {
+    pathDef["x-rate-limit"] = describeRateLimit(def.rateLimit);
+  }
+
+  // Add timeout extension if present
+  if (timeout !== undefined) {
+    pathDef["x-timeout"] = timeout;
+  }
+
+  // Add idempotency extension if present
+  if (idempotency) {
+    pathDef["x-idempotency"] = { required: idempotency.required ?? false };
+  }
+
   // Add pagination extension if present
   if (def.__pagination) {
     pathDef["x-pagination"] = def.__pagination;
   }
 
+  // Add required capabilities extension if present
+  if (def.requires && def.requires.length > 0) {
+    pathDef["x-requires"] = def.requires;
+  }
+
   registry.registerPath(pathDef);
 }
@@ -1,5 +1,26 @@
 import { assertEquals } from "@std/assert";
-import { filePathToOpenApiPath } from "./openapi.ts";
+import { z } from "zod";
+import {
+  filePathToOpenApiPath,
+  generateOpenApiSpec,
+  type GeneratorOptions,
+} from "./openapi.ts";
+import { apiKeyAuth, bearerAuth } from "./security.ts";
+import { defineApi } from "./registry.ts";
+import { defineErrors } from "./errors.ts";
+import { isSensitive } from "./redaction.ts";
+import { visibleTo } from "./authorization.ts";
+import * as user from "./fixtures/routes/api/users/[id].ts";
+
+const FIXTURES_DIR = "src/core/fixtures/routes";
+const USER_PATH = "src/core/fixtures/routes/api/users/{id}";
+
+async function generateFixtureSpec(
+  options: Omit<GeneratorOptions, "routesDir"> = {},
+  // deno-lint-ignore no-explicit-any
+): Promise<any> {
+  return await generateOpenApiSpec({ routesDir: FIXTURES_DIR, ...options });
+}
 
 // filePathToOpenApiPath tests
 
@@ -93,3 +114,607 @@ Deno.test("filePathToOpenApiPath strips route groups but keeps structure", () =>
     "/blog/posts/{slug}",
   );
 });
+
+// generateOpenApiSpec tests
+
+Deno.test("generateOpenApiSpec documents validation problem responses", async () => {
+  const spec = await generateFixtureSpec();
+  const get = spec.paths[USER_PATH].get;
+
+  assertEquals(Object.keys(get.responses), ["200", "400"]);
+  assertEquals(get.responses["400"].content, {
+    "application/problem+json": {
+      schema: { $ref: "#/components/schemas/ValidationProblem" },
+    },
+  });
+  assertEquals(
+    spec.components.schemas.ValidationProblem.required,
+    ["type", "title", "status", "issues"],
+  );
+});
+
+Deno.test("generateOpenApiSpec uses validationStatus and keeps 400 for malformed bodies", async () => {
+  const spec = await generateFixtureSpec();
+  const put = spec.paths[USER_PATH].put;
+
+  assertEquals(Object.keys(put.responses).sort(), [
+    "200",
+    "400",
+    "415",
+    "422",
+  ]);
+  assertEquals(put.responses["422"].description, "Request validation failed");
+  assertEquals(put.responses["400"].description, "Malformed request");
+});
+
+Deno.test("generateOpenApiSpec omits validation problems when nothing is validated", async () => {
+  const spec = await generateFixtureSpec();
+  const del = spec.paths[USER_PATH].delete;
+
+  assertEquals(Object.keys(del.responses), ["200"]);
+});
+
+Deno.test("generateOpenApiSpec emits header parameters", async () => {
+  const spec = await generateFixtureSpec();
+  const put = spec.paths[USER_PATH].put;
+
+  assertEquals(
+    // deno-lint-ignore no-explicit-any
+    put.parameters.filter((p: any) => p.in === "header"),
+    [{
+      schema: { type: "string" },
+      required: true,
+      name: "If-Match",
+      in: "header",
+    }],
+  );
+});
+
+Deno.test("generateOpenApiSpec emits cookie parameters and Set-Cookie headers", async () => {
+  const spec = await generateFixtureSpec();
+  const post = spec.paths["src/core/fixtures/routes/api/session"].post;
+
+  assertEquals(post.parameters, [{
+    schema: { type: "string" },
+    required: true,
+    name: "csrf",
+    in: "cookie",
+  }]);
+  assertEquals(post.responses["200"].headers, {
+    "Set-Cookie": {
+      description:
+        "session=<value>; Path=/; Max-Age=3600; HttpOnly; SameSite=Lax",
+      schema: { type: "string" },
+    },
+  });
+  assertEquals(post.responses["400"].headers, undefined);
+});
+
+Deno.test("generateOpenApiSpec documents catalog errors by status", async () => {
+  const spec = await generateFixtureSpec();
+  const post = spec.paths["src/core/fixtures/routes/api/session"].post;
+
+  assertEquals(
+    post.responses["401"].description,
+    "Invalid credentials; Account locked",
+  );
+  assertEquals(post.responses["401"].content, {
+    "application/problem+json": {
+      schema: {
+        anyOf: [
+          { $ref: "#/components/schemas/Error_INVALID_CREDENTIALS" },
+          { $ref: "#/components/schemas/Error_ACCOUNT_LOCKED" },
+        ],
+      },
+    },
+  });
+  const locked = spec.components.schemas.Error_ACCOUNT_LOCKED;
+  assertEquals(locked.properties.code, {
+    type: "string",
+    enum: ["ACCOUNT_LOCKED"],
+  });
+  assertEquals(locked.properties.details.required, ["until"]);
+  assertEquals(
+    spec.components.schemas.Error_INVALID_CREDENTIALS.properties.details,
+    undefined,
+  );
+});
+
+Deno.test("generateOpenApiSpec merges catalog errors into documented responses", async () => {
+  const errors = defineErrors({
+    BAD_CURSOR: { status: 400, title: "Invalid cursor" },
+    NOT_FOUND: { status: 404, title: "User not found" },
+  });
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/users": {
+        GET: {
+          public: true,
+          query: z.object({ cursor: z.string().optional() }),
+          responses: {
+            404: { schema: z.object({ id: z.string() }), name: "NOT_FOUND" },
+          },
+          errors: [errors.BAD_CURSOR, errors.NOT_FOUND],
+        },
+      },
+    }),
+  });
+  const get = spec.paths["/api/users"].get;
+
+  assertEquals(
+    get.responses["400"].description,
+    "Request validation failed; Invalid cursor",
+  );
+  assertEquals(get.responses["400"].content, {
+    "application/problem+json": {
+      schema: {
+        anyOf: [
+          { $ref: "#/components/schemas/ValidationProblem" },
+          { $ref: "#/components/schemas/Error_BAD_CURSOR" },
+        ],
+      },
+    },
+  });
+  assertEquals(
+    get.responses["404"].description,
+    "Response 404; User not found",
+  );
+  assertEquals(get.responses["404"].content, {
+    "application/json": { schema: { $ref: "#/components/schemas/NOT_FOUND" } },
+    "application/problem+json": {
+      schema: { $ref: "#/components/schemas/Error_NOT_FOUND" },
+    },
+  });
+  assertEquals(spec.components.schemas.NOT_FOUND.required, ["id"]);
+});
+
+Deno.test("generateOpenApiSpec documents form bodies with binary files", async () => {
+  const spec = await generateFixtureSpec();
+  const post = spec.paths["src/core/fixtures/routes/api/uploads"].post;
+  const schema = {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      file: { type: "string", format: "binary" },
+    },
+    required: ["title"],
+  };
+
+  assertEquals(post.requestBody.content, {
+    "multipart/form-data": { schema },
+    "application/x-www-form-urlencoded": { schema },
+  });
+});
+
+Deno.test("generateOpenApiSpec leaves file schemas without metadata", async () => {
+  const file = z.file();
+  const api = defineApi({
+    "/avatars": {
+      PUT: {
+        public: true,
+        contentTypes: ["multipart/form-data"],
+        body: z.object({ file }),
+      },
+    },
+  });
+
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({ api });
+  assertEquals(
+    spec.paths["/avatars"].put.requestBody.content["multipart/form-data"]
+      .schema.properties.file,
+    { type: "string", format: "binary" },
+  );
+  assertEquals(file.meta(), undefined);
+});
+
+Deno.test("generateOpenApiSpec documents query serialization styles", async () => {
+  const spec = await generateFixtureSpec();
+  const params = spec.paths["src/core/fixtures/routes/api/issues"].get
+    .parameters;
+  const byName = Object.fromEntries(
+    params.map((p: { name: string }) => [p.name, p]),
+  );
+
+  assertEquals(byName.filter.style, "deepObject");
+  assertEquals(byName.filter.explode, true);
+  assertEquals(byName.labels.style, "form");
+  assertEquals(byName.labels.explode, true);
+  assertEquals(byName.limit.style, undefined);
+});
+
+Deno.test("generateOpenApiSpec documents body limit responses", async () => {
+  const spec = await generateFixtureSpec();
+  const upload = spec.paths["src/core/fixtures/routes/api/uploads"].post;
+  const put = spec.paths[USER_PATH].put;
+
+  // uploads declares maxBodySize, the user PUT doesn't
+  assertEquals(upload.responses["413"].description, "Request body too large");
+  assertEquals(upload.responses["415"].content, {
+    "application/problem+json": {
+      schema: { $ref: "#/components/schemas/Problem" },
+    },
+  });
+  assertEquals(put.responses["413"], undefined);
+  assertEquals(put.responses["415"].description, "Unsupported content type");
+});
+
+Deno.test("generateOpenApiSpec documents 413 for a global maxBodySize", async () => {
+  const spec = await generateFixtureSpec({ maxBodySize: 1024 });
+  const put = spec.paths[USER_PATH].put;
+
+  assertEquals(put.responses["413"].description, "Request body too large");
+});
+
+Deno.test("generateOpenApiSpec emits x-requires for required capabilities", async () => {
+  const spec = await generateFixtureSpec();
+
+  assertEquals(
+    spec.paths["src/core/fixtures/routes/api/issues"].get["x-requires"],
+    ["auth", "database"],
+  );
+  assertEquals(spec.paths[USER_PATH].get["x-requires"], undefined);
+});
+
+Deno.test("generateOpenApiSpec documents security schemes and requirements", async () => {
+  const spec = await generateFixtureSpec({
+    securitySchemes: {
+      bearer: bearerAuth({ bearerFormat: "JWT", verify: () => null }),
+      apiKey: apiKeyAuth({
+        in: "header",
+        name: "X-Api-Key",
+        verify: () => null,
+      }),
+    },
+  });
+  const get = spec.paths["src/core/fixtures/routes/api/issues"].get;
+
+  assertEquals(spec.components.securitySchemes, {
+    bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+    apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" },
+  });
+  assertEquals(get.security, [{ bearer: [] }, { apiKey: [] }]);
+  assertEquals(get.responses["401"].description, "Authentication required");
+  assertEquals(spec.paths[USER_PATH].get.security, undefined);
+  assertEquals(spec.paths[USER_PATH].get.responses["401"], undefined);
+});
+
+Deno.test("generateOpenApiSpec summarizes authorization policies", async () => {
+  const spec = await generateFixtureSpec();
+  const get = spec.paths["src/core/fixtures/routes/api/issues"].get;
+
+  assertEquals(get["x-authorization"], {
+    scopes: ["issues:read"],
+    description: "Requires the issues:read scope",
+  });
+  assertEquals(get.responses["403"].description, "Forbidden");
+  assertEquals(spec.paths[USER_PATH].get["x-authorization"], undefined);
+});
+
+Deno.test("generateOpenApiSpec reads routes from a defineApi() registry", async () => {
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/users/[id]": user.handler,
+      "/api/files/:path+": {
+        GET: {
+          public: true,
+          params: z.object({ path: z.string() }),
+          handler: () => Response.json({}),
+        },
+      },
+      "/internal/jobs": { POST: { handler: () => Response.json({}) } },
+    }),
+  });
+
+  assertEquals(Object.keys(spec.paths), [
+    "/api/users/{id}",
+    "/api/files/{path}",
+  ]);
+  assertEquals(Object.keys(spec.paths["/api/users/{id}"]), [
+    "get",
+    "put",
+    "delete",
+  ]);
+  assertEquals(
+    spec.paths["/api/files/{path}"].get.parameters[0].name,
+    "path",
+  );
+});
+
+Deno.test("generateOpenApiSpec documents rate limits", async () => {
+  const spec = await generateFixtureSpec();
+  const get = spec.paths["src/core/fixtures/routes/api/issues"].get;
+
+  assertEquals(get["x-rate-limit"], {
+    window: "1m",
+    max: 60,
+    key: "principal",
+  });
+  assertEquals(get.responses["429"].description, "Rate limit exceeded");
+  assertEquals(Object.keys(get.responses["429"].headers), [
+    "Retry-After",
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+  ]);
+  assertEquals(spec.paths[USER_PATH].get["x-rate-limit"], undefined);
+  assertEquals(spec.paths[USER_PATH].get.responses["429"], undefined);
+});
+
+Deno.test("generateOpenApiSpec documents ETags and preconditions", async () => {
+  const User = z.object({ id: z.string(), version: z.number() });
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/users/[id]": {
+        GET: { public: true, etag: "hash", response: User },
+        PUT: {
+          public: true,
+          etag: { field: "version", current: () => undefined },
+          body: z.object({ name: z.string() }),
+          response: User,
+        },
+      },
+    }),
+  });
+  const { get, put } = spec.paths["/api/users/{id}"];
+  // deno-lint-ignore no-explicit-any
+  const header = (op: any, name: string) =>
+    op.parameters.find((p: { name: string }) => p.name === name);
+
+  assertEquals(header(get, "If-None-Match").required, false);
+  assertEquals(get.responses["304"].description, "Not modified");
+  assertEquals(
+    get.responses["200"].headers.ETag.description,
+    "Hash of the response body",
+  );
+  assertEquals(header(put, "If-Match").required, true);
+  assertEquals(
+    put.responses["200"].headers.ETag.description,
+    "Version of the resource (its `version` field)",
+  );
+  assertEquals(Object.keys(put.responses).includes("412"), true);
+  assertEquals(Object.keys(put.responses).includes("428"), true);
+  assertEquals(put.responses["304"], undefined);
+});
+
+Deno.test("generateOpenApiSpec documents idempotency keys", async () => {
+  const spec = await generateFixtureSpec();
+  const post = spec.paths["src/core/fixtures/routes/api/uploads"].post;
+
+  assertEquals(post["x-idempotency"], { required: false });
+  const header = post.parameters.find((p: { name: string }) =>
+    p.name === "Idempotency-Key"
+  );
+  assertEquals(header.in, "header");
+  assertEquals(header.required, false);
+  assertEquals(header.schema.maxLength, 255);
+  assertEquals(
+    post.responses["409"].description,
+    "A request with this Idempotency-Key is in progress",
+  );
+  assertEquals(
+    post.responses["422"].description,
+    "Idempotency-Key reused with a different payload",
+  );
+  assertEquals(spec.paths[USER_PATH].put["x-idempotency"], undefined);
+});
+
+Deno.test("generateOpenApiSpec merges idempotency problems with validation problems", async () => {
+  const api = defineApi({
+    "/orders": {
+      POST: {
+        public: true,
+        idempotent: { required: true },
+        validationStatus: 422,
+        body: z.object({ item: z.string() }),
+      },
+    },
+  });
+
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({ api });
+  const { responses } = spec.paths["/orders"].post;
+  assertEquals(
+    responses["422"].description,
+    "Request validation failed; Idempotency-Key reused with a different payload",
+  );
+  assertEquals(responses["422"].content["application/problem+json"].schema, {
+    anyOf: [
+      { $ref: "#/components/schemas/ValidationProblem" },
+      { $ref: "#/components/schemas/Problem" },
+    ],
+  });
+  assertEquals(
+    responses["400"].description,
+    "Malformed request; Missing Idempotency-Key",
+  );
+});
+
+Deno.test("generateOpenApiSpec marks deprecated operations", async () => {
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/users": {
+        GET: {
+          public: true,
+          sunset: { date: "2027-01-01", replacement: "/api/v2/users" },
+        },
+        POST: { public: true, deprecated: true },
+      },
+      "/api/v2/users": { GET: { public: true } },
+    }),
+  });
+
+  const { get, post } = spec.paths["/api/users"];
+  assertEquals(get.deprecated, true);
+  assertEquals(get["x-sunset"], {
+    date: "2027-01-01",
+    replacement: "/api/v2/users",
+  });
+  assertEquals(post.deprecated, true);
+  assertEquals(post["x-sunset"], undefined);
+  assertEquals(spec.paths["/api/v2/users"].get.deprecated, undefined);
+});
+
+Deno.test("generateOpenApiSpec documents timeouts", async () => {
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/reports": {
+        GET: { public: true, timeout: "30s" },
+        POST: { public: true },
+      },
+    }),
+  });
+  const { get, post } = spec.paths["/api/reports"];
+  assertEquals(get["x-timeout"], "30s");
+  assertEquals(get.responses["504"].description, "The request timed out");
+  assertEquals(post["x-timeout"], undefined);
+  assertEquals(post.responses["504"], undefined);
+
+  // deno-lint-ignore no-explicit-any
+  const global: any = await generateOpenApiSpec({
+    api: defineApi({ "/api/reports": { POST: { public: true } } }),
+    timeout: 5000,
+  });
+  const globalPost = global.paths["/api/reports"].post;
+  assertEquals(globalPost["x-timeout"], 5000);
+  assertEquals(
+    globalPost.responses["504"].description,
+    "The request timed out",
+  );
+});
+
+Deno.test("generateOpenApiSpec marks sensitive fields", async () => {
+  const password = z.string().min(8).meta({ sensitive: true });
+  const token = z.string().meta({ sensitive: true, description: "Bearer" });
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/session": {
+        POST: {
+          public: true,
+          body: z.object({ username: z.string(), password }),
+          response: z.object({ token }),
+        },
+      },
+    }),
+  });
+  const post = spec.paths["/api/session"].post;
+  assertEquals(
+    post.requestBody.content["application/json"].schema.properties.password,
+    { type: "string", minLength: 8, writeOnly: true, "x-sensitive": true },
+  );
+  assertEquals(
+    post.responses["200"].content["application/json"].schema.properties.token,
+    { type: "string", description: "Bearer", "x-sensitive": true },
+  );
+  // Still masked at runtime
+  assertEquals(isSensitive(password), true);
+});
+
+Deno.test("generateOpenApiSpec marks sensitive fields of shared schemas", async () => {
+  const secret = z.string().meta({ sensitive: true });
+  const Credentials = z.object({ username: z.string(), secret });
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/keys": {
+        GET: {
+          public: true,
+          query: z.object({ apiKey: secret }),
+          response: z.object({ secret }),
+        },
+        POST: {
+          public: true,
+          body: Credentials,
+          bodyName: "Credentials",
+          response: z.object({ ok: z.boolean() }),
+        },
+      },
+    }),
+  });
+  const get = spec.paths["/api/keys"].get;
+  assertEquals(get.parameters[0].schema, {
+    type: "string",
+    writeOnly: true,
+    "x-sensitive": true,
+  });
+  assertEquals(
+    get.responses["200"].content["application/json"].schema.properties.secret,
+    { type: "string", "x-sensitive": true },
+  );
+  assertEquals(spec.components.schemas.Credentials.properties.secret, {
+    type: "string",
+    writeOnly: true,
+    "x-sensitive": true,
+  });
+  // The schemas themselves are left alone
+  assertEquals(secret.meta(), { sensitive: true });
+});
+
+Deno.test("generateOpenApiSpec documents field visibility", async () => {
+  // deno-lint-ignore no-explicit-any
+  const spec: any = await generateOpenApiSpec({
+    api: defineApi({
+      "/api/me": {
+        GET: {
+          public: true,
+          response: z.object({
+            email: visibleTo(z.string(), ["admin"]).describe("Email"),
+          }),
+        },
+      },
+    }),
+  });
+  assertEquals(
+    spec.paths["/api/me"].get.responses["200"].content["application/json"]
+      .schema.properties.email,
+    { type: "string", description: "Email", "x-visible-to": ["admin"] },
+  );
+});
+
+Deno.test("generateOpenApiSpec documents one version of the API", async () => {
+  const User = z.object({ id: z.string(), fullName: z.string() });
+  const UserV1 = z.object({ id: z.string(), name: z.string() });
+  const api = defineApi({
+    "/api/users": {
+      POST: {
+        public: true,
+        body: z.object({ fullName: z.string() }),
+        response: User,
+        versions: {
+          "1": { body: z.object({ name: z.string() }), response: UserV1 },
+        },
+      },
+    },
+  });
+
+  // deno-lint-ignore no-explicit-any
+  const v1: any = await generateOpenApiSpec({ api, version: "1" });
+  assertEquals(v1.info.version, "1");
+  const { post } = v1.paths["/api/users"];
+  assertEquals(
+    Object.keys(post.requestBody.content["application/json"].schema.properties),
+    ["name"],
+  );
+  assertEquals(
+    Object.keys(
+      post.responses["200"].content["application/json"].schema.properties,
+    ),
+    ["id", "name"],
+  );
+
+  // deno-lint-ignore no-explicit-any
+  const latest: any = await generateOpenApiSpec({ api });
+  assertEquals(
+    Object.keys(
+      latest.paths["/api/users"].post.requestBody.content["application/json"]
+        .schema.properties,
+    ),
+    ["fullName"],
+  );
+});
@@ -0,0 +1,121 @@
+/**
+ * Problem Details (RFC 9457)
+ *
+ * Error responses are sent as `application/problem+json` so clients can act
+ * on structured fields instead of parsing error strings.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457
+ * @module
+ */
+
+import { z } from "zod";
+import type { ValidationIssue } from "./types.ts";
+import type { ValidationError } from "./validation.ts";
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+/** Problem type URIs used by the built-in error responses */
+export const PROBLEM_TYPES = {
+  validation: "urn:typed-endpoints:problem:validation-error",
+  malformedRequest: "urn:typed-endpoints:problem:malformed-request",
+  payloadTooLarge: "urn:typed-endpoints:problem:payload-too-large",
+  unsupportedMediaType: "urn:typed-endpoints:problem:unsupported-media-type",
+} as const;
+
+/** RFC 9457 problem details object */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+/** Problem details for a request that failed schema validation */
+export interface ValidationProblemDetails extends ProblemDetails {
+  issues: ValidationIssue[];
+}
+
+/** Zod schema for ValidationIssue (used in generated OpenAPI specs) */
+export const ValidationIssueSchema = z.object({
+  path: z.array(z.union([z.string(), z.number()])),
+  code: z.string(),
+  message: z.string(),
+  location: z.enum(["body", "query", "params", "headers", "cookies"]),
+});
+
+/** Zod schema for ProblemDetails */
+export const ProblemDetailsSchema = z.looseObject({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string().optional(),
+  instance: z.string().optional(),
+});
+
+/** Zod schema for ValidationProblemDetails */
+export const ValidationProblemSchema = ProblemDetailsSchema.extend({
+  issues: z.array(ValidationIssueSchema),
+});
+
+/**
+ * Build a problem details object from a failed validation.
+ * Unparseable requests (malformed JSON, bad URL) always use 400; oversized
+ * bodies use 413 and unaccepted content types 415.
+ */
+export function validationProblem(
+  error: ValidationError,
+  status: 400 | 422 = 400,
+): ValidationProblemDetails {
+  if (error.type === "size") {
+    return {
+      type: PROBLEM_TYPES.payloadTooLarge,
+      title: "Payload too large",
+      status: 413,
+      detail: error.error,
+      issues: [],
+    };
+  }
+
+  if (error.type === "contentType") {
+    return {
+      type: PROBLEM_TYPES.unsupportedMediaType,
+      title: "Unsupported media type",
+      status: 415,
+      detail: error.error,
+      issues: [],
+    };
+  }
+
+  if (error.issues.length === 0) {
+    return {
+      type: PROBLEM_TYPES.malformedRequest,
+      title: "Malformed request",
+      status: 400,
+      detail: error.error,
+      issues: [],
+    };
+  }
+
+  return {
+    type: PROBLEM_TYPES.validation,
+    title: "Request validation failed",
+    status,
+    detail: error.error,
+    issues: error.issues,
+  };
+}
+
+/** Create an `application/problem+json` response */
+export function problemResponse(
+  problem: ProblemDetails,
+  headers?: HeadersInit,
+): Response {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", PROBLEM_CONTENT_TYPE);
+  return new Response(JSON.stringify(problem), {
+    status: problem.status,
+    headers: responseHeaders,
+  });
+}
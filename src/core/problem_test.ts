@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/assert";
+import {
+  PROBLEM_CONTENT_TYPE,
+  PROBLEM_TYPES,
+  problemResponse,
+  validationProblem,
+} from "./problem.ts";
+
+const issue = {
+  path: ["email"],
+  code: "invalid_format",
+  message: "Invalid email address",
+  location: "body" as const,
+};
+
+Deno.test("validationProblem builds problem details from issues", () => {
+  const problem = validationProblem({
+    success: false,
+    error: "Validation error: email: Invalid email address",
+    type: "body",
+    issues: [issue],
+  });
+
+  assertEquals(problem, {
+    type: PROBLEM_TYPES.validation,
+    title: "Request validation failed",
+    status: 400,
+    detail: "Validation error: email: Invalid email address",
+    issues: [issue],
+  });
+});
+
+Deno.test("validationProblem uses the requested status", () => {
+  const problem = validationProblem(
+    { success: false, error: "", type: "body", issues: [issue] },
+    422,
+  );
+  assertEquals(problem.status, 422);
+});
+
+Deno.test("validationProblem always uses 400 for malformed requests", () => {
+  const problem = validationProblem(
+    { success: false, error: "Invalid JSON body", type: "json", issues: [] },
+    422,
+  );
+  assertEquals(problem.type, PROBLEM_TYPES.malformedRequest);
+  assertEquals(problem.status, 400);
+});
+
+Deno.test("validationProblem maps body size and content type errors", () => {
+  const tooLarge = validationProblem({
+    success: false,
+    error: "Request body exceeds 10 bytes",
+    type: "size",
+    issues: [],
+  });
+  assertEquals(tooLarge.type, PROBLEM_TYPES.payloadTooLarge);
+  assertEquals(tooLarge.status, 413);
+
+  const unsupported = validationProblem({
+    success: false,
+    error: 'Unsupported content type "text/plain"',
+    type: "contentType",
+    issues: [],
+  }, 422);
+  assertEquals(unsupported.type, PROBLEM_TYPES.unsupportedMediaType);
+  assertEquals(unsupported.status, 415);
+});
+
+Deno.test("problemResponse sets status and problem+json content type", async () => {
+  const response = problemResponse(
+    { type: "about:blank", title: "Not Found", status: 404 },
+    { "X-Request-Id": "abc" },
+  );
+
+  assertEquals(response.status, 404);
+  assertEquals(response.headers.get("Content-Type"), PROBLEM_CONTENT_TYPE);
+  assertEquals(response.headers.get("X-Request-Id"), "abc");
+  assertEquals(await response.json(), {
+    type: "about:blank",
+    title: "Not Found",
+    status: 404,
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Query and Path Parameter Serialization
+ *
+ * Query strings and path params arrive as strings. These helpers decode them
+ * in the endpoint's declared style and coerce values to what the schema
+ * expects (numbers, booleans, arrays), so schemas don't need `z.coerce`.
+ * The client encodes with the same styles.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type { QueryStyle } from "./types.ts";
+
+const DELIMITERS: Partial<Record<QueryStyle, string>> = {
+  comma: ",",
+  pipe: "|",
+};
+
+/** Matches deepObject keys like `filter[status]` or `a[b][c]` */
+const DEEP_KEY = /^([^[\]]+)((?:\[[^[\]]+\])+)$/;
+
+type ZodDef = Record<string, unknown> & { type?: string };
+
+function defOf(schema: z.ZodType): ZodDef {
+  return schema._zod.def as unknown as ZodDef;
+}
+
+/** Unwrap optional/default/pipe wrappers to the schema that checks the value */
+function unwrap(schema: z.ZodType): z.ZodType {
+  const def = defOf(schema);
+  switch (def.type) {
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "catch":
+    case "readonly":
+    case "nonoptional":
+      return unwrap(def.innerType as z.ZodType);
+    case "pipe":
+      return unwrap(def.in as z.ZodType);
+    case "lazy":
+      return unwrap((def.getter as () => z.ZodType)());
+    default:
+      return schema;
+  }
+}
+
+/**
+ * Coerce a decoded string value towards a schema.
+ * Numbers, bigints and booleans are converted when the string is a valid
+ * representation; arrays accept a single value (or a delimited string);
+ * object fields are coerced recursively. Anything else is left unchanged for
+ * the schema to report.
+ */
+export function coerceValue(
+  value: unknown,
+  schema: z.ZodType,
+  style: QueryStyle = "form",
+): unknown {
+  const inner = unwrap(schema);
+  const def = defOf(inner);
+
+  switch (def.type) {
+    case "number":
+      if (typeof value === "string" && value.trim() !== "") {
+        const n = Number(value);
+        return Number.isNaN(n) ? value : n;
+      }
+      return value;
+    case "bigint":
+      if (typeof value === "string" && /^-?\d+$/.test(value.trim())) {
+        return BigInt(value.trim());
+      }
+      return value;
+    case "boolean":
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      return value;
+    case "literal": {
+      const values = def.values as unknown[];
+      if (typeof value === "string" && !values.includes(value)) {
+        return values.find((v) => String(v) === value) ?? value;
+      }
+      return value;
+    }
+    case "array": {
+      const element = def.element as z.ZodType;
+      const delimiter = DELIMITERS[style];
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = delimiter
+          ? value.flatMap((v) => typeof v === "string" ? v.split(delimiter) : v)
+          : value;
+      } else if (typeof value === "string") {
+        items = delimiter ? value.split(delimiter) : [value];
+      } else {
+        return value;
+      }
+      return items.map((item) => coerceValue(item, element, style));
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return value;
+      }
+      const shape = def.shape as Record<string, z.ZodType>;
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        if (key in result) {
+          result[key] = coerceValue(result[key], fieldSchema, style);
+        }
+      }
+      return result;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse URLSearchParams preserving array values for duplicate keys.
+ * Single values remain strings, duplicate keys become arrays.
+ */
+export function parseSearchParams(
+  searchParams: URLSearchParams,
+): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    result[key] = values.length === 1 ? values[0] : values;
+  }
+  return result;
+}
+
+/** Keys that would reach Object.prototype through a bracket path */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Set a value at a bracket path, e.g. ["filter", "status"] */
+function setDeep(
+  target: Record<string, unknown>,
+  path: string[],
+  value: unknown,
+): void {
+  let current = target;
+  for (const key of path.slice(0, -1)) {
+    const next = Object.hasOwn(current, key) ? current[key] : undefined;
+    if (typeof next !== "object" || next === null || Array.isArray(next)) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[path[path.length - 1]] = value;
+}
+
+/**
+ * Decode a query string in the given style.
+ * Repeated keys become arrays in every style; "deepObject" additionally nests
+ * bracketed keys (`filter[status]=open` -> `{ filter: { status: "open" } }`).
+ * Pass the query schema to coerce values to the types it expects.
+ */
+export function parseQuery(
+  searchParams: URLSearchParams,
+  style: QueryStyle = "form",
+  schema?: z.ZodType,
+): Record<string, unknown> {
+  const flat = parseSearchParams(searchParams);
+
+  let result: Record<string, unknown> = flat;
+  if (style === "deepObject") {
+    result = {};
+    for (const [key, value] of Object.entries(flat)) {
+      const match = key.match(DEEP_KEY);
+      if (!match) {
+        result[key] = value;
+        continue;
+      }
+      const path = [match[1], ...match[2].slice(1, -1).split("][")];
+      // Drop keys like `__proto__[polluted]` rather than pollute prototypes
+      if (path.some((segment) => UNSAFE_KEYS.has(segment))) continue;
+      setDeep(result, path, value);
+    }
+  }
+
+  return schema
+    ? coerceValue(result, schema, style) as Record<string, unknown>
+    : result;
+}
+
+/** Append object properties as bracketed keys (`filter[status]=open`) */
+function appendDeep(
+  params: URLSearchParams,
+  prefix: string,
+  value: Record<string, unknown>,
+): void {
+  for (const [key, v] of Object.entries(value)) {
+    appendValue(params, `${prefix}[${key}]`, v, "deepObject");
+  }
+}
+
+function appendValue(
+  params: URLSearchParams,
+  key: string,
+  value: unknown,
+  style: QueryStyle,
+): void {
+  if (value === undefined || value === null) return;
+
+  if (Array.isArray(value)) {
+    const items = value.filter((v) => v !== undefined && v !== null);
+    const delimiter = DELIMITERS[style];
+    if (delimiter) {
+      if (items.length > 0) {
+        params.append(key, items.map(String).join(delimiter));
+      }
+    } else {
+      for (const item of items) params.append(key, String(item));
+    }
+  } else if (typeof value === "object" && !(value instanceof Date)) {
+    appendDeep(params, key, value as Record<string, unknown>);
+  } else {
+    params.append(key, String(value));
+  }
+}
+
+/**
+ * Encode query parameters in the given style.
+ * Arrays are repeated keys ("form"), or joined with "," ("comma") or "|"
+ * ("pipe"). Objects are always encoded with bracketed keys.
+ */
+export function serializeQuery(
+  query: Record<string, unknown>,
+  style: QueryStyle = "form",
+): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    appendValue(params, key, value, style);
+  }
+  return params;
+}
@@ -0,0 +1,147 @@
+import { assertEquals } from "@std/assert";
+import { z } from "zod";
+import { coerceValue, parseQuery, serializeQuery } from "./query.ts";
+
+// coerceValue tests
+
+Deno.test("coerceValue converts numbers and booleans", () => {
+  const schema = z.object({
+    page: z.number().int(),
+    draft: z.boolean(),
+    id: z.bigint(),
+    name: z.string(),
+  });
+  assertEquals(
+    coerceValue({
+      page: "2",
+      draft: "false",
+      id: "9007199254740993",
+      name: "7",
+    }, schema),
+    { page: 2, draft: false, id: 9007199254740993n, name: "7" },
+  );
+});
+
+Deno.test("coerceValue leaves invalid values for the schema to reject", () => {
+  const schema = z.object({ page: z.number(), draft: z.boolean() });
+  assertEquals(
+    coerceValue({ page: "abc", draft: "yes" }, schema),
+    { page: "abc", draft: "yes" },
+  );
+});
+
+Deno.test("coerceValue unwraps optional and default schemas", () => {
+  const schema = z.object({
+    limit: z.number().default(10),
+    verbose: z.boolean().optional(),
+  });
+  assertEquals(coerceValue({ limit: "5", verbose: "1" }, schema), {
+    limit: 5,
+    verbose: true,
+  });
+});
+
+Deno.test("coerceValue wraps single values for array schemas", () => {
+  const schema = z.object({ ids: z.array(z.number()) });
+  assertEquals(coerceValue({ ids: "3" }, schema), { ids: [3] });
+});
+
+Deno.test("coerceValue matches numeric literals", () => {
+  const schema = z.object({ version: z.literal([1, 2]) });
+  assertEquals(coerceValue({ version: "2" }, schema), { version: 2 });
+});
+
+// parseQuery tests
+
+const listQuery = z.object({
+  tags: z.array(z.string()).optional(),
+  ids: z.array(z.number()).optional(),
+});
+
+Deno.test("parseQuery form style uses repeated keys", () => {
+  const params = new URLSearchParams("tags=a&tags=b&ids=1");
+  assertEquals(parseQuery(params, "form", listQuery), {
+    tags: ["a", "b"],
+    ids: [1],
+  });
+});
+
+Deno.test("parseQuery comma style splits delimited values", () => {
+  const params = new URLSearchParams("tags=a,b&ids=1,2");
+  assertEquals(parseQuery(params, "comma", listQuery), {
+    tags: ["a", "b"],
+    ids: [1, 2],
+  });
+});
+
+Deno.test("parseQuery pipe style splits delimited values", () => {
+  const params = new URLSearchParams("tags=a|b");
+  assertEquals(parseQuery(params, "pipe", listQuery), { tags: ["a", "b"] });
+});
+
+Deno.test("parseQuery deepObject style nests bracketed keys", () => {
+  const params = new URLSearchParams(
+    "filter[status]=open&filter[priority]=2&filter[range][max]=5&q=bug",
+  );
+  const schema = z.object({
+    filter: z.object({
+      status: z.string(),
+      priority: z.number(),
+      range: z.object({ max: z.number() }),
+    }),
+    q: z.string(),
+  });
+  assertEquals(parseQuery(params, "deepObject", schema), {
+    filter: { status: "open", priority: 2, range: { max: 5 } },
+    q: "bug",
+  });
+});
+
+Deno.test("parseQuery deepObject style ignores prototype keys", () => {
+  const params = new URLSearchParams(
+    "__proto__[polluted]=yes&filter[constructor][prototype][polluted]=yes" +
+      "&filter[status]=open",
+  );
+  assertEquals(parseQuery(params, "deepObject"), {
+    filter: { status: "open" },
+  });
+  assertEquals(({} as Record<string, unknown>).polluted, undefined);
+});
+
+Deno.test("parseQuery without schema keeps strings", () => {
+  const params = new URLSearchParams("page=1&tag=a&tag=b");
+  assertEquals(parseQuery(params), { page: "1", tag: ["a", "b"] });
+});
+
+// serializeQuery tests
+
+Deno.test("serializeQuery encodes arrays per style", () => {
+  const query = { tags: ["a", "b"], page: 1 };
+  assertEquals(serializeQuery(query).toString(), "tags=a&tags=b&page=1");
+  assertEquals(serializeQuery(query, "comma").toString(), "tags=a%2Cb&page=1");
+  assertEquals(serializeQuery(query, "pipe").toString(), "tags=a%7Cb&page=1");
+});
+
+Deno.test("serializeQuery encodes objects with bracketed keys", () => {
+  const query = { filter: { status: "open", range: { max: 5 } } };
+  assertEquals(
+    decodeURIComponent(serializeQuery(query, "deepObject").toString()),
+    "filter[status]=open&filter[range][max]=5",
+  );
+});
+
+Deno.test("serializeQuery round-trips through parseQuery", () => {
+  const schema = z.object({
+    ids: z.array(z.number()),
+    filter: z.object({ done: z.boolean() }),
+  });
+  const query = { ids: [1, 2], filter: { done: true } };
+  for (const style of ["form", "comma", "pipe"] as const) {
+    const params = serializeQuery({ ids: query.ids }, style);
+    assertEquals(parseQuery(params, style, schema), { ids: [1, 2] });
+  }
+  assertEquals(
+    parseQuery(serializeQuery(query, "deepObject"), "deepObject", schema),
+    query,
+  );
+});
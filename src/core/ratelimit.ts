@@ -0,0 +1,212 @@
+/**
+ * Rate Limiting
+ *
+ * Declarative per-endpoint limits: `rateLimit: { window: "1m", max: 60 }`.
+ * Requests are counted in fixed windows per client key, through a pluggable
+ * store (in memory by default, or Deno KV to share counts across instances).
+ * Responses carry `RateLimit-*` headers; exceeding the limit gets a 429
+ * problem response with `Retry-After`.
+ *
+ * @module
+ */
+
+import type { ProblemDetails } from "./problem.ts";
+import { principalId } from "./authorization.ts";
+import { parseDuration } from "./duration.ts";
+
+/**
+ * Who a limit applies to:
+ * - "ip": the client address reported by the adapter
+ * - "principal": the authenticated principal (falls back to the IP)
+ * - a function deriving a key from the request and principal
+ */
+export type RateLimitKey =
+  | "ip"
+  | "principal"
+  // deno-lint-ignore no-explicit-any
+  | ((req: Request, principal: any) => string | Promise<string>);
+
+/** Rate limit declared on an endpoint */
+export interface RateLimitPolicy {
+  /** Window length: milliseconds, or a duration like "30s", "1m", "1h" */
+  window: string | number;
+  /** Requests allowed per key and window */
+  max: number;
+  /** Default: "ip" */
+  key?: RateLimitKey;
+}
+
+/** Request count of a key in its current window */
+export interface RateLimitHit {
+  count: number;
+  /** When the window ends, in epoch milliseconds */
+  resetAt: number;
+}
+
+/** Counts requests per key; shared by all endpoints of a handler set */
+export interface RateLimitStore {
+  /** Count one request for `key` and return the window's total */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/** Outcome of a rate limit check, with the headers to send */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  headers: Record<string, string>;
+}
+
+/** Convert a window like "1m" or "500ms" to milliseconds */
+export function parseWindow(window: string | number): number {
+  return parseDuration(window, "rate limit window");
+}
+
+/**
+ * In-memory store. Counts are per process, so each instance enforces its own
+ * limit; use kvRateLimitStore() to share them.
+ */
+export function memoryRateLimitStore(): RateLimitStore {
+  // Windows by length: within one length, the order windows started in is
+  // the order they expire in, so expired ones are dropped from the front
+  const windowsByLength = new Map<number, Map<string, RateLimitHit>>();
+
+  return {
+    hit(key, windowMs) {
+      const now = Date.now();
+      let windows = windowsByLength.get(windowMs);
+      if (!windows) {
+        windows = new Map();
+        windowsByLength.set(windowMs, windows);
+      }
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        for (const expiring of windowsByLength.values()) {
+          for (const [k, v] of expiring) {
+            if (v.resetAt > now) break;
+            expiring.delete(k);
+          }
+        }
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.delete(key);
+        windows.set(key, entry);
+      }
+      entry.count++;
+      return Promise.resolve({ ...entry });
+    },
+  };
+}
+
+/**
+ * Deno KV store, for limits shared across instances. Each window is a KV
+ * entry that expires with it.
+ *
+ * @example
+ * ```ts
+ * const kv = await Deno.openKv();
+ * createApiHandlers(def, { rateLimitStore: kvRateLimitStore(kv) });
+ * ```
+ */
+export function kvRateLimitStore(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey = ["rate-limit"],
+): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const start = Math.floor(Date.now() / windowMs) * windowMs;
+      const entryKey = [...prefix, key, start];
+      const resetAt = start + windowMs;
+
+      // Optimistic increment: retry when another request won the race
+      while (true) {
+        const entry = await kv.get<number>(entryKey);
+        const count = (entry.value ?? 0) + 1;
+        const result = await kv.atomic()
+          .check(entry)
+          .set(entryKey, count, { expireIn: windowMs })
+          .commit();
+        if (result.ok) return { count, resetAt };
+      }
+    },
+  };
+}
+
+/** The client key a policy limits, e.g. "ip:203.0.113.7" */
+export async function rateLimitKey(
+  policy: RateLimitPolicy,
+  req: Request,
+  principal: unknown,
+  ip: string | undefined,
+): Promise<string> {
+  const key = policy.key ?? "ip";
+  if (typeof key === "function") {
+    return `custom:${await key(req, principal)}`;
+  }
+  if (key === "principal") {
+    const id = principalId(principal);
+    if (id !== undefined) return `principal:${id}`;
+  }
+  return `ip:${ip ?? "unknown"}`;
+}
+
+/** Count a request against a policy and build the RateLimit headers */
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  store: RateLimitStore,
+  key: string,
+): Promise<RateLimitResult> {
+  const windowMs = parseWindow(policy.window);
+  const { count, resetAt } = await store.hit(key, windowMs);
+  const allowed = count <= policy.max;
+  const remaining = Math.max(0, policy.max - count);
+  const reset = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(policy.max),
+    "RateLimit-Remaining": String(remaining),
+    "RateLimit-Reset": String(reset),
+    "RateLimit-Policy": `${policy.max};w=${Math.ceil(windowMs / 1000)}`,
+  };
+  if (!allowed) headers["Retry-After"] = String(reset);
+
+  return { allowed, limit: policy.max, remaining, resetAt, headers };
+}
+
+/** 429 problem for a request over the limit */
+export function rateLimitProblem(policy: RateLimitPolicy): ProblemDetails {
+  return {
+    type: "about:blank",
+    title: "Too Many Requests",
+    status: 429,
+    detail: `Rate limit of ${policy.max} requests per ${
+      typeof policy.window === "number" ? `${policy.window}ms` : policy.window
+    } exceeded`,
+  };
+}
+
+/** Copy of a response with the rate limit headers added */
+export function withRateLimitHeaders(
+  response: Response,
+  result: RateLimitResult,
+): Response {
+  const limited = new Response(response.body, response);
+  for (const [name, value] of Object.entries(result.headers)) {
+    limited.headers.set(name, value);
+  }
+  return limited;
+}
+
+/** Summary of a policy for OpenAPI (`x-rate-limit`) and generated clients */
+export function describeRateLimit(policy: RateLimitPolicy): {
+  window: string | number;
+  max: number;
+  key: "ip" | "principal" | "custom";
+} {
+  const key = policy.key ?? "ip";
+  return {
+    window: policy.window,
+    max: policy.max,
+    key: typeof key === "function" ? "custom" : key,
+  };
+}
@@ -0,0 +1,137 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  checkRateLimit,
+  describeRateLimit,
+  kvRateLimitStore,
+  memoryRateLimitStore,
+  parseWindow,
+  rateLimitKey,
+  withRateLimitHeaders,
+} from "./ratelimit.ts";
+
+const req = new Request("http://localhost/api/test");
+
+Deno.test("parseWindow converts durations to milliseconds", () => {
+  assertEquals(parseWindow("500ms"), 500);
+  assertEquals(parseWindow("30s"), 30_000);
+  assertEquals(parseWindow("1m"), 60_000);
+  assertEquals(parseWindow("2h"), 7_200_000);
+  assertEquals(parseWindow(1500), 1500);
+  assertThrows(() => parseWindow("1 minute"), Error, "Invalid rate limit");
+  for (const window of [0, -1000, NaN, Infinity, "0s"]) {
+    assertThrows(() => parseWindow(window), Error, "Invalid rate limit");
+  }
+});
+
+Deno.test("memoryRateLimitStore counts per key and resets with the window", async () => {
+  const store = memoryRateLimitStore();
+
+  assertEquals((await store.hit("a", 20)).count, 1);
+  assertEquals((await store.hit("a", 20)).count, 2);
+  assertEquals((await store.hit("b", 20)).count, 1);
+
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assertEquals((await store.hit("a", 20)).count, 1);
+});
+
+Deno.test("memoryRateLimitStore renews windows behind longer ones", async () => {
+  const store = memoryRateLimitStore();
+
+  assertEquals((await store.hit("long", 60_000)).count, 1);
+  assertEquals((await store.hit("short", 20)).count, 1);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assertEquals((await store.hit("short", 20)).count, 1);
+  assertEquals((await store.hit("long", 60_000)).count, 2);
+});
+
+Deno.test("kvRateLimitStore counts in Deno KV", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const store = kvRateLimitStore(kv);
+    await store.hit("a", 60_000);
+    const { count, resetAt } = await store.hit("a", 60_000);
+    assertEquals(count, 2);
+    assertEquals(resetAt % 60_000, 0);
+    assertEquals((await store.hit("b", 60_000)).count, 1);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("checkRateLimit reports remaining requests and rejects over the limit", async () => {
+  const store = memoryRateLimitStore();
+  const policy = { window: "1m", max: 2 };
+
+  const first = await checkRateLimit(policy, store, "k");
+  assertEquals(first.allowed, true);
+  assertEquals(first.headers["RateLimit-Limit"], "2");
+  assertEquals(first.headers["RateLimit-Remaining"], "1");
+  assertEquals(first.headers["RateLimit-Policy"], "2;w=60");
+  assertEquals(first.headers["Retry-After"], undefined);
+
+  await checkRateLimit(policy, store, "k");
+  const third = await checkRateLimit(policy, store, "k");
+  assertEquals(third.allowed, false);
+  assertEquals(third.remaining, 0);
+  assertEquals(third.headers["Retry-After"], third.headers["RateLimit-Reset"]);
+});
+
+Deno.test("rateLimitKey resolves ip, principal and custom keys", async () => {
+  const window = "1m";
+  assertEquals(
+    await rateLimitKey({ window, max: 1 }, req, undefined, "10.0.0.1"),
+    "ip:10.0.0.1",
+  );
+  assertEquals(
+    await rateLimitKey(
+      { window, max: 1, key: "principal" },
+      req,
+      { id: 42 },
+      "10.0.0.1",
+    ),
+    "principal:42",
+  );
+  // Anonymous requests fall back to the client address
+  assertEquals(
+    await rateLimitKey(
+      { window, max: 1, key: "principal" },
+      req,
+      undefined,
+      "10.0.0.1",
+    ),
+    "ip:10.0.0.1",
+  );
+  assertEquals(
+    await rateLimitKey(
+      { window, max: 1, key: (r) => r.headers.get("X-Tenant") ?? "none" },
+      new Request("http://localhost", { headers: { "X-Tenant": "acme" } }),
+      undefined,
+      undefined,
+    ),
+    "custom:acme",
+  );
+});
+
+Deno.test("withRateLimitHeaders copies the response with headers added", async () => {
+  const store = memoryRateLimitStore();
+  const result = await checkRateLimit({ window: "1m", max: 5 }, store, "k");
+  const response = withRateLimitHeaders(
+    Response.redirect("http://localhost/next", 302),
+    result,
+  );
+
+  assertEquals(response.status, 302);
+  assertEquals(response.headers.get("Location"), "http://localhost/next");
+  assertEquals(response.headers.get("RateLimit-Remaining"), "4");
+});
+
+Deno.test("describeRateLimit hides key functions", () => {
+  assertEquals(
+    describeRateLimit({ window: "1m", max: 60, key: () => "x" }),
+    { window: "1m", max: 60, key: "custom" },
+  );
+  assertEquals(
+    describeRateLimit({ window: 1000, max: 5 }),
+    { window: 1000, max: 5, key: "ip" },
+  );
+});
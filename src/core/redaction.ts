@@ -0,0 +1,134 @@
+/**
+ * Sensitive Fields
+ *
+ * Schema fields marked `.meta({ sensitive: true })` hold passwords, tokens
+ * or personal data. Their values are masked wherever the runtime writes data
+ * outside the response: access logs, validation messages and protocol
+ * session dumps. OpenAPI documents them with `x-sensitive`.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+
+/** Replaces sensitive values in logs and dumps */
+export const REDACTED = "[REDACTED]";
+
+/** Message of validation issues on sensitive fields, which may echo values */
+export const SENSITIVE_ISSUE_MESSAGE = "Invalid value";
+
+type ZodDef = Record<string, unknown> & { type?: string };
+
+function defOf(schema: z.ZodType): ZodDef {
+  return schema._zod.def as unknown as ZodDef;
+}
+
+/** The schema beneath an optional/default wrapper or a pipe's input */
+function wrapped(schema: z.ZodType): z.ZodType | undefined {
+  const def = defOf(schema);
+  if ("innerType" in def) return def.innerType as z.ZodType;
+  return def.type === "pipe" ? def.in as z.ZodType : undefined;
+}
+
+/**
+ * Whether a field is marked sensitive, looking through optional/default
+ * wrappers. Call `.meta()` after checks like `.min()`, which return a schema
+ * without it.
+ */
+export function isSensitive(schema: z.ZodType): boolean {
+  for (
+    let current: z.ZodType | undefined = schema;
+    current;
+    current = wrapped(current)
+  ) {
+    if (current.meta()?.sensitive === true) return true;
+  }
+  return false;
+}
+
+/** The shapes a value of the schema may have: union options, unwrapped */
+function variants(schema: z.ZodType): z.ZodType[] {
+  let inner = schema;
+  for (let next = wrapped(inner); next; next = wrapped(inner)) inner = next;
+  const def = defOf(inner);
+  return def.type === "union"
+    ? (def.options as z.ZodType[]).flatMap(variants)
+    : [inner];
+}
+
+/**
+ * Copy of `data` with the values of sensitive fields replaced by REDACTED,
+ * following the schema's objects, arrays, records and unions.
+ */
+export function redact(data: unknown, schema: z.ZodType | undefined): unknown {
+  if (!schema || data === undefined) return data;
+  if (isSensitive(schema)) return REDACTED;
+  return variants(schema).reduce(redactShape, data);
+}
+
+function redactShape(data: unknown, schema: z.ZodType): unknown {
+  const def = defOf(schema);
+  if (def.type === "array" && Array.isArray(data)) {
+    return data.map((item) => redact(item, def.element as z.ZodType));
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return data;
+  }
+  if (def.type === "object") {
+    const shape = def.shape as Record<string, z.ZodType>;
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        Object.hasOwn(shape, key) ? redact(value, shape[key]) : value,
+      ]),
+    );
+  }
+  if (def.type === "record") {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        redact(value, def.valueType as z.ZodType),
+      ]),
+    );
+  }
+  return data;
+}
+
+/** Whether the value at `path` is a sensitive field or inside one */
+export function isSensitivePath(
+  schema: z.ZodType,
+  path: readonly PropertyKey[],
+): boolean {
+  if (isSensitive(schema)) return true;
+  if (path.length === 0) return false;
+  const [key, ...rest] = path;
+  return variants(schema).some((variant) => {
+    const def = defOf(variant);
+    switch (def.type) {
+      case "object": {
+        const shape = def.shape as Record<string, z.ZodType>;
+        return typeof key === "string" && Object.hasOwn(shape, key) &&
+          isSensitivePath(shape[key], rest);
+      }
+      case "array":
+        return isSensitivePath(def.element as z.ZodType, rest);
+      case "record":
+        return isSensitivePath(def.valueType as z.ZodType, rest);
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * An issue's message, or SENSITIVE_ISSUE_MESSAGE for sensitive fields: custom
+ * messages may quote the rejected value.
+ */
+export function issueMessage(
+  issue: z.ZodError["issues"][number],
+  schema: z.ZodType,
+): string {
+  return isSensitivePath(schema, issue.path)
+    ? SENSITIVE_ISSUE_MESSAGE
+    : issue.message;
+}
@@ -0,0 +1,90 @@
+import { assertEquals } from "@std/assert";
+import { z } from "zod";
+import {
+  isSensitive,
+  isSensitivePath,
+  issueMessage,
+  redact,
+  REDACTED,
+  SENSITIVE_ISSUE_MESSAGE,
+} from "./redaction.ts";
+
+const secret = z.string().min(8).meta({ sensitive: true });
+
+Deno.test("isSensitive looks through optional and default wrappers", () => {
+  assertEquals(isSensitive(secret), true);
+  assertEquals(isSensitive(secret.optional()), true);
+  assertEquals(isSensitive(secret.nullable().default(null)), true);
+  assertEquals(isSensitive(z.string()), false);
+  assertEquals(isSensitive(z.string().meta({ description: "Name" })), false);
+});
+
+Deno.test("redact masks sensitive fields following the schema's shape", () => {
+  const schema = z.object({
+    name: z.string(),
+    password: secret,
+    tokens: z.array(z.object({ id: z.string(), value: secret })),
+    keys: z.record(z.string(), secret),
+    contact: z.union([
+      z.object({ email: secret }),
+      z.object({ phone: secret.optional() }),
+    ]),
+  });
+  assertEquals(
+    redact({
+      name: "alice",
+      password: "hunter22",
+      tokens: [{ id: "t1", value: "abc" }],
+      keys: { github: "ghp_1" },
+      contact: { phone: "555-0100" },
+      extra: "kept",
+    }, schema),
+    {
+      name: "alice",
+      password: REDACTED,
+      tokens: [{ id: "t1", value: REDACTED }],
+      keys: { github: REDACTED },
+      contact: { phone: REDACTED },
+      extra: "kept",
+    },
+  );
+});
+
+Deno.test("redact leaves data without a schema or sensitive fields", () => {
+  const data = { name: "alice" };
+  assertEquals(redact(data, undefined), data);
+  assertEquals(redact(data, z.object({ name: z.string() })), data);
+  assertEquals(redact(undefined, secret), undefined);
+  assertEquals(redact("hunter22", secret), REDACTED);
+});
+
+Deno.test("isSensitivePath finds sensitive fields and their children", () => {
+  const schema = z.object({
+    user: z.object({ name: z.string(), password: secret }),
+    card: z.object({ number: z.string() }).meta({ sensitive: true }),
+  });
+  assertEquals(isSensitivePath(schema, ["user", "password"]), true);
+  assertEquals(isSensitivePath(schema, ["card", "number"]), true);
+  assertEquals(isSensitivePath(schema, ["user", "name"]), false);
+  assertEquals(isSensitivePath(schema, ["missing"]), false);
+});
+
+Deno.test("issueMessage masks messages of sensitive fields", () => {
+  const schema = z.object({
+    name: z.string(),
+    password: z.string().refine((value) => value.length > 8, {
+      error: (issue) => `"${issue.input}" is too short`,
+    }).meta({ sensitive: true }),
+  });
+  const result = schema.safeParse({ name: 1, password: "hunter2" });
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(
+      result.error.issues.map((issue) => issueMessage(issue, schema)),
+      [
+        "Invalid input: expected string, received number",
+        SENSITIVE_ISSUE_MESSAGE,
+      ],
+    );
+  }
+});
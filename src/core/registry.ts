@@ -0,0 +1,101 @@
+/**
+ * API Registry
+ *
+ * A programmatic alternative to the routes directory: `defineApi()` collects
+ * endpoint definitions keyed by path, for routes built in code (feature flags,
+ * plugin packages). The OpenAPI and type generators take a registry instead of
+ * a directory, and the fetch, Node and Hono adapters can serve one.
+ *
+ * @module
+ */
+
+import type { ApiDef } from "./types.ts";
+import { stripHandlers } from "./runtime.ts";
+
+/**
+ * Routes keyed by path pattern (`/users/[id]` or `/users/:id`). Each entry is
+ * either method definitions (`{ GET: endpoint(...) }`) or handlers created by
+ * an adapter's createApiHandlers(), which carry `__apiDef`.
+ */
+export type ApiRoutes = Record<string, Record<string, unknown>>;
+
+/** Routes registered with defineApi() */
+export interface ApiRegistry<TRoutes extends ApiRoutes = ApiRoutes> {
+  readonly routes: TRoutes;
+  /** API definitions without handlers, keyed by path pattern */
+  readonly apiDefs: Record<string, ApiDef>;
+}
+
+/** The API definition of a route entry, whether handlers or definitions */
+export function routeApiDef(entry: Record<string, unknown>): ApiDef {
+  const { __apiDef } = entry as { __apiDef?: ApiDef };
+  return __apiDef ?? stripHandlers(entry);
+}
+
+/** Same route regardless of param names and syntax */
+function routeKey(path: string): string {
+  return path
+    .replace(/\[\.\.\.\w+\]|:\w+[+*]/g, "*")
+    .replace(/\[\w+\]|:\w+/g, ":");
+}
+
+/**
+ * Register routes in code, for generators and adapters.
+ * Throws on paths not starting with "/" and on duplicate routes such as
+ * `/users/[id]` and `/users/:userId`.
+ *
+ * @example
+ * ```ts
+ * export const api = defineApi({
+ *   "/api/users": { POST: createUser },
+ *   "/api/users/[id]": { GET: getUser, DELETE: deleteUser },
+ *   ...(flags.billing ? billingRoutes : {}),
+ * });
+ *
+ * await generateOpenApiSpec({ api });
+ * Deno.serve(createFetchHandler(api));
+ * ```
+ */
+export function defineApi<const TRoutes extends ApiRoutes>(
+  routes: TRoutes,
+): ApiRegistry<TRoutes> {
+  const apiDefs: Record<string, ApiDef> = {};
+  const seen = new Map<string, string>();
+  for (const [path, entry] of Object.entries(routes)) {
+    if (!path.startsWith("/")) {
+      throw new Error(`defineApi: route path must start with "/": ${path}`);
+    }
+    const key = routeKey(path);
+    const existing = seen.get(key);
+    if (existing) {
+      throw new Error(`defineApi: routes ${existing} and ${path} overlap`);
+    }
+    seen.set(key, path);
+    apiDefs[path] = routeApiDef(entry);
+  }
+  return { routes, apiDefs };
+}
+
+/** Check whether a value was created by defineApi() */
+export function isApiRegistry(value: unknown): value is ApiRegistry {
+  return typeof value === "object" && value !== null &&
+    "routes" in value && "apiDefs" in value;
+}
+
+/**
+ * Method definitions of a registry's routes, for adapters that create their
+ * own handlers. Routes registered as adapter handlers can't be re-wrapped.
+ */
+export function registryDefinitions(
+  registry: ApiRegistry,
+  adapter: string,
+): ApiRoutes {
+  for (const [path, entry] of Object.entries(registry.routes)) {
+    if ("__apiDef" in entry) {
+      throw new Error(
+        `${adapter} can't serve ${path}: it holds handlers from createApiHandlers(); register its endpoint definitions instead`,
+      );
+    }
+  }
+  return registry.routes;
+}
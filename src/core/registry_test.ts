@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "zod";
+import { defineApi, isApiRegistry } from "./registry.ts";
+
+Deno.test("defineApi strips handlers from endpoint definitions", () => {
+  const api = defineApi({
+    "/users/[id]": {
+      GET: {
+        params: z.object({ id: z.string() }),
+        handler: () => Response.json({}),
+      },
+    },
+  });
+
+  assertEquals(Object.keys(api.apiDefs), ["/users/[id]"]);
+  assertEquals("handler" in api.apiDefs["/users/[id]"].GET!, false);
+  assertEquals(isApiRegistry(api), true);
+  assertEquals(isApiRegistry(api.routes), false);
+});
+
+Deno.test("defineApi uses __apiDef from adapter handlers", () => {
+  const apiDef = { GET: { public: true } };
+  const api = defineApi({
+    "/health": { GET: () => Response.json({}), __apiDef: apiDef },
+  });
+
+  assertEquals(api.apiDefs["/health"], apiDef);
+});
+
+Deno.test("defineApi rejects invalid and overlapping paths", () => {
+  assertThrows(
+    () => defineApi({ "users": {} }),
+    Error,
+    'route path must start with "/": users',
+  );
+  assertThrows(
+    () => defineApi({ "/users/[id]": {}, "/users/:userId": {} }),
+    Error,
+    "routes /users/[id] and /users/:userId overlap",
+  );
+});
@@ -0,0 +1,125 @@
+/**
+ * Response Validation
+ *
+ * Checks handler responses against the schema declared for their status code.
+ * `response` and `responses` otherwise only feed OpenAPI and type generation,
+ * so this is what keeps undeclared fields from reaching clients.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type { ApiMethodDef } from "./types.ts";
+import { problemResponse } from "./problem.ts";
+import { issueMessage } from "./redaction.ts";
+
+export interface ResponseValidationOptions {
+  /**
+   * - "strict": invalid responses are replaced by a 500 problem response
+   * - "log": invalid responses are logged and sent unchanged
+   */
+  mode: "strict" | "log";
+  /** Remove properties the schema does not declare. Default: true */
+  strip?: boolean;
+}
+
+/**
+ * Create a JSON response with the given status. Handlers receive this as a
+ * typed `respond` helper; `undefined` data sends an empty body (e.g. 204).
+ */
+export function respond(
+  status: number,
+  data: unknown,
+  init: ResponseInit = {},
+): Response {
+  if (data === undefined) {
+    return new Response(null, { ...init, status });
+  }
+  return Response.json(data, { ...init, status });
+}
+
+/**
+ * Look up the schema declared for a status code.
+ * 200 uses `response`, falling back to `responses[200]`.
+ */
+export function responseSchemaFor(
+  def: Pick<ApiMethodDef, "response" | "responses">,
+  status: number,
+): z.ZodType | undefined {
+  if (status === 200 && def.response) {
+    return def.response;
+  }
+  const entry = def.responses?.[status];
+  if (!entry) return undefined;
+  return "schema" in entry ? entry.schema : entry;
+}
+
+/**
+ * Validate a JSON response against the schema declared for its status.
+ * Responses without a declared schema, or without a JSON body, pass through.
+ */
+export async function validateResponse(
+  response: Response,
+  def: Pick<ApiMethodDef, "response" | "responses">,
+  options: ResponseValidationOptions,
+): Promise<Response> {
+  const schema = responseSchemaFor(def, response.status);
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (!schema || !contentType.includes("application/json")) {
+    return response;
+  }
+
+  const text = await response.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return invalidResponse(response, text, options, "Invalid JSON body");
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const details = result.error.issues
+      .map((e) => `${e.path.join(".")}: ${issueMessage(e, schema)}`)
+      .join(", ");
+    return invalidResponse(response, text, options, details);
+  }
+
+  const strip = options.strip ?? true;
+  return rebuildResponse(
+    response,
+    strip ? JSON.stringify(result.data) : text,
+  );
+}
+
+function invalidResponse(
+  response: Response,
+  text: string,
+  options: ResponseValidationOptions,
+  details: string,
+): Response {
+  console.error(
+    `Response validation failed (status ${response.status}): ${details}`,
+  );
+
+  if (options.mode === "log") {
+    return rebuildResponse(response, text);
+  }
+
+  return problemResponse({
+    type: "about:blank",
+    title: "Internal Server Error",
+    status: 500,
+  });
+}
+
+/** Copy status and headers onto a new body (the original is consumed) */
+export function rebuildResponse(response: Response, body: string): Response {
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,100 @@
+import { assertEquals } from "@std/assert";
+import { z } from "zod";
+import { responseSchemaFor, validateResponse } from "./response.ts";
+
+const UserSchema = z.object({ id: z.string(), name: z.string() });
+const NotFoundSchema = z.object({ error: z.string() });
+
+const def = {
+  response: UserSchema,
+  responses: { 404: { schema: NotFoundSchema, name: "NotFound" } },
+};
+
+// Silence expected validation logs
+function withoutConsoleError<T>(fn: () => Promise<T>): Promise<T> {
+  const original = console.error;
+  console.error = () => {};
+  return fn().finally(() => {
+    console.error = original;
+  });
+}
+
+// responseSchemaFor tests
+
+Deno.test("responseSchemaFor uses response for 200", () => {
+  assertEquals(responseSchemaFor(def, 200), UserSchema);
+});
+
+Deno.test("responseSchemaFor unwraps named responses", () => {
+  assertEquals(responseSchemaFor(def, 404), NotFoundSchema);
+});
+
+Deno.test("responseSchemaFor returns undefined for undeclared status", () => {
+  assertEquals(responseSchemaFor(def, 500), undefined);
+});
+
+// validateResponse tests
+
+Deno.test("validateResponse strips undeclared fields", async () => {
+  const response = await validateResponse(
+    Response.json({ id: "1", name: "Alice", passwordHash: "secret" }),
+    def,
+    { mode: "strict" },
+  );
+
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { id: "1", name: "Alice" });
+});
+
+Deno.test("validateResponse keeps undeclared fields when strip is false", async () => {
+  const response = await validateResponse(
+    Response.json({ id: "1", name: "Alice", extra: true }),
+    def,
+    { mode: "strict", strip: false },
+  );
+
+  assertEquals(await response.json(), { id: "1", name: "Alice", extra: true });
+});
+
+Deno.test("validateResponse uses the schema for the returned status", async () => {
+  const response = await validateResponse(
+    Response.json({ error: "Not found", stack: "at ..." }, { status: 404 }),
+    def,
+    { mode: "strict" },
+  );
+
+  assertEquals(response.status, 404);
+  assertEquals(await response.json(), { error: "Not found" });
+});
+
+Deno.test("validateResponse replaces invalid responses in strict mode", async () => {
+  const response = await withoutConsoleError(() =>
+    validateResponse(Response.json({ id: 1 }), def, { mode: "strict" })
+  );
+
+  assertEquals(response.status, 500);
+  assertEquals(
+    response.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+  assertEquals((await response.json()).title, "Internal Server Error");
+});
+
+Deno.test("validateResponse sends invalid responses unchanged in log mode", async () => {
+  const response = await withoutConsoleError(() =>
+    validateResponse(Response.json({ id: 1 }), def, { mode: "log" })
+  );
+
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { id: 1 });
+});
+
+Deno.test("validateResponse passes through responses without a schema", async () => {
+  const original = new Response("ok", {
+    status: 202,
+    headers: { "Content-Type": "text/plain" },
+  });
+  const response = await validateResponse(original, def, { mode: "strict" });
+
+  assertEquals(response, original);
+});
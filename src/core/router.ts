@@ -0,0 +1,110 @@
+/**
+ * Path Router
+ *
+ * URLPattern-based routing shared by the adapters that don't bring their own
+ * router (fetch, Node). Patterns use the file-style syntax of Fresh routes
+ * (`/users/[id]`, `/files/[...path]`) or URLPattern's `:id`.
+ *
+ * @module
+ */
+
+import { problemResponse } from "./problem.ts";
+
+/**
+ * Convert a file-style route path to a URLPattern pathname.
+ * `[id]` becomes `:id` and `[...path]` a catch-all `:path+`; `:id` style
+ * patterns pass through unchanged.
+ */
+export function routePattern(path: string): string {
+  return path
+    .replace(/\[\.\.\.(\w+)\]/g, ":$1+")
+    .replace(/\[(\w+)\]/g, ":$1");
+}
+
+/** Sort key: static routes first, catch-alls last */
+function routeRank(path: string): number {
+  const params = path.match(/\[\w+\]|:\w+/g)?.length ?? 0;
+  const catchAll = /\[\.\.\.\w+\]|:\w+[+*]/.test(path) ? 1 : 0;
+  return catchAll * 1000 + params;
+}
+
+function decodeParams(
+  groups: Record<string, string | undefined>,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(groups)) {
+    if (value === undefined) continue;
+    try {
+      params[key] = decodeURIComponent(value);
+    } catch {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+/** A matched route with its decoded path params */
+export interface RouteMatch<T> {
+  path: string;
+  value: T;
+  params: Record<string, string>;
+}
+
+/** Finds the route for a pathname */
+export type Router<T> = (pathname: string) => RouteMatch<T> | undefined;
+
+/**
+ * Compile routes keyed by path pattern into a matcher.
+ * Static routes match before parameterized ones, catch-alls last.
+ */
+export function createRouter<T>(
+  routes: Record<string, T>,
+  basePath = "",
+): Router<T> {
+  const compiled = Object.entries(routes)
+    .map(([path, value]) => ({
+      path,
+      value,
+      pattern: new URLPattern({ pathname: basePath + routePattern(path) }),
+      rank: routeRank(path),
+    }))
+    .sort((a, b) => a.rank - b.rank);
+
+  return (pathname) => {
+    for (const route of compiled) {
+      const match = route.pattern.exec({ pathname });
+      if (match) {
+        return {
+          path: route.path,
+          value: route.value,
+          params: decodeParams(match.pathname.groups),
+        };
+      }
+    }
+    return undefined;
+  };
+}
+
+/** 404 problem response for a path no route matches */
+export function notFoundResponse(pathname: string): Response {
+  return problemResponse({
+    type: "about:blank",
+    title: "Not Found",
+    status: 404,
+    detail: `No route matches ${pathname}`,
+  });
+}
+
+/** 405 problem response listing the route's methods in `Allow` */
+export function methodNotAllowedResponse(
+  method: string,
+  pathname: string,
+  allowed: string[],
+): Response {
+  return problemResponse({
+    type: "about:blank",
+    title: "Method Not Allowed",
+    status: 405,
+    detail: `${method} is not supported for ${pathname}`,
+  }, { Allow: allowed.join(", ") });
+}
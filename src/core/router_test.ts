@@ -0,0 +1,19 @@
+import { assertEquals } from "@std/assert";
+import { createRouter } from "./router.ts";
+
+Deno.test("createRouter matches static routes before params and catch-alls", () => {
+  const match = createRouter({
+    "/files/[...path]": "files",
+    "/users/[id]": "user",
+    "/users/me": "me",
+  }, "/api");
+
+  assertEquals(match("/api/users/me")?.value, "me");
+  assertEquals(match("/api/users/7"), {
+    path: "/users/[id]",
+    value: "user",
+    params: { id: "7" },
+  });
+  assertEquals(match("/api/files/a/b%20c")?.params, { path: "a/b c" });
+  assertEquals(match("/users/7"), undefined);
+});
@@ -0,0 +1,899 @@
+/**
+ * Request Handling Runtime
+ *
+ * The framework-agnostic request pipeline behind every adapter: authenticate,
+ * rate limit, resolve capabilities, validate, authorize, run the handler
+ * (once per Idempotency-Key), then validate, filter and tag the response.
+ * Lifecycle hooks, the request's span and the access log observe each
+ * request. Adapters only translate their framework's context into something
+ * with a `Request` and path params.
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type {
+  ApiDef,
+  ApiMethodDef,
+  DeclaredResponses,
+  HttpMethod,
+  Respond,
+  ResponseDefs,
+  SseEvent,
+  SseEventDef,
+  SseMethodDef,
+  ValidatedRequest,
+} from "./types.ts";
+import { problemResponse, validationProblem } from "./problem.ts";
+import { methodNotAllowedResponse } from "./router.ts";
+import {
+  type CorsConfig,
+  corsHeaders,
+  type CorsOptions,
+  corsPolicy,
+  declaredRequestHeaders,
+  preflightHeaders,
+  withHeaders,
+} from "./cors.ts";
+import {
+  assertProviders,
+  type Capabilities,
+  CapabilityError,
+  type Providers,
+  resolveCapabilities,
+} from "./capabilities.ts";
+import {
+  type AuthorizationPolicy,
+  filterResponse,
+  isAuthorized,
+  principalRoles,
+} from "./authorization.ts";
+import {
+  assertSecuritySchemes,
+  authenticate,
+  type EndpointPrincipal,
+  type SecuritySchemes,
+} from "./security.ts";
+import {
+  checkRateLimit,
+  memoryRateLimitStore,
+  parseWindow,
+  rateLimitKey,
+  rateLimitProblem,
+  type RateLimitStore,
+  withRateLimitHeaders,
+} from "./ratelimit.ts";
+import {
+  checkPrecondition,
+  CONDITIONAL_READ_METHODS,
+  CONDITIONAL_WRITE_METHODS,
+  etagPolicy,
+  type EtagStrategy,
+  notModified,
+  withEtag,
+} from "./etag.ts";
+import {
+  handleIdempotent,
+  idempotencyPolicy,
+  type IdempotencyStore,
+  idempotencyTtl,
+  memoryIdempotencyStore,
+} from "./idempotency.ts";
+import {
+  respond,
+  type ResponseValidationOptions,
+  validateResponse,
+} from "./response.ts";
+import { type RequestLimits, validateRequest } from "./validation.ts";
+import { type DeprecationDef, deprecationHeaders } from "./deprecation.ts";
+import {
+  assertVersions,
+  downgradeResponse,
+  selectVersion,
+  upgradedDef,
+  versionHeaders,
+  type VersioningOptions,
+} from "./versioning.ts";
+import { parseTimeout, withTimeout } from "./timeout.ts";
+import { ApiError, errorProblem } from "./errors.ts";
+import {
+  type LifecycleHooks,
+  observeRequest,
+  type RequestLifecycle,
+} from "./hooks.ts";
+import type { Tracer } from "./tracing.ts";
+import { type AccessLogConfig, accessLogger } from "./accesslog.ts";
+
+/** What the runtime needs from a framework's request context */
+export interface RequestContext {
+  req: Request;
+  params: Record<string, string>;
+  /** Client address, for `rateLimit` keyed by "ip" */
+  ip?: string;
+  /** Matched route pattern; scopes rate limits and idempotency keys */
+  route?: string;
+  /**
+   * Path the adapter routed on, relative to where it's mounted; path
+   * versions are read from it. Default: the path of `req.url`
+   */
+  pathname?: string;
+}
+
+/**
+ * Options shared by all handlers of an API definition.
+ * `maxBodySize` and `maxJsonDepth` apply to every endpoint that doesn't set
+ * its own.
+ */
+export interface HandlerOptions extends RequestLimits {
+  /** Capability providers for endpoints that declare `requires` */
+  // deno-lint-ignore no-explicit-any
+  providers?: Providers<any>;
+
+  /** Security schemes for endpoints that declare `security` */
+  securitySchemes?: SecuritySchemes;
+
+  /**
+   * Where endpoints with `rateLimit` count requests. Default: in memory,
+   * per process.
+   */
+  rateLimitStore?: RateLimitStore;
+
+  /**
+   * Versions the API serves and how requests pick one. Method definitions
+   * list older versions that differ in `versions`.
+   */
+  versioning?: VersioningOptions;
+
+  /**
+   * Timeout of every endpoint that doesn't set its own, as a duration like
+   * "30s" or milliseconds. No timeout by default.
+   */
+  timeout?: string | number;
+
+  /** Callbacks around every request: onRequest, onResponse, ... */
+  hooks?: LifecycleHooks;
+
+  /**
+   * Starts a span per request, continuing the trace of its `traceparent`
+   * header. See memoryTracer().
+   */
+  tracer?: Tracer;
+
+  /**
+   * Log an entry per request: `true` for JSON lines on the console, or a
+   * logger. Fields marked `.meta({ sensitive: true })` are masked. Off by
+   * default.
+   */
+  accessLog?: AccessLogConfig;
+
+  /**
+   * CORS for every route: `true` for any origin, or options. Method
+   * definitions can override it with their own `cors`. Off by default.
+   */
+  cors?: CorsConfig;
+
+  /**
+   * Where `idempotent` endpoints keep responses for replay. Default: in
+   * memory, per process.
+   */
+  idempotencyStore?: IdempotencyStore;
+
+  /**
+   * Validate JSON responses against the schema declared for their status.
+   * Off by default.
+   *
+   * @example
+   * ```ts
+   * createApiHandlers(def, {
+   *   responseValidation: {
+   *     mode: Deno.env.get("DENO_ENV") === "production" ? "log" : "strict",
+   *   },
+   * });
+   * ```
+   */
+  responseValidation?: ResponseValidationOptions;
+}
+
+/**
+ * Value a handler may return: a Response, or data for the `response` schema
+ * (sent as a 200 JSON response)
+ */
+export type HandlerResult<TResponseSchema> =
+  | Response
+  | (TResponseSchema extends z.ZodType ? z.input<TResponseSchema> : never);
+
+/** Method definition with a handler receiving the adapter's context */
+export interface EndpointDef<
+  TContext,
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+  TCapabilities = Record<never, never>,
+  TPrincipal = unknown,
+> extends
+  ApiMethodDef<
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema
+  > {
+  response?: TResponseSchema;
+  responses?: TResponses;
+  authorize?: AuthorizationPolicy<
+    TPrincipal,
+    ValidatedRequest<
+      TBodySchema extends z.ZodType ? z.infer<TBodySchema> : unknown,
+      TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown,
+      TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown,
+      THeadersSchema extends z.ZodType ? z.infer<THeadersSchema> : unknown,
+      TCookiesSchema extends z.ZodType ? z.infer<TCookiesSchema> : unknown
+    >
+  >;
+  etag?: EtagStrategy<
+    TPrincipal,
+    ValidatedRequest<
+      TBodySchema extends z.ZodType ? z.infer<TBodySchema> : unknown,
+      TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown,
+      TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown,
+      THeadersSchema extends z.ZodType ? z.infer<THeadersSchema> : unknown,
+      TCookiesSchema extends z.ZodType ? z.infer<TCookiesSchema> : unknown
+    >
+  >;
+  handler: (
+    ctx: TContext,
+    validated:
+      & ValidatedRequest<
+        TBodySchema extends z.ZodType ? z.infer<TBodySchema> : unknown,
+        TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown,
+        TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown,
+        THeadersSchema extends z.ZodType ? z.infer<THeadersSchema> : unknown,
+        TCookiesSchema extends z.ZodType ? z.infer<TCookiesSchema> : unknown
+      >
+      & {
+        /** JSON response for a declared status, typed by its schema */
+        respond: Respond<DeclaredResponses<TResponseSchema, TResponses>>;
+        /** Principal returned by the verifier of the scheme that matched */
+        principal: TPrincipal;
+        /** Aborted when the client disconnects or the `timeout` elapses */
+        signal: AbortSignal;
+        /**
+         * `traceparent` for outgoing requests (the request's span, or the
+         * incoming header), e.g. for createClient()
+         */
+        traceparent: string | undefined;
+      },
+    /** Resolved `requires` capabilities (see withProviders()) */
+    capabilities: TCapabilities,
+  ) =>
+    | HandlerResult<NoInfer<TResponseSchema>>
+    | Promise<HandlerResult<NoInfer<TResponseSchema>>>;
+}
+
+/** SSE method definition with a generator handler */
+export interface SseEndpointDef<
+  TContext,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  TEvents extends SseEventDef = SseEventDef,
+> extends SseMethodDef<TQuerySchema, TParamsSchema, TEvents> {
+  handler: (
+    ctx: TContext,
+    validated: {
+      query: TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown;
+      params: TParamsSchema extends z.ZodType ? z.infer<TParamsSchema>
+        : unknown;
+    },
+    signal: AbortSignal,
+  ) => AsyncGenerator<SseEvent<TEvents>, void, unknown>;
+}
+
+/**
+ * endpoint() bound to a provider registry and security schemes, as returned
+ * by an adapter's withProviders(). `requires` must name registered providers
+ * and `security` registered schemes; the handler's third argument holds the
+ * resolved capabilities, and `principal` is typed by the schemes.
+ */
+export type BoundEndpoint<
+  TContext,
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes,
+> = <
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+  const TRequires extends readonly (keyof TProviders & string)[] = [],
+  const TSecurity extends readonly (keyof TSchemes & string)[] = [],
+>(
+  def:
+    & EndpointDef<
+      TContext,
+      TBodySchema,
+      TQuerySchema,
+      TParamsSchema,
+      THeadersSchema,
+      TCookiesSchema,
+      TResponseSchema,
+      TResponses,
+      Capabilities<TProviders, TRequires>,
+      EndpointPrincipal<TSchemes, TSecurity>
+    >
+    & { requires?: TRequires; security?: TSecurity },
+) => EndpointDef<
+  TContext,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses,
+  Capabilities<TProviders, TRequires>,
+  EndpointPrincipal<TSchemes, TSecurity>
+>;
+
+/**
+ * Create SSE response from async generator.
+ */
+function createSseResponse<TEvents extends SseEventDef>(
+  generator: AsyncGenerator<SseEvent<TEvents>, void, unknown>,
+  signal: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const event of generator) {
+          if (signal.aborted) break;
+
+          let message = "";
+          if (event.event) {
+            message += `event: ${String(event.event)}\n`;
+          }
+          if (event.id) {
+            message += `id: ${event.id}\n`;
+          }
+          if (event.retry !== undefined) {
+            message += `retry: ${event.retry}\n`;
+          }
+          message += `data: ${JSON.stringify(event.data)}\n\n`;
+
+          controller.enqueue(encoder.encode(message));
+        }
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error("SSE stream error:", error);
+        }
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+/** Check if a definition is an SSE endpoint */
+function isSseEndpoint(def: unknown): boolean {
+  return typeof def === "object" && def !== null && "events" in def;
+}
+
+/** A request handler for one method of an API definition */
+export type MethodHandler<TContext> = (ctx: TContext) => Promise<Response>;
+
+/** A MethodHandler that reports to the request's lifecycle */
+type PipelineHandler<TContext> = (
+  ctx: TContext,
+  lifecycle: RequestLifecycle,
+) => Promise<Response>;
+
+/** Extracts the Request and path params from a framework's context */
+export type ContextAdapter<TContext> = (ctx: TContext) => RequestContext;
+
+/** Hostname of a connection's remote address, for RequestContext `ip` */
+export function remoteHostname(
+  addr: Deno.Addr | undefined,
+): string | undefined {
+  return addr && "hostname" in addr ? addr.hostname : undefined;
+}
+
+/**
+ * Create the handler for one method definition (REST or SSE).
+ * Handlers and providers receive the framework's context unchanged;
+ * `toRequest` tells the runtime where its Request and path params are
+ * (by default the context itself is `{ req, params }`).
+ *
+ * Missing providers, unregistered security schemes, invalid rate limit
+ * windows, idempotency ttls, timeouts, sunset dates or versions and write
+ * ETags without `current` throw here, so they fail at startup rather than on
+ * the first request.
+ */
+export function createMethodHandler<TContext>(
+  method: string,
+  def: unknown,
+  options: HandlerOptions = {},
+  toRequest: ContextAdapter<TContext> = (ctx) => ctx as RequestContext,
+): MethodHandler<TContext> {
+  // Deprecation headers go on every response, errors included
+  const deprecation = deprecationHeaders(def as DeprecationDef);
+  const handler: PipelineHandler<TContext> = isSseEndpoint(def)
+    ? createSseHandler(
+      def as SseEndpointDef<TContext, z.ZodType, z.ZodType>,
+      toRequest,
+    )
+    : options.versioning
+    ? createVersionedHandler(method, def, options, toRequest)
+    : createEndpointHandler(method, def, options, toRequest);
+  const operationId = (def as ApiMethodDef).operationId;
+  const observers = {
+    hooks: options.hooks,
+    tracer: options.tracer,
+    accessLog: accessLogger(options.accessLog),
+    schemas: def as ApiMethodDef,
+  };
+
+  return (ctx) => {
+    const { req, route } = toRequest(ctx);
+    return observeRequest(
+      {
+        req,
+        method,
+        route: route ?? new URL(req.url).pathname,
+        ...(operationId && { operationId }),
+      },
+      observers,
+      async (lifecycle) => {
+        const response = await handler(ctx, lifecycle);
+        return deprecation ? withHeaders(response, deprecation) : response;
+      },
+    );
+  };
+}
+
+/**
+ * One handler per version of the endpoint. Requests of older versions are
+ * validated with their version's schemas and upgraded; responses downgraded.
+ */
+function createVersionedHandler<TContext>(
+  method: string,
+  def: unknown,
+  options: HandlerOptions,
+  toRequest: ContextAdapter<TContext>,
+): PipelineHandler<TContext> {
+  const versioning = options.versioning!;
+  const methodDef = def as ApiMethodDef;
+  const versions = methodDef.versions ?? {};
+
+  // Versions share stores, so limits and idempotency keys span them
+  const shared: HandlerOptions = {
+    ...options,
+    rateLimitStore: options.rateLimitStore ?? memoryRateLimitStore(),
+    idempotencyStore: options.idempotencyStore ?? memoryIdempotencyStore(),
+  };
+  const current = createEndpointHandler(method, def, shared, toRequest);
+  const older = Object.fromEntries(
+    Object.entries(versions).map(([name, version]) => [
+      name,
+      createEndpointHandler(
+        method,
+        upgradedDef(methodDef, version),
+        shared,
+        toRequest,
+      ),
+    ]),
+  );
+
+  return async (ctx, lifecycle) => {
+    const { req, pathname } = toRequest(ctx);
+    const selected = selectVersion(versioning, req, pathname);
+    if (!selected.success) return problemResponse(selected.problem);
+    const { version } = selected;
+    const response = versions[version]
+      ? await downgradeResponse(
+        await older[version](ctx, lifecycle),
+        versions[version],
+      )
+      : await current(ctx, lifecycle);
+    return withHeaders(response, versionHeaders(versioning, version));
+  };
+}
+
+function createEndpointHandler<TContext>(
+  method: string,
+  def: unknown,
+  options: HandlerOptions,
+  toRequest: ContextAdapter<TContext>,
+): PipelineHandler<TContext> {
+  const methodDef = def as EndpointDef<
+    TContext,
+    z.ZodType,
+    z.ZodType,
+    z.ZodType,
+    z.ZodType,
+    z.ZodType,
+    z.ZodType,
+    ResponseDefs,
+    Record<string, unknown>,
+    unknown
+  >;
+  const requires = methodDef.requires ?? [];
+  const providers = options.providers ?? {};
+  assertProviders(requires, providers, `${method} endpoint`);
+  const security = methodDef.security ?? [];
+  const securitySchemes = options.securitySchemes ?? {};
+  assertSecuritySchemes(security, securitySchemes, `${method} endpoint`);
+  assertVersions(options.versioning, methodDef.versions, `${method} endpoint`);
+
+  const rateLimit = methodDef.rateLimit;
+  if (rateLimit) parseWindow(rateLimit.window);
+  const rateLimitStore = options.rateLimitStore ?? memoryRateLimitStore();
+
+  const idempotency = idempotencyPolicy(methodDef.idempotent);
+  if (idempotency) idempotencyTtl(idempotency);
+  const idempotencyStore = options.idempotencyStore ??
+    memoryIdempotencyStore();
+
+  const timeout = methodDef.timeout ?? options.timeout;
+  if (timeout !== undefined) parseTimeout(timeout);
+
+  const etag = etagPolicy(methodDef.etag);
+  const conditionalWrite = etag !== undefined &&
+    CONDITIONAL_WRITE_METHODS.includes(method);
+  if (conditionalWrite && !etag.current) {
+    throw new Error(
+      `${method} endpoint uses etag without current() to check If-Match`,
+    );
+  }
+
+  return async (ctx, lifecycle) => {
+    const { req, params, ip, route: matched } = toRequest(ctx);
+    const route = matched ?? new URL(req.url).pathname;
+
+    // Authenticate before anything else reads the request
+    let principal: unknown = undefined;
+    if (security.length > 0) {
+      const auth = await authenticate(req, securitySchemes, security);
+      if (!auth.success) {
+        const problem = problemResponse(auth.problem, auth.headers);
+        if (!rateLimit) return problem;
+        // Failed attempts count per IP, so limits slow down credential guessing
+        const ipPolicy = { ...rateLimit, key: "ip" as const };
+        const key = await rateLimitKey(ipPolicy, req, undefined, ip);
+        const limit = await checkRateLimit(
+          rateLimit,
+          rateLimitStore,
+          `${method} ${route} ${key}`,
+        );
+        return limit.allowed
+          ? withRateLimitHeaders(problem, limit)
+          : problemResponse(rateLimitProblem(rateLimit), limit.headers);
+      }
+      principal = auth.principal;
+    }
+
+    // The timeout covers everything after authentication and rate limiting
+    const within = () =>
+      withTimeout(
+        req,
+        timeout,
+        (signal) =>
+          handle(ctx, req, params, route, principal, signal, lifecycle),
+      );
+
+    // Count the request once the principal is known, before any other work
+    if (!rateLimit) return await within();
+    const key = await rateLimitKey(rateLimit, req, principal, ip);
+    const limit = await checkRateLimit(
+      rateLimit,
+      rateLimitStore,
+      `${method} ${route} ${key}`,
+    );
+    if (!limit.allowed) {
+      return problemResponse(rateLimitProblem(rateLimit), limit.headers);
+    }
+    return withRateLimitHeaders(await within(), limit);
+  };
+
+  async function handle(
+    ctx: TContext,
+    req: Request,
+    params: Record<string, string>,
+    route: string,
+    principal: unknown,
+    signal: AbortSignal,
+    lifecycle: RequestLifecycle,
+  ): Promise<Response> {
+    // Resolve capabilities next so e.g. auth failures win over validation
+    let capabilities: Record<string, unknown> = {};
+    if (requires.length > 0) {
+      try {
+        capabilities = await resolveCapabilities(requires, providers, ctx);
+      } catch (error) {
+        if (error instanceof CapabilityError) {
+          return problemResponse(error.toProblem());
+        }
+        throw error;
+      }
+    }
+
+    const result = await validateRequest(
+      {
+        json: () => req.json(),
+        formData: () => req.formData(),
+        url: req.url,
+        params,
+        headers: req.headers,
+        body: req.body,
+      },
+      methodDef,
+      method,
+      options,
+    );
+
+    if (!result.success) {
+      const problem = validationProblem(result, methodDef.validationStatus);
+      await lifecycle.validationFailed(problem);
+      return problemResponse(problem);
+    }
+    lifecycle.validated(result.data);
+
+    if (
+      methodDef.authorize &&
+      !await isAuthorized(methodDef.authorize, principal, result.data)
+    ) {
+      return problemResponse({
+        type: "about:blank",
+        title: "Forbidden",
+        status: 403,
+      });
+    }
+
+    const run = async () => {
+      let returned;
+      try {
+        returned = await methodDef.handler(ctx, {
+          ...result.data,
+          respond,
+          principal,
+          signal,
+          traceparent: lifecycle.traceparent,
+        }, capabilities);
+      } catch (error) {
+        // Errors the endpoint lists become problems; anything else is a bug
+        const problem = error instanceof ApiError
+          ? errorProblem(error, methodDef.errors ?? [])
+          : undefined;
+        if (problem) return problemResponse(problem);
+        throw error;
+      }
+      let response = returned instanceof Response
+        ? returned
+        : Response.json(returned);
+      if (options.responseValidation) {
+        response = await validateResponse(
+          response,
+          methodDef,
+          options.responseValidation,
+        );
+      }
+      // Tag the whole resource, as checkPrecondition() hashes it for writes
+      if (etag) response = await withEtag(response, etag);
+      // Strip visibleTo() fields the caller's roles don't cover
+      return await filterResponse(
+        response,
+        methodDef,
+        principalRoles(principal),
+      );
+    };
+
+    // Retries of an idempotent write replay before If-Match is checked
+    const precondition = conditionalWrite
+      ? async () => {
+        const problem = await checkPrecondition(
+          etag,
+          req,
+          result.data,
+          principal,
+        );
+        return problem && problemResponse(problem);
+      }
+      : undefined;
+
+    const response = idempotency
+      ? await handleIdempotent(
+        idempotency,
+        idempotencyStore,
+        req,
+        { method, route, principal },
+        {
+          params: result.data.params,
+          query: result.data.query,
+          body: result.data.body,
+        },
+        run,
+        precondition,
+      )
+      : (await precondition?.()) ?? await run();
+    return etag && CONDITIONAL_READ_METHODS.includes(method)
+      ? notModified(req, response)
+      : response;
+  }
+}
+
+function createSseHandler<TContext>(
+  sseDef: SseEndpointDef<TContext, z.ZodType, z.ZodType>,
+  toRequest: ContextAdapter<TContext>,
+): PipelineHandler<TContext> {
+  return async (ctx, lifecycle) => {
+    const { req, params } = toRequest(ctx);
+
+    // Validate query and params only (SSE has no body)
+    const result = await validateRequest(
+      {
+        json: () => Promise.resolve(undefined),
+        url: req.url,
+        params,
+      },
+      { query: sseDef.query, params: sseDef.params },
+      "GET",
+    );
+
+    if (!result.success) {
+      const problem = validationProblem(result);
+      await lifecycle.validationFailed(problem);
+      return problemResponse(problem);
+    }
+    lifecycle.validated(result.data);
+
+    const abortController = new AbortController();
+
+    // Clean up on client disconnect
+    req.signal.addEventListener("abort", () => {
+      abortController.abort();
+    });
+
+    const generator = sseDef.handler(
+      ctx,
+      { query: result.data.query, params: result.data.params },
+      abortController.signal,
+    );
+
+    return createSseResponse(generator, abortController.signal);
+  };
+}
+
+/** Every method a route answers, keyed by method, and its `Allow` list */
+export interface RouteHandlers<TContext> {
+  handlers: Record<HttpMethod, MethodHandler<TContext>>;
+  allow: string[];
+}
+
+const ALL_METHODS: HttpMethod[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "DELETE",
+  "PATCH",
+  "HEAD",
+  "OPTIONS",
+];
+
+/**
+ * Create the handlers of a route: one per defined method, plus HEAD (derived
+ * from GET), OPTIONS (with `Allow`, and CORS preflight answers) and a 405 for
+ * every other method. Responses carry the CORS headers of their method.
+ */
+export function createRouteHandlers<TContext>(
+  apiDef: Record<string, unknown>,
+  options: HandlerOptions = {},
+  toRequest: ContextAdapter<TContext> = (ctx) => ctx as RequestContext,
+): RouteHandlers<TContext> {
+  const defs: Record<string, ApiMethodDef> = {};
+  const defined: Record<string, MethodHandler<TContext>> = {};
+  for (const [method, def] of Object.entries(apiDef)) {
+    if (!def) continue;
+    defs[method] = def as ApiMethodDef;
+    defined[method] = createMethodHandler(method, def, options, toRequest);
+  }
+
+  // HEAD runs GET and drops the body; SSE streams have nothing to send
+  if (defined.GET && !defined.HEAD && !isSseEndpoint(defs.GET)) {
+    const get = defined.GET;
+    defs.HEAD = defs.GET;
+    defined.HEAD = async (ctx) => {
+      const response = await get(ctx);
+      await response.body?.cancel();
+      return new Response(null, response);
+    };
+  }
+  const allow = [...Object.keys(defined)];
+  if (!allow.includes("OPTIONS")) allow.push("OPTIONS");
+
+  const policies = Object.fromEntries(
+    Object.entries(defs).map(([method, def]) => [
+      method,
+      corsPolicy(options.cors, def.cors),
+    ]),
+  );
+  const withCors = (
+    handler: MethodHandler<TContext>,
+    policy: CorsOptions | undefined,
+  ): MethodHandler<TContext> =>
+  async (ctx) => {
+    const response = await handler(ctx);
+    if (!policy) return response;
+    return withHeaders(response, corsHeaders(policy, toRequest(ctx).req));
+  };
+
+  const handlers = {} as Record<HttpMethod, MethodHandler<TContext>>;
+  for (const method of ALL_METHODS) {
+    const handler = defined[method];
+    if (handler) {
+      handlers[method] = withCors(handler, policies[method]);
+    } else if (method === "OPTIONS") {
+      handlers.OPTIONS = (ctx) => {
+        const { req } = toRequest(ctx);
+        const requested = req.headers.get("Access-Control-Request-Method");
+        const policy = requested ? policies[requested] : undefined;
+        const headers: Record<string, string> = { Allow: allow.join(", ") };
+        // Preflight: answer for the method the browser wants to send
+        if (requested && policy && req.headers.has("Origin")) {
+          Object.assign(
+            headers,
+            preflightHeaders(
+              policy,
+              req,
+              allow,
+              declaredRequestHeaders(
+                requested,
+                defs[requested],
+                options.securitySchemes,
+              ),
+            ),
+          );
+        }
+        return Promise.resolve(new Response(null, { status: 204, headers }));
+      };
+    } else {
+      handlers[method] = withCors((ctx) => {
+        const { req } = toRequest(ctx);
+        return Promise.resolve(
+          methodNotAllowedResponse(
+            req.method,
+            new URL(req.url).pathname,
+            allow,
+          ),
+        );
+      }, corsPolicy(options.cors, undefined));
+    }
+  }
+  return { handlers, allow };
+}
+
+/** The API definition without handlers, for OpenAPI and type generation */
+export function stripHandlers(apiDef: Record<string, unknown>): ApiDef {
+  // deno-lint-ignore no-explicit-any
+  const apiDefWithoutHandlers: Record<string, any> = {};
+  for (const [method, def] of Object.entries(apiDef)) {
+    if (!def) continue;
+    // deno-lint-ignore no-explicit-any
+    const { handler: _, ...rest } = def as Record<string, any>;
+    apiDefWithoutHandlers[method as HttpMethod] = rest;
+  }
+  return apiDefWithoutHandlers;
+}
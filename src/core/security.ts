@@ -0,0 +1,249 @@
+/**
+ * Security Schemes
+ *
+ * Authentication schemes are registered once with a verifier and referenced
+ * by name from an endpoint's `security` field. The same registry enforces
+ * them at runtime and documents them in OpenAPI (`components.securitySchemes`
+ * and per-operation `security`).
+ *
+ * @module
+ */
+
+import { parseCookies } from "./cookies.ts";
+import type { ProblemDetails } from "./problem.ts";
+
+/** Verifier result: the principal, or null/undefined to reject the credential */
+type Verified<TPrincipal> =
+  | TPrincipal
+  | null
+  | undefined
+  | Promise<TPrincipal | null | undefined>;
+
+interface SchemeBase<TPrincipal, TCredential> {
+  description?: string;
+  /** Check a credential and return the authenticated principal */
+  verify: (credential: TCredential, req: Request) => Verified<TPrincipal>;
+}
+
+/** `Authorization: Bearer <token>` */
+export interface BearerScheme<TPrincipal = unknown>
+  extends SchemeBase<TPrincipal, string> {
+  type: "bearer";
+  /** Documented token format, e.g. "JWT" */
+  bearerFormat?: string;
+}
+
+/** API key in a header, query parameter or cookie */
+export interface ApiKeyScheme<TPrincipal = unknown>
+  extends SchemeBase<TPrincipal, string> {
+  type: "apiKey";
+  in: "header" | "query" | "cookie";
+  name: string;
+}
+
+/** HTTP basic authentication */
+export interface BasicScheme<TPrincipal = unknown>
+  extends SchemeBase<TPrincipal, { username: string; password: string }> {
+  type: "basic";
+  realm?: string;
+}
+
+export type SecurityScheme<TPrincipal = unknown> =
+  | BearerScheme<TPrincipal>
+  | ApiKeyScheme<TPrincipal>
+  | BasicScheme<TPrincipal>;
+
+/** Security schemes by name */
+// deno-lint-ignore no-explicit-any
+export type SecuritySchemes = Record<string, SecurityScheme<any>>;
+
+/** Principal type for the schemes an endpoint accepts */
+export type PrincipalOf<
+  TSchemes,
+  TSecurity extends readonly PropertyKey[],
+> = {
+  [K in TSecurity[number] & keyof TSchemes]: TSchemes[K] extends
+    SecurityScheme<infer P> ? P : never;
+}[TSecurity[number] & keyof TSchemes];
+
+/** Principal for an endpoint's `security`; undefined when it has none */
+export type EndpointPrincipal<
+  TSchemes,
+  TSecurity extends readonly PropertyKey[],
+> = TSecurity extends readonly [] ? undefined
+  : PrincipalOf<TSchemes, TSecurity>;
+
+/** Bearer token scheme */
+export function bearerAuth<TPrincipal>(
+  options: Omit<BearerScheme<TPrincipal>, "type">,
+): BearerScheme<TPrincipal> {
+  return { type: "bearer", ...options };
+}
+
+/** API key scheme (header, query parameter or cookie) */
+export function apiKeyAuth<TPrincipal>(
+  options: Omit<ApiKeyScheme<TPrincipal>, "type">,
+): ApiKeyScheme<TPrincipal> {
+  return { type: "apiKey", ...options };
+}
+
+/** Session cookie scheme - an API key carried in a cookie */
+export function cookieAuth<TPrincipal>(
+  options: Omit<ApiKeyScheme<TPrincipal>, "type" | "in">,
+): ApiKeyScheme<TPrincipal> {
+  return { type: "apiKey", in: "cookie", ...options };
+}
+
+/** HTTP basic authentication scheme */
+export function basicAuth<TPrincipal>(
+  options: Omit<BasicScheme<TPrincipal>, "type">,
+): BasicScheme<TPrincipal> {
+  return { type: "basic", ...options };
+}
+
+/** Read the credential a scheme expects, or undefined when it's absent */
+function readCredential(
+  scheme: SecurityScheme,
+  req: Request,
+): unknown {
+  switch (scheme.type) {
+    case "bearer": {
+      const match = req.headers.get("Authorization")?.match(
+        /^Bearer\s+(.+)$/i,
+      );
+      return match?.[1];
+    }
+    case "basic": {
+      const match = req.headers.get("Authorization")?.match(
+        /^Basic\s+(.+)$/i,
+      );
+      if (!match) return undefined;
+      try {
+        const decoded = atob(match[1]);
+        const index = decoded.indexOf(":");
+        if (index === -1) return undefined;
+        return {
+          username: decoded.slice(0, index),
+          password: decoded.slice(index + 1),
+        };
+      } catch {
+        return undefined;
+      }
+    }
+    case "apiKey":
+      switch (scheme.in) {
+        case "header":
+          return req.headers.get(scheme.name) ?? undefined;
+        case "query":
+          return new URL(req.url).searchParams.get(scheme.name) ?? undefined;
+        case "cookie":
+          return parseCookies(req.headers.get("Cookie"))[scheme.name];
+      }
+  }
+}
+
+/** WWW-Authenticate challenge for HTTP schemes */
+function challenge(scheme: SecurityScheme): string | undefined {
+  switch (scheme.type) {
+    case "bearer":
+      return "Bearer";
+    case "basic":
+      return `Basic realm="${scheme.realm ?? "api"}"`;
+    default:
+      return undefined;
+  }
+}
+
+/** Result of authenticate() */
+export type AuthenticationResult =
+  | { success: true; scheme: string; principal: unknown }
+  | { success: false; problem: ProblemDetails; headers: Headers };
+
+/**
+ * Authenticate a request with the first of the named schemes that accepts
+ * its credential. Fails with a 401 problem and WWW-Authenticate challenges.
+ */
+export async function authenticate(
+  req: Request,
+  schemes: SecuritySchemes,
+  names: readonly string[],
+): Promise<AuthenticationResult> {
+  for (const name of names) {
+    const scheme = schemes[name];
+    const credential = readCredential(scheme, req);
+    if (credential === undefined || credential === "") continue;
+
+    // deno-lint-ignore no-explicit-any
+    const principal = await scheme.verify(credential as any, req);
+    if (principal !== null && principal !== undefined) {
+      return { success: true, scheme: name, principal };
+    }
+  }
+
+  const headers = new Headers();
+  for (const name of names) {
+    const value = challenge(schemes[name]);
+    if (value) headers.append("WWW-Authenticate", value);
+  }
+  return {
+    success: false,
+    problem: {
+      type: "about:blank",
+      title: "Unauthorized",
+      status: 401,
+      detail: `Authenticate with ${names.join(" or ")}`,
+    },
+    headers,
+  };
+}
+
+/** Check that every named scheme is registered */
+export function assertSecuritySchemes(
+  names: readonly string[],
+  schemes: SecuritySchemes,
+  label: string,
+): void {
+  const missing = names.filter((name) => !Object.hasOwn(schemes, name));
+  if (missing.length > 0) {
+    throw new Error(
+      `${label} uses unregistered security schemes: ${missing.join(", ")}`,
+    );
+  }
+}
+
+/** OpenAPI security scheme object */
+export type SecuritySchemeObject = {
+  type: "http" | "apiKey";
+  scheme?: "bearer" | "basic";
+  bearerFormat?: string;
+  in?: "header" | "query" | "cookie";
+  name?: string;
+  description?: string;
+};
+
+/** OpenAPI security scheme object for a scheme */
+export function securitySchemeObject(
+  scheme: SecurityScheme,
+): SecuritySchemeObject {
+  const description = scheme.description
+    ? { description: scheme.description }
+    : {};
+  switch (scheme.type) {
+    case "bearer":
+      return {
+        type: "http",
+        scheme: "bearer",
+        ...(scheme.bearerFormat && { bearerFormat: scheme.bearerFormat }),
+        ...description,
+      };
+    case "basic":
+      return { type: "http", scheme: "basic", ...description };
+    case "apiKey":
+      return {
+        type: "apiKey",
+        in: scheme.in,
+        name: scheme.name,
+        ...description,
+      };
+  }
+}
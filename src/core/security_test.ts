@@ -0,0 +1,136 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  apiKeyAuth,
+  assertSecuritySchemes,
+  authenticate,
+  basicAuth,
+  bearerAuth,
+  cookieAuth,
+  securitySchemeObject,
+} from "./security.ts";
+
+const schemes = {
+  bearer: bearerAuth({
+    bearerFormat: "JWT",
+    verify: (token) => token === "good" ? { id: "bearer-user" } : null,
+  }),
+  apiKey: apiKeyAuth({
+    in: "header",
+    name: "X-Api-Key",
+    verify: (key) => Promise.resolve(key === "k1" ? { id: "key-user" } : null),
+  }),
+  queryKey: apiKeyAuth({
+    in: "query",
+    name: "api_key",
+    verify: (key) => key === "q1" ? { id: "query-user" } : undefined,
+  }),
+  session: cookieAuth({
+    name: "sid",
+    verify: (sid) => sid === "s1" ? { id: "session-user" } : null,
+  }),
+  basic: basicAuth({
+    realm: "admin",
+    verify: ({ username, password }) =>
+      password === "secret" ? { id: username } : null,
+  }),
+};
+
+function request(headers: Record<string, string> = {}, query = ""): Request {
+  return new Request(`http://localhost/api${query}`, { headers });
+}
+
+Deno.test("authenticate reads credentials for each scheme type", async () => {
+  const cases: [string, Request, string][] = [
+    ["bearer", request({ Authorization: "Bearer good" }), "bearer-user"],
+    ["apiKey", request({ "x-api-key": "k1" }), "key-user"],
+    ["queryKey", request({}, "?api_key=q1"), "query-user"],
+    ["session", request({ Cookie: "theme=dark; sid=s1" }), "session-user"],
+    [
+      "basic",
+      request({ Authorization: `Basic ${btoa("ada:secret")}` }),
+      "ada",
+    ],
+  ];
+
+  for (const [name, req, id] of cases) {
+    const result = await authenticate(req, schemes, [name]);
+    assertEquals(result.success && result.principal, { id });
+    assertEquals(result.success && result.scheme, name);
+  }
+});
+
+Deno.test("authenticate accepts the first scheme that verifies", async () => {
+  const result = await authenticate(
+    request({ Authorization: "Bearer bad", "X-Api-Key": "k1" }),
+    schemes,
+    ["bearer", "apiKey"],
+  );
+  assertEquals(result.success && result.scheme, "apiKey");
+});
+
+Deno.test("authenticate fails with a 401 problem and challenges", async () => {
+  const result = await authenticate(
+    request({ Authorization: "Bearer bad" }),
+    schemes,
+    ["bearer", "basic", "apiKey"],
+  );
+
+  assertEquals(result.success, false);
+  if (result.success) return;
+  assertEquals(result.problem, {
+    type: "about:blank",
+    title: "Unauthorized",
+    status: 401,
+    detail: "Authenticate with bearer or basic or apiKey",
+  });
+  assertEquals(
+    result.headers.get("WWW-Authenticate"),
+    'Bearer, Basic realm="admin"',
+  );
+});
+
+Deno.test("authenticate ignores malformed basic credentials", async () => {
+  const result = await authenticate(
+    request({ Authorization: "Basic not-base64!" }),
+    schemes,
+    ["basic"],
+  );
+  assertEquals(result.success, false);
+});
+
+Deno.test("assertSecuritySchemes reports unregistered schemes", () => {
+  assertSecuritySchemes(["bearer"], schemes, "GET endpoint");
+  assertThrows(
+    () => assertSecuritySchemes(["bearer", "oauth"], schemes, "GET"),
+    Error,
+    "GET uses unregistered security schemes: oauth",
+  );
+  // Inherited members aren't schemes
+  assertThrows(
+    () => assertSecuritySchemes(["constructor"], schemes, "GET"),
+    Error,
+    "GET uses unregistered security schemes: constructor",
+  );
+});
+
+Deno.test("securitySchemeObject maps schemes to OpenAPI", () => {
+  assertEquals(securitySchemeObject(schemes.bearer), {
+    type: "http",
+    scheme: "bearer",
+    bearerFormat: "JWT",
+  });
+  assertEquals(securitySchemeObject(schemes.basic), {
+    type: "http",
+    scheme: "basic",
+  });
+  assertEquals(securitySchemeObject(schemes.queryKey), {
+    type: "apiKey",
+    in: "query",
+    name: "api_key",
+  });
+  assertEquals(securitySchemeObject(schemes.session), {
+    type: "apiKey",
+    in: "cookie",
+    name: "sid",
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Timeouts and Cancellation
+ *
+ * Endpoint handlers receive a `signal` that aborts when the client
+ * disconnects or the endpoint's `timeout` elapses. The runtime doesn't wait
+ * for handlers that ignore it: the request is answered with a 504 problem on
+ * timeout, or a 503 when the client went away.
+ *
+ * @module
+ */
+
+import { parseDuration } from "./duration.ts";
+import { type ProblemDetails, problemResponse } from "./problem.ts";
+
+/** Parse an endpoint timeout to milliseconds; throws on invalid durations */
+export function parseTimeout(timeout: string | number): number {
+  return parseDuration(timeout, "timeout");
+}
+
+/** Problem for requests the handler didn't answer within `timeout` (504) */
+export function timeoutProblem(timeout: string | number): ProblemDetails {
+  const limit = typeof timeout === "number" ? `${timeout}ms` : timeout;
+  return {
+    type: "about:blank",
+    title: "Gateway Timeout",
+    status: 504,
+    detail: `The request didn't complete within ${limit}`,
+  };
+}
+
+/** Problem for requests whose client disconnected first (503) */
+export function disconnectProblem(): ProblemDetails {
+  return {
+    type: "about:blank",
+    title: "Service Unavailable",
+    status: 503,
+    detail: "The client closed the request before it completed",
+  };
+}
+
+/**
+ * Run `handle` with a signal that aborts when `req.signal` does or after
+ * `timeout`. Resolves with its response, or with a 504/503 problem as soon
+ * as the signal aborts. A later response (or error) from `handle` is
+ * dropped.
+ */
+export async function withTimeout(
+  req: Request,
+  timeout: string | number | undefined,
+  handle: (signal: AbortSignal) => Promise<Response>,
+): Promise<Response> {
+  if (req.signal.aborted) return problemResponse(disconnectProblem());
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onDisconnect = () => controller.abort(req.signal.reason);
+  req.signal.addEventListener("abort", onDisconnect, { once: true });
+  const timer = timeout === undefined ? undefined : setTimeout(() => {
+    timedOut = true;
+    controller.abort(
+      new DOMException("The request timed out", "TimeoutError"),
+    );
+  }, parseTimeout(timeout));
+
+  const aborted = new Promise<Response>((resolve) => {
+    controller.signal.addEventListener("abort", () => {
+      resolve(problemResponse(
+        timedOut ? timeoutProblem(timeout!) : disconnectProblem(),
+      ));
+    }, { once: true });
+  });
+
+  try {
+    return await Promise.race([handle(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    req.signal.removeEventListener("abort", onDisconnect);
+  }
+}
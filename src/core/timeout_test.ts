@@ -0,0 +1,71 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseTimeout, timeoutProblem, withTimeout } from "./timeout.ts";
+
+function request(signal?: AbortSignal): Request {
+  return new Request("http://localhost/api/reports", { signal });
+}
+
+Deno.test("parseTimeout accepts durations and milliseconds", () => {
+  assertEquals(parseTimeout("30s"), 30_000);
+  assertEquals(parseTimeout(250), 250);
+  assertThrows(() => parseTimeout("soon"), Error, 'Invalid timeout: "soon"');
+  assertThrows(() => parseTimeout(0), Error, 'Invalid timeout: "0"');
+});
+
+Deno.test("timeoutProblem names the limit", () => {
+  assertEquals(
+    timeoutProblem("30s").detail,
+    "The request didn't complete within 30s",
+  );
+  assertEquals(
+    timeoutProblem(250).detail,
+    "The request didn't complete within 250ms",
+  );
+});
+
+Deno.test("withTimeout returns the response of fast handlers", async () => {
+  const response = await withTimeout(
+    request(),
+    "1s",
+    () => Promise.resolve(new Response("ok")),
+  );
+  assertEquals(await response.text(), "ok");
+});
+
+Deno.test("withTimeout aborts the signal and answers 504 on timeout", async () => {
+  let reason: unknown;
+  const response = await withTimeout(
+    request(),
+    5,
+    (signal) =>
+      new Promise<Response>((resolve) => {
+        signal.addEventListener("abort", () => {
+          reason = signal.reason;
+          resolve(new Response("late"));
+        });
+      }),
+  );
+  assertEquals(response.status, 504);
+  assertEquals((reason as DOMException).name, "TimeoutError");
+});
+
+Deno.test("withTimeout answers 503 when the client disconnects", async () => {
+  const controller = new AbortController();
+  const response = await withTimeout(
+    request(controller.signal),
+    undefined,
+    () => {
+      controller.abort();
+      return new Promise<Response>(() => {});
+    },
+  );
+  assertEquals(response.status, 503);
+  assertEquals((await response.json()).title, "Service Unavailable");
+
+  const gone = await withTimeout(
+    request(controller.signal),
+    "1s",
+    () => Promise.resolve(new Response("ok")),
+  );
+  assertEquals(gone.status, 503);
+});
@@ -0,0 +1,138 @@
+/**
+ * Tracing
+ *
+ * A minimal, OpenTelemetry-shaped tracer interface: the runtime starts a
+ * server span per request, named after the operationId or the route, and
+ * continues the trace of an incoming W3C `traceparent` header. Adapt an
+ * OpenTelemetry tracer to it, or use memoryTracer() in tests.
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ * @module
+ */
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+/** Identifies a span across services */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** Trace flags; bit 0 means sampled */
+  traceFlags: number;
+}
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/** Outcome of a span: "error" for failed requests */
+export interface SpanStatus {
+  code: "ok" | "error";
+  message?: string;
+}
+
+/** A span started by a Tracer */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  setStatus(status: SpanStatus): void;
+  recordException(error: unknown): void;
+  end(): void;
+}
+
+export interface SpanOptions {
+  kind?: "server" | "client" | "internal";
+  attributes?: SpanAttributes;
+  /** Span this one continues, e.g. from an incoming `traceparent` */
+  parent?: SpanContext;
+}
+
+/** Starts spans; see memoryTracer() */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * Parse a `traceparent` header. Returns undefined for missing or invalid
+ * headers, which start a new trace.
+ */
+export function parseTraceparent(
+  header: string | null | undefined,
+): SpanContext | undefined {
+  const match = header?.trim().match(
+    /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/,
+  );
+  if (!match || match[1] === "ff") return undefined;
+  const [, , traceId, spanId, flags] = match;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/** Format a span context as a `traceparent` header */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = context.traceFlags.toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/** A span recorded by memoryTracer() */
+export interface RecordedSpan {
+  name: string;
+  kind: NonNullable<SpanOptions["kind"]>;
+  context: SpanContext;
+  parentSpanId?: string;
+  attributes: SpanAttributes;
+  status?: SpanStatus;
+  exceptions: unknown[];
+  startTime: number;
+  endTime?: number;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(bytes)),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Tracer that keeps ended spans in `spans`, for tests and local debugging.
+ * Spans continue their parent's trace, or start a sampled one.
+ */
+export function memoryTracer(): Tracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  return {
+    spans,
+    startSpan(name, options = {}) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options.kind ?? "internal",
+        context: {
+          traceId: options.parent?.traceId ?? randomHex(16),
+          spanId: randomHex(8),
+          traceFlags: options.parent?.traceFlags ?? 1,
+        },
+        ...(options.parent && { parentSpanId: options.parent.spanId }),
+        attributes: { ...options.attributes },
+        exceptions: [],
+        startTime: Date.now(),
+      };
+      return {
+        spanContext: () => recorded.context,
+        setAttribute(key, value) {
+          recorded.attributes[key] = value;
+        },
+        setStatus(status) {
+          recorded.status = status;
+        },
+        recordException(error) {
+          recorded.exceptions.push(error);
+        },
+        end() {
+          if (recorded.endTime !== undefined) return;
+          recorded.endTime = Date.now();
+          spans.push(recorded);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { assertEquals } from "@std/assert";
+import {
+  formatTraceparent,
+  memoryTracer,
+  parseTraceparent,
+} from "./tracing.ts";
+
+const TRACEPARENT = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+Deno.test("parseTraceparent reads valid headers", () => {
+  const context = parseTraceparent(TRACEPARENT);
+  assertEquals(context, {
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    spanId: "00f067aa0ba902b7",
+    traceFlags: 1,
+  });
+  assertEquals(formatTraceparent(context!), TRACEPARENT);
+});
+
+Deno.test("parseTraceparent rejects invalid headers", () => {
+  assertEquals(parseTraceparent(undefined), undefined);
+  assertEquals(parseTraceparent("garbage"), undefined);
+  assertEquals(parseTraceparent(TRACEPARENT.replace(/^00/, "ff")), undefined);
+  assertEquals(
+    parseTraceparent(`00-${"0".repeat(32)}-00f067aa0ba902b7-01`),
+    undefined,
+  );
+  assertEquals(parseTraceparent(TRACEPARENT.toUpperCase()), undefined);
+});
+
+Deno.test("memoryTracer records ended spans in their parent's trace", () => {
+  const tracer = memoryTracer();
+  const parent = parseTraceparent(TRACEPARENT);
+  const span = tracer.startSpan("GET /users", {
+    kind: "server",
+    parent,
+    attributes: { "http.route": "/users" },
+  });
+  span.setAttribute("http.response.status_code", 200);
+  span.setStatus({ code: "ok" });
+  assertEquals(tracer.spans, []);
+  span.end();
+  span.end();
+
+  assertEquals(tracer.spans.length, 1);
+  const [recorded] = tracer.spans;
+  assertEquals(recorded.kind, "server");
+  assertEquals(recorded.context.traceId, parent!.traceId);
+  assertEquals(recorded.parentSpanId, parent!.spanId);
+  assertEquals(recorded.attributes, {
+    "http.route": "/users",
+    "http.response.status_code": 200,
+  });
+
+  const root = tracer.startSpan("job").spanContext();
+  assertEquals(root.traceId.length, 32);
+  assertEquals(root.spanId.length, 16);
+  assertEquals(root.traceFlags, 1);
+});
@@ -1,5 +1,14 @@
 import type { z } from "zod";
 import type { AnyPaginationMeta } from "../pagination/types.ts";
+import type { ResponseCookieDefs } from "./cookies.ts";
+import type { AuthorizationPolicy } from "./authorization.ts";
+import type { RateLimitPolicy } from "./ratelimit.ts";
+import type { IdempotencyPolicy } from "./idempotency.ts";
+import type { EtagStrategy } from "./etag.ts";
+import type { CorsConfig } from "./cors.ts";
+import type { Sunset } from "./deprecation.ts";
+import type { VersionDef } from "./versioning.ts";
+import type { CatalogError } from "./errors.ts";
 
 // Re-export pagination types for convenience
 export type {
@@ -25,28 +34,138 @@ export interface ValidatedRequest<
   TBody = unknown,
   TQuery = unknown,
   TParams = unknown,
+  THeaders = unknown,
+  TCookies = unknown,
 > {
   body: TBody;
   query: TQuery;
   params: TParams;
+  headers: THeaders;
+  cookies: TCookies;
 }
 
+/** Where a validation issue was found in the request */
+export type ValidationLocation =
+  | "body"
+  | "query"
+  | "params"
+  | "headers"
+  | "cookies";
+
+/** A single validation failure, pointing at the offending field */
+export interface ValidationIssue {
+  /** Path to the field within its location, e.g. ["address", "zip"] */
+  path: (string | number)[];
+  /** Zod issue code, e.g. "invalid_type" or "too_small" */
+  code: string;
+  message: string;
+  location: ValidationLocation;
+}
+
+/** Request body content types an endpoint can accept */
+export type BodyContentType =
+  | "application/json"
+  | "multipart/form-data"
+  | "application/x-www-form-urlencoded";
+
+/** A `responses` entry: a schema, or a schema with a component name */
+export type ResponseEntry = z.ZodType | { schema: z.ZodType; name?: string };
+
+/** Additional responses by status code */
+export type ResponseDefs = Record<number, ResponseEntry>;
+
+/**
+ * How arrays and objects are encoded in the query string:
+ * - "form": repeated keys (`tag=a&tag=b`)
+ * - "comma": comma-delimited (`tag=a,b`)
+ * - "pipe": pipe-delimited (`tag=a|b`)
+ * - "deepObject": bracketed object keys (`filter[status]=open`)
+ */
+export type QueryStyle = "form" | "comma" | "pipe" | "deepObject";
+
 export interface ApiMethodDef<
   TBodySchema extends z.ZodType | undefined = undefined,
   TQuerySchema extends z.ZodType | undefined = undefined,
   TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
 > {
   body?: TBodySchema;
+  /**
+   * Accepted body content types. Form bodies are parsed into an object
+   * (repeated fields become arrays, uploads are `File`s). Default: JSON only.
+   */
+  contentTypes?: BodyContentType[];
+  /** Maximum body size in bytes. Larger bodies get a 413. */
+  maxBodySize?: number;
+  /** Maximum nesting depth of JSON bodies */
+  maxJsonDepth?: number;
   query?: TQuerySchema;
+  /** Query string encoding for arrays and objects. Default: "form" */
+  queryStyle?: QueryStyle;
   params?: TParamsSchema;
+  /** Request headers. Keys are matched case-insensitively. */
+  headers?: THeadersSchema;
+  /** Request cookies, parsed from the Cookie header */
+  cookies?: TCookiesSchema;
+  /** Cookies set by responses (see responseCookie()) */
+  setCookies?: ResponseCookieDefs;
   response?: z.ZodType;
   responseName?: string;
   bodyName?: string;
-  responses?: Record<number, z.ZodType | { schema: z.ZodType; name?: string }>;
+  responses?: ResponseDefs;
   public?: boolean;
+  /**
+   * Accepted security schemes, by registered name. A request must satisfy
+   * one of them.
+   */
+  security?: readonly string[];
+  /** Checked against the principal before the handler runs */
+  authorize?: AuthorizationPolicy;
+  /** Requests allowed per client and window; more get a 429 */
+  rateLimit?: RateLimitPolicy;
+  /**
+   * Replay the stored response for repeats with the same Idempotency-Key.
+   * Reusing a key for a different body gets a 422.
+   */
+  idempotent?: boolean | IdempotencyPolicy;
+  /**
+   * Tag responses with an ETag: `"hash"` of the body, or a version `field`.
+   * GETs answer If-None-Match with 304; PUT, PATCH and DELETE require
+   * If-Match, checked against `current`.
+   */
+  etag?: EtagStrategy;
+  /**
+   * Longest the handler may take: a duration like "30s", or milliseconds.
+   * Slower requests get a 504. Overrides the handler options' `timeout`.
+   */
+  timeout?: string | number;
+  /** CORS for this method, merged over the handler options' `cors` */
+  cors?: CorsConfig;
+  /**
+   * Mark the method deprecated: `true`, or the date it was deprecated.
+   * Responses carry a Deprecation header.
+   */
+  deprecated?: boolean | string | Date;
+  /** Removal date and replacement of the method. Implies `deprecated`. */
+  sunset?: Sunset;
+  /**
+   * Older versions whose request or response shapes differ, keyed by version
+   * name. The handler implements the latest version.
+   */
+  versions?: Record<string, VersionDef>;
   summary?: string;
   description?: string;
   tags?: string[];
+  /** Capabilities resolved by providers before the handler runs */
+  requires?: readonly string[];
+  /**
+   * Errors of the defineErrors() catalog the handler can throw with
+   * apiError()
+   */
+  errors?: readonly CatalogError[];
+  /** Status used for validation problem responses. Default: 400 */
+  validationStatus?: 400 | 422;
   /** Operation ID for protocol step mapping and route generation */
   operationId?: string;
   /** Pagination metadata (set by pagination helpers) */
@@ -55,6 +174,8 @@ export interface ApiMethodDef<
 
 export type ApiDef = {
   [M in HttpMethod]?: ApiMethodDef<
+    z.ZodType | undefined,
+    z.ZodType | undefined,
     z.ZodType | undefined,
     z.ZodType | undefined,
     z.ZodType | undefined
@@ -76,6 +197,16 @@ export type InferParams<T extends ApiMethodDef> = T["params"] extends z.ZodType
   ? z.infer<T["params"]>
   : unknown;
 
+/** Infer headers type from schema */
+export type InferHeaders<T extends ApiMethodDef> = T["headers"] extends
+  z.ZodType ? z.infer<T["headers"]>
+  : unknown;
+
+/** Infer cookies type from schema */
+export type InferCookies<T extends ApiMethodDef> = T["cookies"] extends
+  z.ZodType ? z.infer<T["cookies"]>
+  : unknown;
+
 // =============================================================================
 // SSE Types
 // =============================================================================
@@ -93,6 +224,10 @@ export interface SseMethodDef<
   params?: TParamsSchema;
   events: TEvents;
   public?: boolean;
+  /** `true`, or the date the method was deprecated */
+  deprecated?: boolean | string | Date;
+  /** When the method will be removed and what replaces it */
+  sunset?: Sunset;
   summary?: string;
   description?: string;
   tags?: string[];
@@ -110,3 +245,33 @@ export type SseEvent<TEvents extends SseEventDef> = {
 
 /** Infer SSE events union from method def */
 export type InferSseEvents<T extends SseMethodDef> = SseEvent<T["events"]>;
+
+// =============================================================================
+// Typed Responses
+// =============================================================================
+
+/** Schema of a `responses` entry */
+export type ResponseEntrySchema<T> = T extends
+  { schema: infer S extends z.ZodType } ? S
+  : T extends z.ZodType ? T
+  : never;
+
+/** Status code to schema map for `response` (as 200) and `responses` */
+export type DeclaredResponses<TResponseSchema, TResponses> =
+  & (TResponseSchema extends z.ZodType ? { 200: TResponseSchema }
+    : Record<never, never>)
+  & {
+    [K in keyof TResponses as K extends number ? K : never]:
+      ResponseEntrySchema<TResponses[K]>;
+  };
+
+/**
+ * Typed JSON response helper. The status is limited to the declared codes and
+ * the data is typed by that code's schema.
+ */
+export type Respond<TDeclared> = <TStatus extends keyof TDeclared & number>(
+  status: TStatus,
+  data: TDeclared[TStatus] extends z.ZodType ? z.input<TDeclared[TStatus]>
+    : never,
+  init?: ResponseInit,
+) => Response;
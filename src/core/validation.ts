@@ -1,84 +1,329 @@
 import type { z } from "zod";
-import type { ApiMethodDef, ValidatedRequest } from "./types.ts";
+import type {
+  ApiMethodDef,
+  BodyContentType,
+  ValidatedRequest,
+  ValidationIssue,
+  ValidationLocation,
+} from "./types.ts";
+import { parseCookies } from "./cookies.ts";
+import { coerceValue, parseQuery } from "./query.ts";
+import { issueMessage } from "./redaction.ts";
 
-/** Format Zod validation errors into a readable string */
-function formatZodErrors(error: z.ZodError): string {
+export { parseSearchParams } from "./query.ts";
+
+/**
+ * Format Zod validation errors into a readable string. Messages of sensitive
+ * fields are masked.
+ */
+function formatZodErrors(error: z.ZodError, schema: z.ZodType): string {
   return error.issues
-    .map((e) => `${e.path.join(".")}: ${e.message}`)
+    .map((e) => `${e.path.join(".")}: ${issueMessage(e, schema)}`)
     .join(", ");
 }
 
-export interface ValidationResult<TBody, TQuery, TParams> {
+/** Convert Zod issues into structured issues tagged with their location */
+function toValidationIssues(
+  error: z.ZodError,
+  location: ValidationLocation,
+  schema: z.ZodType,
+): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map((key) => typeof key === "symbol" ? String(key) : key),
+    code: issue.code,
+    message: issueMessage(issue, schema),
+    location,
+  }));
+}
+
+export interface ValidationResult<
+  TBody,
+  TQuery,
+  TParams,
+  THeaders = unknown,
+  TCookies = unknown,
+> {
   success: true;
-  data: ValidatedRequest<TBody, TQuery, TParams>;
+  data: ValidatedRequest<TBody, TQuery, TParams, THeaders, TCookies>;
 }
 
 export interface ValidationError {
   success: false;
   error: string;
-  type: "body" | "query" | "params" | "json";
+  /** "contentType" and "size" are rejected before the body is parsed */
+  type: ValidationLocation | "json" | "contentType" | "size";
+  /** Per-field issues. Empty when the request could not be parsed at all. */
+  issues: ValidationIssue[];
 }
 
-export type ValidationOutcome<TBody, TQuery, TParams> =
-  | ValidationResult<TBody, TQuery, TParams>
+export type ValidationOutcome<
+  TBody,
+  TQuery,
+  TParams,
+  THeaders = unknown,
+  TCookies = unknown,
+> =
+  | ValidationResult<TBody, TQuery, TParams, THeaders, TCookies>
   | ValidationError;
 
 export interface RawRequest {
   json: () => Promise<unknown>;
+  /** Required for endpoints that accept form bodies */
+  formData?: () => Promise<FormData>;
+  /** Body stream. When given, maxBodySize aborts oversized bodies mid-read. */
+  body?: ReadableStream<Uint8Array> | null;
   url: string;
   params?: Record<string, string>;
+  headers?: Headers;
+}
+
+/**
+ * Collect request headers for validation.
+ * Object schemas pick their declared keys case-insensitively (so a schema key
+ * "X-Tenant-Id" matches "x-tenant-id"); other schemas get every header with
+ * lowercased names.
+ */
+function collectHeaders(
+  headers: Headers | undefined,
+  schema: z.ZodType,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers) return result;
+
+  const shape = (schema as { shape?: Record<string, unknown> }).shape;
+  if (shape && typeof shape === "object") {
+    for (const key of Object.keys(shape)) {
+      const value = headers.get(key);
+      if (value !== null) result[key] = value;
+    }
+    return result;
+  }
+
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
 }
 
 /**
- * Parse URLSearchParams preserving array values for duplicate keys.
- * Single values remain strings, duplicate keys become arrays.
+ * Convert FormData into a plain object for validation.
+ * Single values remain strings or Files, repeated fields become arrays.
  */
-export function parseSearchParams(
-  searchParams: URLSearchParams,
-): Record<string, string | string[]> {
-  const result: Record<string, string | string[]> = {};
-  for (const key of new Set(searchParams.keys())) {
-    const values = searchParams.getAll(key);
+export function parseFormData(
+  formData: FormData,
+): Record<string, FormDataEntryValue | FormDataEntryValue[]> {
+  const result: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+  for (const key of new Set(formData.keys())) {
+    const values = formData.getAll(key);
     result[key] = values.length === 1 ? values[0] : values;
   }
   return result;
 }
 
+/** The request's media type, without parameters like charset or boundary */
+function requestMediaType(headers: Headers | undefined): string | undefined {
+  const contentType = headers?.get("Content-Type");
+  if (!contentType) return undefined;
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Read a body stream, cancelling it as soon as it exceeds maxBytes.
+ * Returns null when the limit was exceeded.
+ */
+async function readLimited(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/** Nesting depth of a parsed JSON value (scalars are 0) */
+function jsonDepth(value: unknown): number {
+  let max = 0;
+  const stack: [unknown, number][] = [[value, 0]];
+  while (stack.length > 0) {
+    const [current, depth] = stack.pop()!;
+    if (typeof current !== "object" || current === null) continue;
+    max = Math.max(max, depth + 1);
+    for (const child of Object.values(current)) {
+      stack.push([child, depth + 1]);
+    }
+  }
+  return max;
+}
+
+type BodyReadResult =
+  | { ok: true; value: unknown }
+  | { ok: false; tooLarge?: boolean };
+
+/**
+ * Read the raw body with the parser for its content type.
+ * With a size limit and a body stream, the stream is read directly so
+ * oversized bodies are aborted instead of buffered.
+ */
+async function readBody(
+  req: RawRequest,
+  contentType: BodyContentType,
+  maxBodySize: number | undefined,
+): Promise<BodyReadResult> {
+  try {
+    if (maxBodySize !== undefined && req.body) {
+      const bytes = await readLimited(req.body, maxBodySize);
+      if (!bytes) return { ok: false, tooLarge: true };
+      if (contentType === "application/json") {
+        return { ok: true, value: JSON.parse(new TextDecoder().decode(bytes)) };
+      }
+      const form = await new Response(bytes, {
+        headers: { "Content-Type": req.headers?.get("Content-Type") ?? "" },
+      }).formData();
+      return { ok: true, value: parseFormData(form) };
+    }
+
+    if (contentType === "application/json") {
+      return { ok: true, value: await req.json() };
+    }
+    if (!req.formData) return { ok: false };
+    return { ok: true, value: parseFormData(await req.formData()) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/** Body size and shape limits. Endpoint settings take precedence. */
+export interface RequestLimits {
+  /** Maximum body size in bytes */
+  maxBodySize?: number;
+  /** Maximum nesting depth of JSON bodies */
+  maxJsonDepth?: number;
+}
+
+function bodyTooLarge(maxBodySize: number): ValidationError {
+  return {
+    success: false,
+    error: `Request body exceeds ${maxBodySize} bytes`,
+    type: "size",
+    issues: [],
+  };
+}
+
 /**
  * Validates a request against an API method definition.
- * Framework-agnostic - works with any request that provides json(), url, and params.
+ * Framework-agnostic - works with any request that provides json(), url, params
+ * and headers (plus formData() for form bodies).
  */
 export async function validateRequest<
   TBodySchema extends z.ZodType | undefined,
   TQuerySchema extends z.ZodType | undefined,
   TParamsSchema extends z.ZodType | undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
 >(
   req: RawRequest,
-  def: ApiMethodDef<TBodySchema, TQuerySchema, TParamsSchema>,
+  def: ApiMethodDef<
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema
+  >,
   method: string,
+  limits: RequestLimits = {},
 ): Promise<
   ValidationOutcome<
     TBodySchema extends z.ZodType ? z.infer<TBodySchema> : unknown,
     TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown,
-    TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown
+    TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown,
+    THeadersSchema extends z.ZodType ? z.infer<THeadersSchema> : unknown,
+    TCookiesSchema extends z.ZodType ? z.infer<TCookiesSchema> : unknown
   >
 > {
   // Validate body
   let body: unknown = undefined;
   if (def.body && ["POST", "PUT", "PATCH"].includes(method)) {
-    let rawBody: unknown;
-    try {
-      rawBody = await req.json();
-    } catch {
-      return { success: false, error: "Invalid JSON body", type: "json" };
+    const accepted = def.contentTypes ?? ["application/json"];
+    const mediaType = requestMediaType(req.headers);
+    if (
+      mediaType !== undefined &&
+      !accepted.includes(mediaType as BodyContentType)
+    ) {
+      return {
+        success: false,
+        error: `Unsupported content type "${mediaType}", expected ${
+          accepted.join(" or ")
+        }`,
+        type: "contentType",
+        issues: [],
+      };
+    }
+    const contentType = (mediaType ?? accepted[0]) as BodyContentType;
+
+    const maxBodySize = def.maxBodySize ?? limits.maxBodySize;
+    const contentLength = Number(req.headers?.get("Content-Length") ?? 0);
+    if (maxBodySize !== undefined && contentLength > maxBodySize) {
+      return bodyTooLarge(maxBodySize);
+    }
+
+    const rawBody = await readBody(req, contentType, maxBodySize);
+    if (!rawBody.ok && rawBody.tooLarge) {
+      return bodyTooLarge(maxBodySize!);
+    }
+    if (!rawBody.ok) {
+      return contentType === "application/json"
+        ? {
+          success: false,
+          error: "Invalid JSON body",
+          type: "json",
+          issues: [],
+        }
+        : {
+          success: false,
+          error: "Invalid form body",
+          type: "body",
+          issues: [],
+        };
     }
 
-    const result = def.body.safeParse(rawBody);
+    const maxJsonDepth = def.maxJsonDepth ?? limits.maxJsonDepth;
+    if (
+      contentType === "application/json" && maxJsonDepth !== undefined &&
+      jsonDepth(rawBody.value) > maxJsonDepth
+    ) {
+      return {
+        success: false,
+        error: `JSON body exceeds maximum nesting depth of ${maxJsonDepth}`,
+        type: "json",
+        issues: [],
+      };
+    }
+
+    const result = def.body.safeParse(rawBody.value);
     if (!result.success) {
       return {
         success: false,
-        error: `Validation error: ${formatZodErrors(result.error)}`,
+        error: `Validation error: ${formatZodErrors(result.error, def.body)}`,
         type: "body",
+        issues: toValidationIssues(result.error, "body", def.body),
       };
     }
     body = result.data;
@@ -91,15 +336,23 @@ export async function validateRequest<
     try {
       url = new URL(req.url);
     } catch {
-      return { success: false, error: "Invalid request URL", type: "query" };
+      return {
+        success: false,
+        error: "Invalid request URL",
+        type: "query",
+        issues: [],
+      };
     }
-    const rawQuery = parseSearchParams(url.searchParams);
+    const rawQuery = parseQuery(url.searchParams, def.queryStyle, def.query);
     const result = def.query.safeParse(rawQuery);
     if (!result.success) {
       return {
         success: false,
-        error: `Query validation error: ${formatZodErrors(result.error)}`,
+        error: `Query validation error: ${
+          formatZodErrors(result.error, def.query)
+        }`,
         type: "query",
+        issues: toValidationIssues(result.error, "query", def.query),
       };
     }
     query = result.data;
@@ -108,23 +361,66 @@ export async function validateRequest<
   // Validate params
   let params: unknown = req.params;
   if (def.params) {
-    const result = def.params.safeParse(req.params);
+    const result = def.params.safeParse(coerceValue(req.params, def.params));
     if (!result.success) {
       return {
         success: false,
-        error: `Params validation error: ${formatZodErrors(result.error)}`,
+        error: `Params validation error: ${
+          formatZodErrors(result.error, def.params)
+        }`,
         type: "params",
+        issues: toValidationIssues(result.error, "params", def.params),
       };
     }
     params = result.data;
   }
 
+  // Validate headers
+  let headers: unknown = undefined;
+  if (def.headers) {
+    const result = def.headers.safeParse(
+      collectHeaders(req.headers, def.headers),
+    );
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Headers validation error: ${
+          formatZodErrors(result.error, def.headers)
+        }`,
+        type: "headers",
+        issues: toValidationIssues(result.error, "headers", def.headers),
+      };
+    }
+    headers = result.data;
+  }
+
+  // Validate cookies
+  let cookies: unknown = undefined;
+  if (def.cookies) {
+    const result = def.cookies.safeParse(
+      parseCookies(req.headers?.get("Cookie") ?? null),
+    );
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Cookies validation error: ${
+          formatZodErrors(result.error, def.cookies)
+        }`,
+        type: "cookies",
+        issues: toValidationIssues(result.error, "cookies", def.cookies),
+      };
+    }
+    cookies = result.data;
+  }
+
   return {
     success: true,
-    data: { body, query, params } as ValidatedRequest<
+    data: { body, query, params, headers, cookies } as ValidatedRequest<
       TBodySchema extends z.ZodType ? z.infer<TBodySchema> : unknown,
       TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown,
-      TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown
+      TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown,
+      THeadersSchema extends z.ZodType ? z.infer<THeadersSchema> : unknown,
+      TCookiesSchema extends z.ZodType ? z.infer<TCookiesSchema> : unknown
     >,
   };
 }
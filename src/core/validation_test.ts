@@ -190,3 +190,424 @@ Deno.test("validateRequest passes with no schemas defined", async () => {
   );
   assertEquals(result.success, true);
 });
+
+Deno.test("validateRequest returns structured issues with location", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({ name: 123, address: { zip: 1 } }),
+      url: "http://example.com",
+      params: {},
+    },
+    {
+      body: z.object({
+        name: z.string(),
+        address: z.object({ zip: z.string() }),
+      }),
+    },
+    "POST",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(
+      result.issues.map(({ path, code, location }) => ({
+        path,
+        code,
+        location,
+      })),
+      [
+        { path: ["name"], code: "invalid_type", location: "body" },
+        { path: ["address", "zip"], code: "invalid_type", location: "body" },
+      ],
+    );
+  }
+});
+
+Deno.test("validateRequest masks issue messages of sensitive fields", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({ password: "hunter2" }),
+      url: "http://example.com",
+      params: {},
+    },
+    {
+      body: z.object({
+        password: z.string().refine((value) => value.length > 8, {
+          error: (issue) => `"${issue.input}" is too short`,
+        }).meta({ sensitive: true }),
+      }),
+    },
+    "POST",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.error, "Validation error: password: Invalid value");
+    assertEquals(result.issues[0].message, "Invalid value");
+  }
+});
+
+Deno.test("validateRequest returns no issues for invalid JSON", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.reject(new SyntaxError("Unexpected token")),
+      url: "http://example.com",
+      params: {},
+    },
+    { body: z.object({ name: z.string() }) },
+    "POST",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.issues, []);
+  }
+});
+
+Deno.test("validateRequest validates headers case-insensitively", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({ "x-tenant-id": "acme", "if-match": '"v1"' }),
+    },
+    {
+      headers: z.object({
+        "X-Tenant-Id": z.string(),
+        "If-Match": z.string().optional(),
+      }),
+    },
+    "GET",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.headers, {
+      "X-Tenant-Id": "acme",
+      "If-Match": '"v1"',
+    });
+  }
+});
+
+Deno.test("validateRequest returns error for missing required header", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers(),
+    },
+    { headers: z.object({ "X-Tenant-Id": z.string() }) },
+    "GET",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.type, "headers");
+    assertEquals(result.issues[0].path, ["X-Tenant-Id"]);
+    assertEquals(result.issues[0].location, "headers");
+  }
+});
+
+Deno.test("validateRequest validates cookies", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({ Cookie: "session=abc; theme=dark" }),
+    },
+    { cookies: z.object({ session: z.string() }) },
+    "GET",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.cookies, { session: "abc" });
+  }
+});
+
+Deno.test("validateRequest returns error for missing cookie", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com",
+      params: {},
+    },
+    { cookies: z.object({ session: z.string() }) },
+    "GET",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.type, "cookies");
+    assertEquals(result.issues[0].location, "cookies");
+  }
+});
+
+Deno.test("validateRequest parses multipart bodies with files", async () => {
+  const form = new FormData();
+  form.append("title", "Report");
+  form.append("tags", "a");
+  form.append("tags", "b");
+  form.append("file", new File(["hello"], "report.txt"));
+
+  const result = await validateRequest(
+    {
+      json: () => Promise.reject(new Error("not JSON")),
+      formData: () => Promise.resolve(form),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({
+        "Content-Type": "multipart/form-data; boundary=x",
+      }),
+    },
+    {
+      contentTypes: ["multipart/form-data"],
+      body: z.object({
+        title: z.string(),
+        tags: z.array(z.string()),
+        file: z.file(),
+      }),
+    },
+    "POST",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.body.title, "Report");
+    assertEquals(result.data.body.tags, ["a", "b"]);
+    assertEquals(await result.data.body.file.text(), "hello");
+  }
+});
+
+Deno.test("validateRequest uses the request content type when accepted", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({ title: "From JSON" }),
+      formData: () => Promise.reject(new Error("not a form")),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({ "Content-Type": "application/json" }),
+    },
+    {
+      contentTypes: ["application/x-www-form-urlencoded", "application/json"],
+      body: z.object({ title: z.string() }),
+    },
+    "POST",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.body, { title: "From JSON" });
+  }
+});
+
+Deno.test("validateRequest returns error for unparseable form body", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      formData: () => Promise.reject(new TypeError("bad form")),
+      url: "http://example.com",
+      params: {},
+    },
+    {
+      contentTypes: ["multipart/form-data"],
+      body: z.object({ title: z.string() }),
+    },
+    "POST",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.type, "body");
+    assertEquals(result.error, "Invalid form body");
+    assertEquals(result.issues, []);
+  }
+});
+
+Deno.test("validateRequest coerces query values from the schema", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com?page=2&tags=a&archived=true",
+      params: {},
+    },
+    {
+      query: z.object({
+        page: z.number().int(),
+        tags: z.array(z.string()),
+        archived: z.boolean(),
+      }),
+    },
+    "GET",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.query, { page: 2, tags: ["a"], archived: true });
+  }
+});
+
+Deno.test("validateRequest decodes the declared query style", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com?ids=1,2,3",
+      params: {},
+    },
+    {
+      queryStyle: "comma",
+      query: z.object({ ids: z.array(z.number()) }),
+    },
+    "GET",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.query, { ids: [1, 2, 3] });
+  }
+});
+
+Deno.test("validateRequest coerces path params from the schema", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({}),
+      url: "http://example.com",
+      params: { id: "42" },
+    },
+    { params: z.object({ id: z.number().int() }) },
+    "GET",
+  );
+  assertEquals(result.success, true);
+  if (result.success) {
+    assertEquals(result.data.params, { id: 42 });
+  }
+});
+
+Deno.test("validateRequest rejects unaccepted content types", async () => {
+  const result = await validateRequest(
+    {
+      json: () => Promise.resolve({ name: "Sam" }),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({ "Content-Type": "text/plain" }),
+    },
+    { body: z.object({ name: z.string() }) },
+    "POST",
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.type, "contentType");
+    assertEquals(
+      result.error,
+      'Unsupported content type "text/plain", expected application/json',
+    );
+  }
+});
+
+Deno.test("validateRequest rejects a declared Content-Length over maxBodySize", async () => {
+  let read = false;
+  const result = await validateRequest(
+    {
+      json: () => {
+        read = true;
+        return Promise.resolve({});
+      },
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({ "Content-Length": "2048" }),
+    },
+    { body: z.object({}), maxBodySize: 1024 },
+    "POST",
+  );
+  assertEquals(read, false);
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.type, "size");
+    assertEquals(result.error, "Request body exceeds 1024 bytes");
+  }
+});
+
+Deno.test("validateRequest aborts oversized body streams", async () => {
+  let chunks = 0;
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      chunks++;
+      controller.enqueue(new Uint8Array(512));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  const result = await validateRequest(
+    {
+      json: () => Promise.reject(new Error("should stream")),
+      url: "http://example.com",
+      params: {},
+      body,
+    },
+    { body: z.object({}) },
+    "POST",
+    { maxBodySize: 1024 },
+  );
+  assertEquals(result.success, false);
+  if (!result.success) {
+    assertEquals(result.type, "size");
+  }
+  assertEquals(cancelled, true);
+  assertEquals(chunks < 5, true);
+});
+
+Deno.test("validateRequest reads limited JSON and form streams", async () => {
+  const json = await validateRequest(
+    {
+      json: () => Promise.reject(new Error("should stream")),
+      url: "http://example.com",
+      params: {},
+      body: new Response('{"name":"Sam"}').body,
+    },
+    { body: z.object({ name: z.string() }), maxBodySize: 1024 },
+    "POST",
+  );
+  assertEquals(json.success && json.data.body, { name: "Sam" });
+
+  const form = await validateRequest(
+    {
+      json: () => Promise.reject(new Error("not JSON")),
+      url: "http://example.com",
+      params: {},
+      headers: new Headers({
+        "Content-Type": "application/x-www-form-urlencoded",
+      }),
+      body: new Response("name=Sam").body,
+    },
+    {
+      contentTypes: ["application/x-www-form-urlencoded"],
+      body: z.object({ name: z.string() }),
+      maxBodySize: 1024,
+    },
+    "POST",
+  );
+  assertEquals(form.success && form.data.body, { name: "Sam" });
+});
+
+Deno.test("validateRequest enforces maxJsonDepth", async () => {
+  const req = {
+    json: () => Promise.resolve({ a: { b: { c: [1] } } }),
+    url: "http://example.com",
+    params: {},
+  };
+  const schema = z.object({ a: z.unknown() });
+
+  const deep = await validateRequest(req, { body: schema }, "POST", {
+    maxJsonDepth: 3,
+  });
+  assertEquals(deep.success, false);
+  if (!deep.success) {
+    assertEquals(deep.type, "json");
+    assertEquals(
+      deep.error,
+      "JSON body exceeds maximum nesting depth of 3",
+    );
+  }
+
+  const ok = await validateRequest(
+    req,
+    { body: schema, maxJsonDepth: 4 },
+    "POST",
+    { maxJsonDepth: 3 },
+  );
+  assertEquals(ok.success, true);
+});
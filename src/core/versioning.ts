@@ -0,0 +1,260 @@
+/**
+ * API Versioning
+ *
+ * Handlers implement the latest version of an endpoint. Older versions that
+ * differ declare their own request and response schemas in `versions`, with
+ * an `upgrade` to turn their request bodies into the current shape and a
+ * `downgrade` to turn current responses into theirs. Clients pick a version
+ * by path prefix (`/v1/`), header (`Api-Version: 1`) or media type
+ * (`Accept: application/json; version=1`).
+ *
+ * @module
+ */
+
+import { z } from "zod";
+import type { ApiDef } from "./types.ts";
+import type { ProblemDetails } from "./problem.ts";
+
+/** How clients pick a version */
+export type VersionSource = "path" | "header" | "mediaType";
+
+/** Versions an API serves and how requests select one */
+export interface VersioningOptions {
+  /** Supported versions, oldest first. Handlers implement the last one. */
+  versions: readonly string[];
+  /** Where requests name their version. Default: "header" */
+  by?: VersionSource;
+  /** Version header of requests and responses. Default: "Api-Version" */
+  header?: string;
+  /** Version of requests that don't name one. Default: the latest */
+  default?: string;
+  /**
+   * With `by: "path"`, the path before the version segment, e.g. "/api" for
+   * `/api/v1/users`. Default: the adapter's `basePath`, or "". Required
+   * with Fresh, which has none.
+   */
+  basePath?: string;
+}
+
+/** An older version of an endpoint, converted to and from the current one */
+export interface VersionDef {
+  /** Request body schema of this version. Default: the current schema */
+  body?: z.ZodType;
+  /** Response schema of this version, for OpenAPI and generated types */
+  response?: z.ZodType;
+  /** Convert a validated request body of this version to the current shape */
+  // deno-lint-ignore no-explicit-any
+  upgrade?: (body: any) => unknown;
+  /** Convert a current JSON response body to this version's shape */
+  // deno-lint-ignore no-explicit-any
+  downgrade?: (body: any) => unknown;
+}
+
+/** Default header naming the version */
+export const VERSION_HEADER = "Api-Version";
+
+/** The version handlers implement */
+export function latestVersion(versioning: VersioningOptions): string {
+  return versioning.versions[versioning.versions.length - 1];
+}
+
+/** Throw at startup on versioning options or `versions` that can't work */
+export function assertVersions(
+  versioning: VersioningOptions | undefined,
+  versions: Record<string, VersionDef> | undefined,
+  label: string,
+): void {
+  if (!versioning) {
+    if (versions) {
+      throw new Error(`${label} declares versions without versioning options`);
+    }
+    return;
+  }
+  if (versioning.versions.length === 0) {
+    throw new Error("Versioning options list no versions");
+  }
+  if (
+    versioning.default !== undefined &&
+    !versioning.versions.includes(versioning.default)
+  ) {
+    throw new Error(`Unknown default version "${versioning.default}"`);
+  }
+  for (const name of Object.keys(versions ?? {})) {
+    if (!versioning.versions.includes(name)) {
+      throw new Error(`${label} declares unknown version "${name}"`);
+    }
+    if (name === latestVersion(versioning)) {
+      throw new Error(
+        `${label} declares the latest version "${name}" in versions`,
+      );
+    }
+  }
+}
+
+/** The version a request names, if any */
+function requestedVersion(
+  versioning: VersioningOptions,
+  req: Request,
+  pathname: string,
+): string | undefined {
+  switch (versioning.by ?? "header") {
+    case "header":
+      return req.headers.get(versioning.header ?? VERSION_HEADER)?.trim() ||
+        undefined;
+    case "mediaType":
+      return req.headers.get("Accept")
+        ?.match(/;\s*version="?([^";,\s]+)"?/)?.[1];
+    case "path":
+      return pathVersion(versioning, pathname)?.version;
+  }
+}
+
+/**
+ * The version a request asked for, or the default. Returns the problem to
+ * reject it with (400) when it names a version that isn't supported.
+ * `pathname` is the path the adapter routed on, relative to where it's
+ * mounted.
+ */
+export function selectVersion(
+  versioning: VersioningOptions,
+  req: Request,
+  pathname: string = new URL(req.url).pathname,
+):
+  | { success: true; version: string }
+  | { success: false; problem: ProblemDetails } {
+  const requested = requestedVersion(versioning, req, pathname);
+  if (requested === undefined) {
+    return {
+      success: true,
+      version: versioning.default ?? latestVersion(versioning),
+    };
+  }
+  if (versioning.versions.includes(requested)) {
+    return { success: true, version: requested };
+  }
+  return {
+    success: false,
+    problem: {
+      type: "about:blank",
+      title: "Unsupported API Version",
+      status: 400,
+      detail: `Version "${requested}" isn't supported. Supported versions: ` +
+        versioning.versions.join(", "),
+    },
+  };
+}
+
+/** Headers telling the client which version answered */
+export function versionHeaders(
+  versioning: VersioningOptions,
+  version: string,
+): Record<string, string> {
+  const header = versioning.header ?? VERSION_HEADER;
+  switch (versioning.by ?? "header") {
+    case "header":
+      return { [header]: version, Vary: header };
+    case "mediaType":
+      return { [header]: version, Vary: "Accept" };
+    case "path":
+      return { [header]: version };
+  }
+}
+
+/**
+ * The method definition requests of an older version are validated with:
+ * the version's body schema, upgraded, then checked against the current one.
+ */
+export function upgradedDef<T extends NonNullable<ApiDef[keyof ApiDef]>>(
+  def: T,
+  version: VersionDef,
+): T {
+  if (!version.body && !version.upgrade) return def;
+  const upgrade = version.upgrade ?? ((body: unknown) => body);
+  const upgraded = (version.body ?? def.body ?? z.unknown())
+    .transform((body) => upgrade(body));
+  return { ...def, body: def.body ? upgraded.pipe(def.body) : upgraded } as T;
+}
+
+/** Copy of a successful JSON response converted to an older version */
+export async function downgradeResponse(
+  response: Response,
+  version: VersionDef,
+): Promise<Response> {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (!version.downgrade || !response.ok || !contentType.includes("json")) {
+    return response;
+  }
+  const body = version.downgrade(await response.json());
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  return new Response(JSON.stringify(body), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * An API definition as one version sees it: the version's body and response
+ * schemas replace the current ones. For OpenAPI and type generation.
+ */
+export function apiDefForVersion(apiDef: ApiDef, version: string): ApiDef {
+  const result: ApiDef = {};
+  for (const [method, def] of Object.entries(apiDef)) {
+    if (!def) continue;
+    const { versions, ...rest } = def;
+    const old = versions?.[version];
+    result[method as keyof ApiDef] = {
+      ...rest,
+      ...(old?.body ? { body: old.body } : {}),
+      ...(old?.response ? { response: old.response } : {}),
+    };
+  }
+  return result;
+}
+
+/**
+ * The version named by the segment directly after `basePath`, and the path
+ * without it. Other segments, such as path params, never select a version.
+ */
+function pathVersion(
+  versioning: VersioningOptions,
+  pathname: string,
+): { version: string; rest: string } | undefined {
+  const basePath = versioning.basePath ?? "";
+  if (!pathname.startsWith(basePath + "/v")) return undefined;
+  const rest = pathname.slice(basePath.length + 1);
+  const segment = rest.split("/", 1)[0];
+  const version = versioning.versions.find((name) => segment === `v${name}`);
+  return version === undefined
+    ? undefined
+    : { version, rest: basePath + rest.slice(segment.length) || "/" };
+}
+
+/**
+ * A route's path under each version prefix, e.g. `/api/v1/users` for
+ * `/api/users`, for adapters that register raw paths. Empty unless versions
+ * are picked by path and the route is under `basePath`.
+ */
+export function versionedPaths(
+  versioning: VersioningOptions | undefined,
+  path: string,
+): string[] {
+  if (versioning?.by !== "path") return [];
+  const basePath = versioning.basePath ?? "";
+  if (path !== basePath && !path.startsWith(basePath + "/")) return [];
+  const rest = path === "/" ? "" : path.slice(basePath.length);
+  return versioning.versions.map((name) => `${basePath}/v${name}${rest}`);
+}
+
+/**
+ * Remove the version segment that follows `basePath`, so routers match
+ * `/api/v1/users` like `/api/users`.
+ */
+export function unversionedPath(
+  versioning: VersioningOptions | undefined,
+  pathname: string,
+): string {
+  if (versioning?.by !== "path") return pathname;
+  return pathVersion(versioning, pathname)?.rest ?? pathname;
+}
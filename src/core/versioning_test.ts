@@ -0,0 +1,192 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "zod";
+import {
+  apiDefForVersion,
+  assertVersions,
+  downgradeResponse,
+  selectVersion,
+  unversionedPath,
+  upgradedDef,
+  versionedPaths,
+} from "./versioning.ts";
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return new Request(`http://localhost${path}`, { headers });
+}
+
+Deno.test("selectVersion reads the version header", () => {
+  const versioning = { versions: ["1", "2"] };
+  assertEquals(selectVersion(versioning, request("/api/users")), {
+    success: true,
+    version: "2",
+  });
+  assertEquals(
+    selectVersion(versioning, request("/api/users", { "Api-Version": "1" })),
+    { success: true, version: "1" },
+  );
+  assertEquals(
+    selectVersion(
+      { ...versioning, default: "1" },
+      request("/api/users"),
+    ),
+    { success: true, version: "1" },
+  );
+
+  const unsupported = selectVersion(
+    versioning,
+    request("/api/users", { "Api-Version": "3" }),
+  );
+  assertEquals(unsupported.success, false);
+  if (!unsupported.success) {
+    assertEquals(unsupported.problem.status, 400);
+    assertEquals(
+      unsupported.problem.detail,
+      'Version "3" isn\'t supported. Supported versions: 1, 2',
+    );
+  }
+});
+
+Deno.test("selectVersion reads the media type and path", () => {
+  const byMediaType = { versions: ["1", "2"], by: "mediaType" as const };
+  assertEquals(
+    selectVersion(
+      byMediaType,
+      request("/api/users", { Accept: "application/json; version=1" }),
+    ),
+    { success: true, version: "1" },
+  );
+
+  const byPath = {
+    versions: ["1", "2"],
+    by: "path" as const,
+    basePath: "/api",
+  };
+  assertEquals(selectVersion(byPath, request("/api/v1/users")), {
+    success: true,
+    version: "1",
+  });
+  assertEquals(selectVersion(byPath, request("/api/users")), {
+    success: true,
+    version: "2",
+  });
+});
+
+Deno.test("selectVersion reads only the path segment after basePath", () => {
+  const byPath = {
+    versions: ["1", "2"],
+    by: "path" as const,
+    basePath: "/api",
+  };
+  assertEquals(selectVersion(byPath, request("/api/v2/files/v1")), {
+    success: true,
+    version: "2",
+  });
+  // A path param named like a version doesn't select it
+  assertEquals(selectVersion(byPath, request("/api/files/v1")), {
+    success: true,
+    version: "2",
+  });
+  assertEquals(selectVersion(byPath, request("/v1/api/users")), {
+    success: true,
+    version: "2",
+  });
+  // Adapters mounted under a prefix pass the path they routed on
+  assertEquals(
+    selectVersion(byPath, request("/mount/api/v1/users"), "/api/v1/users"),
+    { success: true, version: "1" },
+  );
+});
+
+Deno.test("assertVersions rejects versions that can't be served", () => {
+  const versions = { "1": { upgrade: (body: unknown) => body } };
+  assertThrows(
+    () => assertVersions(undefined, versions, "POST endpoint"),
+    Error,
+    "POST endpoint declares versions without versioning options",
+  );
+  assertThrows(
+    () => assertVersions({ versions: ["2", "3"] }, versions, "POST endpoint"),
+    Error,
+    'POST endpoint declares unknown version "1"',
+  );
+  assertThrows(
+    () => assertVersions({ versions: ["0", "1"] }, versions, "POST endpoint"),
+    Error,
+    'POST endpoint declares the latest version "1" in versions',
+  );
+  assertThrows(
+    () => assertVersions({ versions: ["1", "2"], default: "0" }, {}, "GET"),
+    Error,
+    'Unknown default version "0"',
+  );
+  assertVersions({ versions: ["1", "2"] }, versions, "POST endpoint");
+});
+
+Deno.test("upgradedDef validates the old shape, then the current one", () => {
+  const def = upgradedDef({ body: z.object({ fullName: z.string() }) }, {
+    body: z.object({ name: z.string() }),
+    upgrade: (body: { name: string }) => ({ fullName: body.name }),
+  });
+  assertEquals(def.body!.parse({ name: "Ada" }), { fullName: "Ada" });
+  assertEquals(def.body!.safeParse({ fullName: "Ada" }).success, false);
+});
+
+Deno.test("downgradeResponse converts successful JSON responses", async () => {
+  const version = {
+    downgrade: (body: { fullName: string }) => ({ name: body.fullName }),
+  };
+  const ok = await downgradeResponse(
+    Response.json({ fullName: "Ada" }, { status: 201 }),
+    version,
+  );
+  assertEquals(ok.status, 201);
+  assertEquals(await ok.json(), { name: "Ada" });
+
+  const error = await downgradeResponse(
+    Response.json({ fullName: "Ada" }, { status: 404 }),
+    version,
+  );
+  assertEquals(await error.json(), { fullName: "Ada" });
+});
+
+Deno.test("apiDefForVersion swaps in the version's schemas", () => {
+  const current = z.object({ fullName: z.string() });
+  const old = z.object({ name: z.string() });
+  const apiDef = apiDefForVersion({
+    POST: {
+      body: current,
+      response: current,
+      versions: { "1": { body: old } },
+    },
+    GET: { response: current },
+  }, "1");
+  assertEquals(apiDef.POST?.body, old);
+  assertEquals(apiDef.POST?.response, current);
+  assertEquals(apiDef.POST?.versions, undefined);
+  assertEquals(apiDef.GET?.response, current);
+});
+
+Deno.test("versionedPaths puts routes under each version prefix", () => {
+  const versioning = { versions: ["1", "2"], by: "path" as const };
+  const underApi = { ...versioning, basePath: "/api" };
+  assertEquals(versionedPaths(underApi, "/api/users/:id"), [
+    "/api/v1/users/:id",
+    "/api/v2/users/:id",
+  ]);
+  assertEquals(versionedPaths(versioning, "/"), ["/v1", "/v2"]);
+  assertEquals(versionedPaths(underApi, "/health"), []);
+  assertEquals(versionedPaths({ versions: ["1"] }, "/api/users"), []);
+});
+
+Deno.test("unversionedPath drops the version segment after basePath", () => {
+  const versioning = { versions: ["1", "2"], by: "path" as const };
+  const underApi = { ...versioning, basePath: "/api" };
+  assertEquals(unversionedPath(underApi, "/api/v1/users"), "/api/users");
+  assertEquals(unversionedPath(versioning, "/v2"), "/");
+  assertEquals(unversionedPath(underApi, "/api/v3/users"), "/api/v3/users");
+  assertEquals(unversionedPath(underApi, "/api/users/v1"), "/api/users/v1");
+  assertEquals(
+    unversionedPath({ versions: ["1"], basePath: "/api" }, "/api/v1/users"),
+    "/api/v1/users",
+  );
+});
@@ -0,0 +1,272 @@
+/**
+ * Fetch Handler
+ *
+ * Framework-agnostic runtime adapter: a `(req: Request) => Promise<Response>`
+ * handler with a built-in router, so endpoint definitions can serve requests
+ * with `Deno.serve` (or any fetch-style runtime) without Fresh.
+ *
+ * - endpoint() / sseEndpoint() — define typed API methods
+ * - createFetchHandler() — route, validate and dispatch requests
+ * - withProviders() — endpoint()/createFetchHandler() bound to capability
+ *   providers and security schemes
+ *
+ * @module
+ */
+
+import type { z } from "zod";
+import type {
+  ApiDef,
+  HttpMethod,
+  ResponseDefs,
+  SseEventDef,
+} from "../core/types.ts";
+import type { Providers } from "../core/capabilities.ts";
+import type { SecuritySchemes } from "../core/security.ts";
+import {
+  type ApiRegistry,
+  isApiRegistry,
+  registryDefinitions,
+} from "../core/registry.ts";
+import {
+  createRouter,
+  methodNotAllowedResponse,
+  notFoundResponse,
+} from "../core/router.ts";
+import {
+  type BoundEndpoint,
+  type ContextAdapter,
+  createRouteHandlers,
+  type EndpointDef,
+  type HandlerOptions,
+  remoteHostname,
+  type RouteHandlers,
+  type SseEndpointDef,
+  stripHandlers,
+} from "../core/runtime.ts";
+import { unversionedPath } from "../core/versioning.ts";
+
+export { routePattern } from "../core/router.ts";
+
+/** Context passed to handlers served by createFetchHandler() */
+export interface FetchContext {
+  req: Request;
+  url: URL;
+  /** Path params from the matched route pattern */
+  params: Record<string, string>;
+  /** Connection info passed by `Deno.serve`, if any */
+  info?: Deno.ServeHandlerInfo;
+}
+
+/** Method definition with a handler receiving a FetchContext */
+export type FetchApiMethodDef<
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+> = EndpointDef<
+  FetchContext,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses
+>;
+
+/**
+ * Define an API endpoint with full type inference for the handler.
+ * Zero runtime cost - returns its argument unchanged.
+ */
+export function endpoint<
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+>(
+  def: FetchApiMethodDef<
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema,
+    TResponseSchema,
+    TResponses
+  >,
+): FetchApiMethodDef<
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses
+> {
+  return def;
+}
+
+/**
+ * Define an SSE endpoint with full type inference.
+ * Zero runtime cost - returns its argument unchanged.
+ */
+export function sseEndpoint<
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  TEvents extends SseEventDef = SseEventDef,
+>(
+  def: SseEndpointDef<FetchContext, TQuerySchema, TParamsSchema, TEvents>,
+): SseEndpointDef<FetchContext, TQuerySchema, TParamsSchema, TEvents> {
+  return def;
+}
+
+/** Method definitions keyed by path pattern, e.g. "/users/[id]" */
+export type FetchRoutes = Record<string, Record<string, unknown>>;
+
+export interface FetchHandlerOptions extends HandlerOptions {
+  /** Prefix for every route pattern, e.g. "/api". Default: "" */
+  basePath?: string;
+}
+
+/** Fetch handler with the API definitions attached, keyed by route pattern */
+export type FetchHandler =
+  & ((req: Request, info?: Deno.ServeHandlerInfo) => Promise<Response>)
+  & { routes: Record<string, ApiDef> };
+
+/**
+ * Create a fetch handler that routes requests to endpoint definitions.
+ * Routes are matched with URLPattern, static routes before parameterized ones.
+ * Unmatched paths get a 404 and unsupported methods a 405 (with `Allow`),
+ * both as problem responses. Also accepts a defineApi() registry.
+ *
+ * @example
+ * ```ts
+ * const handler = createFetchHandler({
+ *   "/users/[id]": {
+ *     GET: endpoint({
+ *       params: z.object({ id: z.string() }),
+ *       handler: (_ctx, { params }) => Response.json({ id: params.id }),
+ *     }),
+ *   },
+ * }, { basePath: "/api" });
+ *
+ * Deno.serve(handler);
+ * ```
+ */
+export function createFetchHandler(
+  routes: FetchRoutes | ApiRegistry,
+  options: FetchHandlerOptions = {},
+): FetchHandler {
+  const { basePath = "", ...handlerOptions } = options;
+  if (handlerOptions.versioning) {
+    handlerOptions.versioning = { basePath, ...handlerOptions.versioning };
+  }
+
+  const handlers: Record<string, RouteHandlers<FetchContext>> = {};
+  const apiDefs: Record<string, ApiDef> = {};
+  const definitions = isApiRegistry(routes)
+    ? registryDefinitions(routes, "createFetchHandler()")
+    : routes;
+  for (const [path, apiDef] of Object.entries(definitions)) {
+    const toRequest: ContextAdapter<FetchContext> = (ctx) => ({
+      req: ctx.req,
+      params: ctx.params,
+      ip: remoteHostname(ctx.info?.remoteAddr),
+      route: path,
+    });
+    handlers[path] = createRouteHandlers(apiDef, handlerOptions, toRequest);
+    apiDefs[path] = stripHandlers(apiDef);
+  }
+  const match = createRouter(handlers, basePath);
+
+  const handler = async (
+    req: Request,
+    info?: Deno.ServeHandlerInfo,
+  ): Promise<Response> => {
+    const url = new URL(req.url);
+    const route = match(
+      unversionedPath(handlerOptions.versioning, url.pathname),
+    );
+    if (!route) return notFoundResponse(url.pathname);
+
+    const methodHandler = route.value.handlers[req.method as HttpMethod];
+    if (!methodHandler) {
+      return methodNotAllowedResponse(
+        req.method,
+        url.pathname,
+        route.value.allow,
+      );
+    }
+
+    return await methodHandler({ req, url, params: route.params, info });
+  };
+
+  return Object.assign(handler, { routes: apiDefs });
+}
+
+// =============================================================================
+// Capabilities
+// =============================================================================
+
+/** endpoint() and createFetchHandler() bound to a provider registry */
+export interface ProviderBindings<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+> {
+  providers: TProviders;
+  securitySchemes: TSchemes;
+  /** endpoint() with `requires` and `security` checked and typed */
+  endpoint: BoundEndpoint<FetchContext, TProviders, TSchemes>;
+  /** createFetchHandler() with these providers and security schemes */
+  createFetchHandler(
+    routes: FetchRoutes | ApiRegistry,
+    options?: Omit<FetchHandlerOptions, "providers" | "securitySchemes">,
+  ): FetchHandler;
+}
+
+/**
+ * Register capability providers (and optionally security schemes) once and
+ * get endpoint()/createFetchHandler() bound to them. Requiring a capability
+ * without a provider, or naming an unregistered scheme in `security`, is a
+ * compile error.
+ *
+ * @example
+ * ```ts
+ * const api = withProviders({ database: () => db }, {
+ *   securitySchemes: { bearer: bearerAuth({ verify: verifyToken }) },
+ * });
+ *
+ * Deno.serve(api.createFetchHandler({
+ *   "/posts": {
+ *     GET: api.endpoint({
+ *       security: ["bearer"],
+ *       requires: ["database"],
+ *       handler: (_ctx, { principal }, { database }) =>
+ *         Response.json(database.postsFor(principal.id)),
+ *     }),
+ *   },
+ * }));
+ * ```
+ */
+export function withProviders<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+>(
+  providers: TProviders,
+  options: { securitySchemes?: TSchemes } = {},
+): ProviderBindings<TProviders, TSchemes> {
+  const securitySchemes = options.securitySchemes ?? {} as TSchemes;
+  return {
+    providers,
+    securitySchemes,
+    // deno-lint-ignore no-explicit-any
+    endpoint: (def: any) => def,
+    createFetchHandler: (routes, options = {}) =>
+      createFetchHandler(routes, { ...options, providers, securitySchemes }),
+  };
+}
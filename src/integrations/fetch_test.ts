@@ -0,0 +1,265 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "zod";
+import {
+  createFetchHandler,
+  endpoint,
+  routePattern,
+  sseEndpoint,
+  withProviders,
+} from "./fetch.ts";
+import { defineApi } from "../core/registry.ts";
+import { bearerAuth } from "../core/security.ts";
+
+const handler = createFetchHandler({
+  "/users": {
+    GET: endpoint({
+      query: z.object({ limit: z.number().optional() }),
+      handler: (_ctx, { query }) => Response.json({ limit: query.limit }),
+    }),
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      handler: (_ctx, { body }) =>
+        Response.json({ name: body.name }, { status: 201 }),
+    }),
+  },
+  "/users/[id]": {
+    GET: endpoint({
+      params: z.object({ id: z.coerce.number() }),
+      handler: (ctx, { params }) =>
+        Response.json({ id: params.id, path: ctx.url.pathname }),
+    }),
+  },
+  "/users/me": {
+    GET: endpoint({ handler: () => Response.json({ id: "me" }) }),
+  },
+  "/files/[...path]": {
+    GET: endpoint({
+      handler: (ctx) => Response.json({ path: ctx.params.path }),
+    }),
+  },
+  "/events": {
+    GET: sseEndpoint({
+      events: { ping: z.object({ n: z.number() }) },
+      async *handler() {
+        yield { event: "ping", data: { n: 1 } };
+      },
+    }),
+  },
+}, { basePath: "/api" });
+
+function request(path: string, init?: RequestInit): Promise<Response> {
+  return handler(new Request(`http://localhost${path}`, init));
+}
+
+Deno.test("routePattern converts file-style params", () => {
+  assertEquals(routePattern("/users/[id]"), "/users/:id");
+  assertEquals(routePattern("/files/[...path]"), "/files/:path+");
+  assertEquals(routePattern("/users/:id"), "/users/:id");
+});
+
+Deno.test("createFetchHandler dispatches to the matching route", async () => {
+  assertEquals(await (await request("/api/users?limit=5")).json(), {
+    limit: 5,
+  });
+  assertEquals(await (await request("/api/users/42")).json(), {
+    id: 42,
+    path: "/api/users/42",
+  });
+
+  const created = await request("/api/users", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "Ada" }),
+  });
+  assertEquals(created.status, 201);
+  assertEquals(await created.json(), { name: "Ada" });
+});
+
+Deno.test("createFetchHandler prefers static routes over params", async () => {
+  assertEquals(await (await request("/api/users/me")).json(), { id: "me" });
+});
+
+Deno.test("createFetchHandler decodes catch-all params", async () => {
+  assertEquals(await (await request("/api/files/docs/a%20b.md")).json(), {
+    path: "docs/a b.md",
+  });
+});
+
+Deno.test("createFetchHandler validates requests", async () => {
+  const response = await request("/api/users", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({}),
+  });
+  assertEquals(response.status, 400);
+  assertEquals(
+    response.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+});
+
+Deno.test("createFetchHandler returns 404 for unknown paths", async () => {
+  const response = await request("/api/nope");
+  assertEquals(response.status, 404);
+  assertEquals((await response.json()).title, "Not Found");
+
+  // basePath is required
+  assertEquals((await request("/users")).status, 404);
+});
+
+Deno.test("createFetchHandler returns 405 with Allow for other methods", async () => {
+  const response = await request("/api/users", { method: "DELETE" });
+  assertEquals(response.status, 405);
+  assertEquals(response.headers.get("Allow"), "GET, POST, HEAD, OPTIONS");
+  assertEquals((await response.json()).title, "Method Not Allowed");
+});
+
+Deno.test("createFetchHandler streams SSE endpoints", async () => {
+  const response = await request("/api/events");
+  assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+  assertEquals(await response.text(), 'event: ping\ndata: {"n":1}\n\n');
+});
+
+Deno.test("createFetchHandler exposes route definitions without handlers", () => {
+  assertEquals(Object.keys(handler.routes), [
+    "/users",
+    "/users/[id]",
+    "/users/me",
+    "/files/[...path]",
+    "/events",
+  ]);
+  assertEquals("handler" in handler.routes["/users"].GET!, false);
+});
+
+Deno.test("createFetchHandler serves a defineApi() registry", async () => {
+  const api = defineApi({
+    "/api/users/:id": {
+      GET: endpoint({
+        params: z.object({ id: z.string() }),
+        handler: (_ctx, { params }) => Response.json({ id: params.id }),
+      }),
+    },
+  });
+
+  const response = await createFetchHandler(api)(
+    new Request("http://localhost/api/users/7"),
+  );
+  assertEquals(await response.json(), { id: "7" });
+
+  assertThrows(
+    () =>
+      createFetchHandler(defineApi({
+        "/health": { GET: () => Response.json({}), __apiDef: {} },
+      })),
+    Error,
+    "createFetchHandler() can't serve /health",
+  );
+});
+
+Deno.test("createFetchHandler routes version path prefixes", async () => {
+  const versioned = createFetchHandler({
+    "/users/[id]": {
+      GET: endpoint({
+        params: z.object({ id: z.string() }),
+        versions: {
+          "1": {
+            downgrade: (user: { id: string; fullName: string }) => ({
+              id: user.id,
+              name: user.fullName,
+            }),
+          },
+        },
+        handler: (_ctx, { params }) =>
+          Response.json({ id: params.id, fullName: "Ada" }),
+      }),
+    },
+  }, { basePath: "/api", versioning: { versions: ["1", "2"], by: "path" } });
+  const get = (path: string) =>
+    versioned(new Request(`http://localhost${path}`));
+
+  const v1 = await get("/api/v1/users/7");
+  assertEquals(await v1.json(), { id: "7", name: "Ada" });
+  assertEquals(v1.headers.get("Api-Version"), "1");
+  assertEquals(await (await get("/api/v2/users/7")).json(), {
+    id: "7",
+    fullName: "Ada",
+  });
+  assertEquals(await (await get("/api/users/7")).json(), {
+    id: "7",
+    fullName: "Ada",
+  });
+  assertEquals((await get("/api/v3/users/7")).status, 404);
+  // Only the segment after basePath names a version, not params
+  assertEquals(await (await get("/api/v2/users/v1")).json(), {
+    id: "v1",
+    fullName: "Ada",
+  });
+  assertEquals(await (await get("/api/users/v1")).json(), {
+    id: "v1",
+    fullName: "Ada",
+  });
+});
+
+Deno.test("createFetchHandler scopes idempotency keys to path params", async () => {
+  const charged: string[] = [];
+  const charges = createFetchHandler({
+    "/accounts/[id]/charges": {
+      POST: endpoint({
+        idempotent: true,
+        params: z.object({ id: z.string() }),
+        body: z.object({ amount: z.number() }),
+        handler: (_ctx, { params }) => {
+          charged.push(params.id);
+          return Response.json({ account: params.id }, { status: 201 });
+        },
+      }),
+    },
+  });
+  const charge = (id: string) =>
+    charges(
+      new Request(`http://localhost/accounts/${id}/charges`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": "k1",
+        },
+        body: JSON.stringify({ amount: 10 }),
+      }),
+    );
+
+  assertEquals((await charge("1")).status, 201);
+  assertEquals((await charge("1")).headers.get("Idempotent-Replayed"), "true");
+  assertEquals((await charge("2")).status, 422);
+  assertEquals(charged, ["1"]);
+});
+
+Deno.test("withProviders binds providers and schemes to createFetchHandler", async () => {
+  const api = withProviders({
+    database: () => ({ posts: { ada: ["Hello"] } as Record<string, string[]> }),
+  }, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => token === "t1" ? { id: "ada" } : undefined,
+      }),
+    },
+  });
+  const posts = api.createFetchHandler({
+    "/posts": {
+      GET: api.endpoint({
+        security: ["bearer"],
+        requires: ["database"],
+        handler: (_ctx, { principal }, { database }) =>
+          Response.json(database.posts[principal.id]),
+      }),
+    },
+  });
+  const get = (token: string) =>
+    posts(
+      new Request("http://localhost/posts", {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+    );
+
+  assertEquals(await (await get("t1")).json(), ["Hello"]);
+  assertEquals((await get("t2")).status, 401);
+});
@@ -12,41 +12,56 @@
 
 import type { Context } from "@fresh/core";
 import type { z } from "zod";
-import type {
-  ApiDef,
-  ApiMethodDef,
-  HttpMethod,
-  SseEvent,
-  SseEventDef,
-  SseMethodDef,
-  ValidatedRequest,
-} from "../core/types.ts";
-import { validateRequest } from "../core/validation.ts";
+import type { ApiDef, ResponseDefs, SseEventDef } from "../core/types.ts";
+import type { Capabilities, Providers } from "../core/capabilities.ts";
+import type { EndpointPrincipal, SecuritySchemes } from "../core/security.ts";
+import {
+  type ContextAdapter,
+  createRouteHandlers,
+  type EndpointDef,
+  type HandlerOptions,
+  remoteHostname,
+  type SseEndpointDef,
+  stripHandlers,
+} from "../core/runtime.ts";
 
-/** JSON error response */
-function jsonError(error: string, status: number): Response {
-  return new Response(JSON.stringify({ error }), {
-    status,
-    headers: { "Content-Type": "application/json" },
-  });
+export type { HandlerResult } from "../core/runtime.ts";
+
+/**
+ * Options shared by all handlers created by createApiHandlers().
+ * `maxBodySize` and `maxJsonDepth` apply to every endpoint that doesn't set
+ * its own.
+ */
+export interface ApiHandlersOptions extends HandlerOptions {
+  /** Capability providers for endpoints that declare `requires` */
+  // deno-lint-ignore no-explicit-any
+  providers?: Providers<Context<any>>;
 }
 
 /** Fresh-specific method definition with handler */
-export interface FreshApiMethodDef<
+export type FreshApiMethodDef<
   TState,
   TBodySchema extends z.ZodType | undefined = undefined,
   TQuerySchema extends z.ZodType | undefined = undefined,
   TParamsSchema extends z.ZodType | undefined = undefined,
-> extends ApiMethodDef<TBodySchema, TQuerySchema, TParamsSchema> {
-  handler: (
-    ctx: Context<TState>,
-    validated: ValidatedRequest<
-      TBodySchema extends z.ZodType ? z.infer<TBodySchema> : unknown,
-      TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown,
-      TParamsSchema extends z.ZodType ? z.infer<TParamsSchema> : unknown
-    >,
-  ) => Response | Promise<Response>;
-}
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+  TCapabilities = Record<never, never>,
+  TPrincipal = unknown,
+> = EndpointDef<
+  Context<TState>,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses,
+  TCapabilities,
+  TPrincipal
+>;
 
 /**
  * Define an API endpoint with full type inference for the handler.
@@ -63,33 +78,151 @@ export function endpoint<
   TBodySchema extends z.ZodType | undefined = undefined,
   TQuerySchema extends z.ZodType | undefined = undefined,
   TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
 >(
-  def: FreshApiMethodDef<TState, TBodySchema, TQuerySchema, TParamsSchema>,
-): FreshApiMethodDef<TState, TBodySchema, TQuerySchema, TParamsSchema> {
+  def: FreshApiMethodDef<
+    TState,
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema,
+    TResponseSchema,
+    TResponses
+  >,
+): FreshApiMethodDef<
+  TState,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses
+> {
   return def;
 }
 
+// =============================================================================
+// Capabilities
+// =============================================================================
+
+/** endpoint() and createApiHandlers() bound to a provider registry */
+export interface ProviderBindings<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+> {
+  providers: TProviders;
+  securitySchemes: TSchemes;
+  /**
+   * endpoint() whose `requires` must name registered providers and whose
+   * `security` must name registered schemes. The handler's third argument
+   * holds the resolved capabilities, and `principal` is typed by the schemes.
+   */
+  endpoint<
+    TState,
+    TBodySchema extends z.ZodType | undefined = undefined,
+    TQuerySchema extends z.ZodType | undefined = undefined,
+    TParamsSchema extends z.ZodType | undefined = undefined,
+    THeadersSchema extends z.ZodType | undefined = undefined,
+    TCookiesSchema extends z.ZodType | undefined = undefined,
+    TResponseSchema extends z.ZodType | undefined = undefined,
+    TResponses extends ResponseDefs = Record<never, never>,
+    const TRequires extends readonly (keyof TProviders & string)[] = [],
+    const TSecurity extends readonly (keyof TSchemes & string)[] = [],
+  >(
+    def:
+      & FreshApiMethodDef<
+        TState,
+        TBodySchema,
+        TQuerySchema,
+        TParamsSchema,
+        THeadersSchema,
+        TCookiesSchema,
+        TResponseSchema,
+        TResponses,
+        Capabilities<TProviders, TRequires>,
+        EndpointPrincipal<TSchemes, TSecurity>
+      >
+      & { requires?: TRequires; security?: TSecurity },
+  ): FreshApiMethodDef<
+    TState,
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema,
+    TResponseSchema,
+    TResponses,
+    Capabilities<TProviders, TRequires>,
+    EndpointPrincipal<TSchemes, TSecurity>
+  >;
+  /** createApiHandlers() with these providers and security schemes */
+  createApiHandlers<TState, TDef extends Record<string, unknown>>(
+    apiDef: TDef,
+    options?: Omit<ApiHandlersOptions, "providers" | "securitySchemes">,
+  ): ApiHandlers<TState>;
+}
+
+/**
+ * Register capability providers (and optionally security schemes) once and
+ * get endpoint()/createApiHandlers() bound to them. Requiring a capability
+ * without a provider, or naming an unregistered scheme in `security`, is a
+ * compile error. Handlers receive the resolved values as a typed third
+ * argument and the verified principal as `principal`.
+ *
+ * @example
+ * ```ts
+ * const api = withProviders({
+ *   auth: (ctx: Context<State>) => {
+ *     const user = ctx.state.user;
+ *     if (!user) throw new CapabilityError(401, "Unauthorized");
+ *     return user;
+ *   },
+ *   database: () => db,
+ * });
+ *
+ * export const handler = api.createApiHandlers({
+ *   GET: api.endpoint({
+ *     requires: ["auth", "database"],
+ *     handler: (ctx, _data, { auth, database }) =>
+ *       Response.json(database.postsFor(auth.id)),
+ *   }),
+ * });
+ * ```
+ */
+export function withProviders<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+>(
+  providers: TProviders,
+  options: { securitySchemes?: TSchemes } = {},
+): ProviderBindings<TProviders, TSchemes> {
+  const securitySchemes = options.securitySchemes ?? {} as TSchemes;
+  return {
+    providers,
+    securitySchemes,
+    // deno-lint-ignore no-explicit-any
+    endpoint: (def: any) => def,
+    createApiHandlers: (apiDef, options = {}) =>
+      createApiHandlers(apiDef, { ...options, providers, securitySchemes }),
+  };
+}
+
 // =============================================================================
 // SSE Support
 // =============================================================================
 
 /** Fresh-specific SSE method definition with generator handler */
-export interface FreshSseMethodDef<
+export type FreshSseMethodDef<
   TState,
   TQuerySchema extends z.ZodType | undefined = undefined,
   TParamsSchema extends z.ZodType | undefined = undefined,
   TEvents extends SseEventDef = SseEventDef,
-> extends SseMethodDef<TQuerySchema, TParamsSchema, TEvents> {
-  handler: (
-    ctx: Context<TState>,
-    validated: {
-      query: TQuerySchema extends z.ZodType ? z.infer<TQuerySchema> : unknown;
-      params: TParamsSchema extends z.ZodType ? z.infer<TParamsSchema>
-        : unknown;
-    },
-    signal: AbortSignal,
-  ) => AsyncGenerator<SseEvent<TEvents>, void, unknown>;
-}
+> = SseEndpointDef<Context<TState>, TQuerySchema, TParamsSchema, TEvents>;
 
 /**
  * Define an SSE endpoint with full type inference.
@@ -124,58 +257,19 @@ export function sseEndpoint<
   return def;
 }
 
-/**
- * Create SSE response from async generator.
- */
-function createSseResponse<TEvents extends SseEventDef>(
-  generator: AsyncGenerator<SseEvent<TEvents>, void, unknown>,
-  signal: AbortSignal,
-): Response {
-  const encoder = new TextEncoder();
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const event of generator) {
-          if (signal.aborted) break;
-
-          let message = "";
-          if (event.event) {
-            message += `event: ${String(event.event)}\n`;
-          }
-          if (event.id) {
-            message += `id: ${event.id}\n`;
-          }
-          if (event.retry !== undefined) {
-            message += `retry: ${event.retry}\n`;
-          }
-          message += `data: ${JSON.stringify(event.data)}\n\n`;
-
-          controller.enqueue(encoder.encode(message));
-        }
-      } catch (error) {
-        if (!signal.aborted) {
-          console.error("SSE stream error:", error);
-        }
-      } finally {
-        controller.close();
-      }
-    },
-  });
+/** Fresh route handlers with the API definition attached */
+export type ApiHandlers<TState> =
+  & Record<string, (ctx: Context<TState>) => Promise<Response>>
+  & { __apiDef: ApiDef };
 
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      "Connection": "keep-alive",
-    },
-  });
-}
-
-/** Check if a definition is an SSE endpoint */
-function isSseEndpoint(def: unknown): boolean {
-  return typeof def === "object" && def !== null && "events" in def;
-}
+/** Fresh's context carries the Request and params, plus connection info */
+// deno-lint-ignore no-explicit-any
+const fromFreshContext: ContextAdapter<Context<any>> = (ctx) => ({
+  req: ctx.req,
+  params: ctx.params,
+  ip: remoteHostname(ctx.info?.remoteAddr),
+  route: ctx.route ?? undefined,
+});
 
 /**
  * Create Fresh route handlers with automatic validation.
@@ -193,86 +287,21 @@ function isSseEndpoint(def: unknown): boolean {
  */
 export function createApiHandlers<TState, TDef extends Record<string, unknown>>(
   apiDef: TDef,
-): Record<string, (ctx: Context<TState>) => Promise<Response>> & {
-  __apiDef: ApiDef;
-} {
-  const handlers: Record<
-    string,
-    (ctx: Context<TState>) => Promise<Response>
-  > = {};
-
-  type MethodDef = FreshApiMethodDef<TState, z.ZodType, z.ZodType, z.ZodType>;
-  type SseDef = FreshSseMethodDef<TState, z.ZodType, z.ZodType, SseEventDef>;
-
-  for (const [method, def] of Object.entries(apiDef)) {
-    if (!def) continue;
-
-    // Handle SSE endpoints
-    if (isSseEndpoint(def)) {
-      const sseDef = def as SseDef;
-      handlers[method] = async (ctx: Context<TState>) => {
-        // Validate query and params only (SSE has no body)
-        const result = await validateRequest(
-          {
-            json: () => Promise.resolve(undefined),
-            url: ctx.req.url,
-            params: ctx.params as Record<string, string>,
-          },
-          { query: sseDef.query, params: sseDef.params },
-          "GET",
-        );
-
-        if (!result.success) {
-          return jsonError(result.error, 400);
-        }
-
-        const abortController = new AbortController();
-
-        // Clean up on client disconnect
-        ctx.req.signal.addEventListener("abort", () => {
-          abortController.abort();
-        });
-
-        const generator = sseDef.handler(
-          ctx,
-          { query: result.data.query, params: result.data.params },
-          abortController.signal,
-        );
-
-        return createSseResponse(generator, abortController.signal);
-      };
-    } else {
-      // Handle regular REST endpoints
-      const methodDef = def as MethodDef;
-      handlers[method] = async (ctx: Context<TState>) => {
-        const result = await validateRequest(
-          {
-            json: () => ctx.req.json(),
-            url: ctx.req.url,
-            params: ctx.params as Record<string, string>,
-          },
-          methodDef,
-          method,
-        );
-
-        if (!result.success) {
-          return jsonError(result.error, 400);
-        }
-
-        return await methodDef.handler(ctx, result.data);
-      };
-    }
+  options: ApiHandlersOptions = {},
+): ApiHandlers<TState> {
+  // Fresh routes files by their raw path, so it can't strip a version prefix
+  if (
+    options.versioning?.by === "path" &&
+    options.versioning.basePath === undefined
+  ) {
+    throw new Error(
+      'Versioning by path needs `basePath` with Fresh: serve the route under each version prefix (e.g. routes/api/v1/users.ts) and set the path before the version segment (e.g. "/api")',
+    );
   }
+  const handlers: Record<string, (ctx: Context<TState>) => Promise<Response>> =
+    createRouteHandlers<Context<TState>>(apiDef, options, fromFreshContext)
+      .handlers;
 
   // Attach apiDef for OpenAPI/type generation (strip handlers)
-  // deno-lint-ignore no-explicit-any
-  const apiDefWithoutHandlers: Record<string, any> = {};
-  for (const [method, def] of Object.entries(apiDef)) {
-    if (!def) continue;
-    // deno-lint-ignore no-explicit-any
-    const { handler: _, ...rest } = def as Record<string, any>;
-    apiDefWithoutHandlers[method as HttpMethod] = rest;
-  }
-
-  return Object.assign(handlers, { __apiDef: apiDefWithoutHandlers });
+  return Object.assign(handlers, { __apiDef: stripHandlers(apiDef) });
 }
@@ -1,5 +1,18 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
 import { assertSnapshot } from "@std/testing/snapshot";
-import { createApiHandlers, endpoint, sseEndpoint } from "./fresh.ts";
+import {
+  createApiHandlers,
+  endpoint,
+  sseEndpoint,
+  withProviders,
+} from "./fresh.ts";
+import { CapabilityError } from "../core/capabilities.ts";
+import { apiError, defineErrors } from "../core/errors.ts";
+import { memoryTracer } from "../core/tracing.ts";
+import type { AccessLogEntry } from "../core/accesslog.ts";
+import { REDACTED } from "../core/redaction.ts";
+import { apiKeyAuth, bearerAuth } from "../core/security.ts";
+import { visibleTo } from "../core/authorization.ts";
 import { z } from "zod";
 import { cursor, cursorId, offset, page, url } from "../pagination/index.ts";
 
@@ -9,7 +22,9 @@ function createMockContext(options: {
   method?: string;
   body?: unknown;
   params?: Record<string, string>;
+  headers?: Record<string, string>;
   signal?: AbortSignal;
+  remoteAddr?: string;
   // deno-lint-ignore no-explicit-any
 }): any {
   const controller = new AbortController();
@@ -18,9 +33,18 @@ function createMockContext(options: {
       url: options.url ?? "http://localhost:3000/api/test",
       method: options.method ?? "GET",
       json: () => Promise.resolve(options.body),
+      headers: new Headers(options.headers),
       signal: options.signal ?? controller.signal,
     },
     params: options.params ?? {},
+    info: {
+      remoteAddr: {
+        transport: "tcp",
+        hostname: options.remoteAddr ?? "127.0.0.1",
+        port: 4000,
+      },
+    },
+    route: "/api/test",
   };
 }
 
@@ -188,6 +212,1076 @@ Deno.test("createApiHandlers mixes REST and SSE endpoints", async (t) => {
   });
 });
 
+// =============================================================================
+// Validation problem responses
+// =============================================================================
+
+Deno.test("createApiHandlers returns problem+json for invalid body", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      handler: () => Response.json({ ok: true }),
+    }),
+  });
+
+  const response = await handlers.POST(
+    createMockContext({ method: "POST", body: { name: 42 } }),
+  );
+
+  assertEquals(response.status, 400);
+  assertEquals(
+    response.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+  const problem = await response.json();
+  assertEquals(problem.title, "Request validation failed");
+  assertEquals(problem.issues.length, 1);
+  assertEquals(problem.issues[0].path, ["name"]);
+  assertEquals(problem.issues[0].location, "body");
+});
+
+Deno.test("createApiHandlers uses validationStatus for invalid requests", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      validationStatus: 422,
+      handler: () => Response.json({ ok: true }),
+    }),
+  });
+
+  const response = await handlers.POST(
+    createMockContext({ method: "POST", body: {} }),
+  );
+
+  assertEquals(response.status, 422);
+  await response.body?.cancel();
+});
+
+Deno.test("createApiHandlers returns 413 for bodies over maxBodySize", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      handler: () => Response.json({ ok: true }),
+    }),
+  }, { maxBodySize: 16 });
+
+  const response = await handlers.POST({
+    req: new Request("http://localhost:3000/api/test", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "x".repeat(100) }),
+    }),
+    params: {},
+    // deno-lint-ignore no-explicit-any
+  } as any);
+
+  assertEquals(response.status, 413);
+  assertEquals((await response.json()).title, "Payload too large");
+});
+
+Deno.test("createApiHandlers returns 415 for unaccepted content types", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      handler: () => Response.json({ ok: true }),
+    }),
+  });
+
+  const response = await handlers.POST({
+    req: new Request("http://localhost:3000/api/test", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: "name=Sam",
+    }),
+    params: {},
+    // deno-lint-ignore no-explicit-any
+  } as any);
+
+  assertEquals(response.status, 415);
+  assertEquals((await response.json()).title, "Unsupported media type");
+});
+
+Deno.test("createApiHandlers passes a respond helper to handlers", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      responses: {
+        201: z.object({ id: z.string() }),
+        204: z.undefined(),
+      },
+      handler: (_ctx, { body, respond }) =>
+        body.name === "skip"
+          ? respond(204, undefined)
+          : respond(201, { id: "1" }, { headers: { Location: "/users/1" } }),
+    }),
+  });
+
+  const created = await handlers.POST(
+    createMockContext({ method: "POST", body: { name: "Sam" } }),
+  );
+  assertEquals(created.status, 201);
+  assertEquals(created.headers.get("Location"), "/users/1");
+  assertEquals(await created.json(), { id: "1" });
+
+  const skipped = await handlers.POST(
+    createMockContext({ method: "POST", body: { name: "skip" } }),
+  );
+  assertEquals(skipped.status, 204);
+  assertEquals(skipped.body, null);
+});
+
+Deno.test("createApiHandlers sends plain handler data as a 200 JSON response", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      response: z.object({ id: z.string() }),
+      handler: () => ({ id: "1" }),
+    }),
+  });
+
+  const response = await handlers.GET(createMockContext({}));
+
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("Content-Type"), "application/json");
+  assertEquals(await response.json(), { id: "1" });
+});
+
+Deno.test("createApiHandlers resolves required capabilities for handlers", async () => {
+  const api = withProviders({
+    // deno-lint-ignore no-explicit-any
+    auth: (ctx: any) => {
+      const user = new URL(ctx.req.url).searchParams.get("user");
+      if (!user) throw new CapabilityError(401, "Unauthorized");
+      return { id: user };
+    },
+    database: () => Promise.resolve({ name: "primary" }),
+  });
+
+  const handlers = api.createApiHandlers({
+    GET: api.endpoint({
+      requires: ["auth", "database"],
+      handler: (_ctx, _data, { auth, database }) =>
+        Response.json({ user: auth.id, db: database.name }),
+    }),
+  });
+
+  const ok = await handlers.GET(
+    createMockContext({ url: "http://localhost:3000/api/test?user=sam" }),
+  );
+  assertEquals(await ok.json(), { user: "sam", db: "primary" });
+
+  const denied = await handlers.GET(createMockContext({}));
+  assertEquals(denied.status, 401);
+  assertEquals(
+    denied.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+  assertEquals((await denied.json()).title, "Unauthorized");
+});
+
+Deno.test("createApiHandlers throws when a required provider is missing", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({
+          requires: ["auth"],
+          handler: () => Response.json({}),
+        }),
+      }),
+    Error,
+    "GET endpoint requires capabilities without a provider: auth",
+  );
+});
+
+Deno.test("createApiHandlers authenticates endpoints with security schemes", async () => {
+  const api = withProviders({}, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => token === "t1" ? { id: "sam" } : null,
+      }),
+      apiKey: apiKeyAuth({
+        in: "header",
+        name: "X-Api-Key",
+        verify: (key) => key === "k1" ? { id: "bot" } : null,
+      }),
+    },
+  });
+
+  const handlers = api.createApiHandlers({
+    GET: api.endpoint({
+      security: ["bearer", "apiKey"],
+      handler: (_ctx, { principal }) => Response.json({ user: principal.id }),
+    }),
+  });
+
+  const bearer = await handlers.GET(
+    createMockContext({ headers: { Authorization: "Bearer t1" } }),
+  );
+  assertEquals(await bearer.json(), { user: "sam" });
+
+  const apiKey = await handlers.GET(
+    createMockContext({ headers: { "X-Api-Key": "k1" } }),
+  );
+  assertEquals(await apiKey.json(), { user: "bot" });
+
+  const denied = await handlers.GET(
+    createMockContext({ headers: { Authorization: "Bearer nope" } }),
+  );
+  assertEquals(denied.status, 401);
+  assertEquals(denied.headers.get("WWW-Authenticate"), "Bearer");
+  assertEquals(
+    denied.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+});
+
+Deno.test("createApiHandlers authenticates before validating", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      security: ["bearer"],
+      body: z.object({ name: z.string() }),
+      handler: () => Response.json({}),
+    }),
+  }, {
+    securitySchemes: { bearer: bearerAuth({ verify: () => null }) },
+  });
+
+  const response = await handlers.POST(
+    createMockContext({ method: "POST", body: {} }),
+  );
+  assertEquals(response.status, 401);
+});
+
+Deno.test("createApiHandlers throws when a security scheme is not registered", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({
+          security: ["bearer"],
+          handler: () => Response.json({}),
+        }),
+      }),
+    Error,
+    "GET endpoint uses unregistered security schemes: bearer",
+  );
+});
+
+Deno.test("createApiHandlers enforces authorization policies", async () => {
+  const api = withProviders({}, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => ({
+          id: token,
+          roles: token === "ada" ? ["admin"] : [],
+        }),
+      }),
+    },
+  });
+
+  const handlers = api.createApiHandlers({
+    GET: api.endpoint({
+      security: ["bearer"],
+      params: z.object({ id: z.string() }),
+      authorize: {
+        check: (principal, { params }) =>
+          principal.roles.includes("admin") || principal.id === params.id,
+      },
+      handler: (_ctx, { params }) => Response.json({ id: params.id }),
+    }),
+    DELETE: api.endpoint({
+      security: ["bearer"],
+      authorize: { roles: ["admin"] },
+      handler: () => new Response(null, { status: 204 }),
+    }),
+  });
+
+  const context = (token: string, id = "sam") =>
+    createMockContext({
+      params: { id },
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+  assertEquals((await handlers.GET(context("sam"))).status, 200);
+  assertEquals((await handlers.GET(context("ada"))).status, 200);
+  const forbidden = await handlers.GET(context("bob"));
+  assertEquals(forbidden.status, 403);
+  assertEquals((await forbidden.json()).title, "Forbidden");
+
+  assertEquals((await handlers.DELETE(context("ada"))).status, 204);
+  assertEquals((await handlers.DELETE(context("sam"))).status, 403);
+});
+
+Deno.test("createApiHandlers enforces rate limits per client", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      rateLimit: { window: "1m", max: 2 },
+      handler: () => Response.json({ ok: true }),
+    }),
+  });
+
+  const first = await handlers.GET(createMockContext({}));
+  assertEquals(first.status, 200);
+  assertEquals(first.headers.get("RateLimit-Limit"), "2");
+  assertEquals(first.headers.get("RateLimit-Remaining"), "1");
+
+  await handlers.GET(createMockContext({}));
+  const limited = await handlers.GET(createMockContext({}));
+  assertEquals(limited.status, 429);
+  assertEquals(limited.headers.get("Content-Type"), "application/problem+json");
+  assertEquals(limited.headers.get("RateLimit-Remaining"), "0");
+  assertEquals(Number(limited.headers.get("Retry-After")) > 0, true);
+  assertEquals((await limited.json()).title, "Too Many Requests");
+
+  // Other clients have their own budget
+  const other = await handlers.GET(
+    createMockContext({ remoteAddr: "10.0.0.2" }),
+  );
+  assertEquals(other.status, 200);
+});
+
+Deno.test("createApiHandlers keys rate limits by principal", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      security: ["bearer"],
+      rateLimit: { window: "1m", max: 1, key: "principal" },
+      handler: () => Response.json({ ok: true }),
+    }),
+  }, {
+    securitySchemes: {
+      bearer: bearerAuth({ verify: (token) => ({ id: token }) }),
+    },
+  });
+
+  const as = (token: string) =>
+    createMockContext({ headers: { Authorization: `Bearer ${token}` } });
+
+  assertEquals((await handlers.GET(as("ada"))).status, 200);
+  assertEquals((await handlers.GET(as("ada"))).status, 429);
+  assertEquals((await handlers.GET(as("sam"))).status, 200);
+});
+
+Deno.test("createApiHandlers counts failed authentication per IP", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      security: ["bearer"],
+      rateLimit: { window: "1m", max: 2, key: "principal" },
+      handler: () => Response.json({ ok: true }),
+    }),
+  }, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => token === "secret" ? { id: "ada" } : undefined,
+      }),
+    },
+  });
+  const guess = (token: string, remoteAddr = "10.0.0.1") =>
+    handlers.POST(createMockContext({
+      method: "POST",
+      remoteAddr,
+      headers: { Authorization: `Bearer ${token}` },
+    }));
+
+  const first = await guess("a");
+  assertEquals(first.status, 401);
+  assertEquals(first.headers.get("RateLimit-Remaining"), "1");
+  assertEquals((await guess("b")).status, 401);
+  assertEquals((await guess("secret")).status, 200);
+  assertEquals((await guess("c")).status, 429);
+  assertEquals((await guess("c", "10.0.0.2")).status, 401);
+});
+
+Deno.test("createApiHandlers throws on an invalid rate limit window", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({
+          rateLimit: { window: "soon", max: 1 },
+          handler: () => Response.json({}),
+        }),
+      }),
+    Error,
+    'Invalid rate limit window: "soon"',
+  );
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({
+          rateLimit: { window: 0, max: 1 },
+          handler: () => Response.json({}),
+        }),
+      }),
+    Error,
+    'Invalid rate limit window: "0"',
+  );
+});
+
+Deno.test("createApiHandlers replays idempotent responses", async () => {
+  let created = 0;
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ amount: z.number() }),
+      idempotent: true,
+      handler: () => Response.json({ id: ++created }, { status: 201 }),
+    }),
+  });
+
+  const pay = (amount: number, key = "key-1") =>
+    handlers.POST(createMockContext({
+      method: "POST",
+      body: { amount },
+      headers: { "Idempotency-Key": key },
+    }));
+
+  assertEquals(await (await pay(10)).json(), { id: 1 });
+  const replay = await pay(10);
+  assertEquals(replay.status, 201);
+  assertEquals(replay.headers.get("Idempotent-Replayed"), "true");
+  assertEquals(await replay.json(), { id: 1 });
+  assertEquals((await pay(20)).status, 422);
+  assertEquals(await (await pay(10, "key-2")).json(), { id: 2 });
+  assertEquals(created, 2);
+});
+
+Deno.test("createApiHandlers requires an Idempotency-Key when configured", async () => {
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      idempotent: { required: true },
+      handler: () => Response.json({ ok: true }),
+    }),
+  });
+
+  const response = await handlers.POST(createMockContext({ method: "POST" }));
+  assertEquals(response.status, 400);
+  assertEquals(
+    (await response.json()).detail,
+    "This endpoint requires an Idempotency-Key header",
+  );
+});
+
+Deno.test("createApiHandlers throws on an invalid idempotency ttl", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        POST: endpoint({
+          idempotent: { ttl: "a while" },
+          handler: () => Response.json({}),
+        }),
+      }),
+    Error,
+    'Invalid idempotency ttl: "a while"',
+  );
+});
+
+Deno.test("createApiHandlers answers conditional GETs with 304", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      etag: "hash",
+      handler: () => Response.json({ id: "1", name: "Ada" }),
+    }),
+  });
+
+  const first = await handlers.GET(createMockContext({}));
+  const etag = first.headers.get("ETag");
+  assertEquals(typeof etag, "string");
+
+  const cached = await handlers.GET(
+    createMockContext({ headers: { "If-None-Match": etag! } }),
+  );
+  assertEquals(cached.status, 304);
+  assertEquals(cached.body, null);
+  assertEquals(cached.headers.get("ETag"), etag);
+});
+
+Deno.test("createApiHandlers checks If-Match on writes", async () => {
+  const user = { id: "1", name: "Ada", version: 1 };
+  const handlers = createApiHandlers({
+    PUT: endpoint({
+      body: z.object({ name: z.string() }),
+      etag: { field: "version", current: () => user },
+      handler: (_ctx, { body }) => {
+        user.name = body.name;
+        user.version++;
+        return Response.json(user);
+      },
+    }),
+  });
+
+  const put = (headers: Record<string, string>) =>
+    handlers.PUT(createMockContext({
+      method: "PUT",
+      body: { name: "Sam" },
+      headers,
+    }));
+
+  assertEquals((await put({})).status, 428);
+  assertEquals((await put({ "If-Match": '"0"' })).status, 412);
+  const updated = await put({ "If-Match": '"1"' });
+  assertEquals(updated.status, 200);
+  assertEquals(updated.headers.get("ETag"), '"2"');
+  assertEquals((await put({ "If-Match": '"1"' })).status, 412);
+});
+
+Deno.test("createApiHandlers replays idempotent writes before checking If-Match", async () => {
+  const user = { id: "1", name: "Ada", version: 1 };
+  const handlers = createApiHandlers({
+    PUT: endpoint({
+      body: z.object({ name: z.string() }),
+      idempotent: true,
+      etag: { field: "version", current: () => user },
+      handler: (_ctx, { body }) => {
+        user.name = body.name;
+        user.version++;
+        return Response.json(user);
+      },
+    }),
+  });
+  const put = (key: string) =>
+    handlers.PUT(createMockContext({
+      method: "PUT",
+      body: { name: "Sam" },
+      headers: { "If-Match": '"1"', "Idempotency-Key": key },
+    }));
+
+  assertEquals((await put("k1")).status, 200);
+  const retried = await put("k1");
+  assertEquals(retried.status, 200);
+  assertEquals(retried.headers.get("Idempotent-Replayed"), "true");
+  assertEquals((await put("k2")).status, 412);
+  assertEquals((await put("k2")).status, 412);
+});
+
+Deno.test("createApiHandlers hashes ETags before stripping restricted fields", async () => {
+  const user = { id: "1", name: "Ada", email: "ada@example.com" };
+  const User = z.object({
+    id: z.string(),
+    name: z.string(),
+    email: visibleTo(z.string(), ["admin"]).optional(),
+  });
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      response: User,
+      etag: "hash",
+      handler: () => user,
+    }),
+    PUT: endpoint({
+      body: z.object({ name: z.string() }),
+      response: User,
+      etag: { current: () => user },
+      handler: (_ctx, { body }) => {
+        user.name = body.name;
+        return user;
+      },
+    }),
+  });
+
+  const read = await handlers.GET(createMockContext({}));
+  assertEquals(await read.json(), { id: "1", name: "Ada" });
+  const updated = await handlers.PUT(createMockContext({
+    method: "PUT",
+    body: { name: "Sam" },
+    headers: { "If-Match": read.headers.get("ETag")! },
+  }));
+  assertEquals(updated.status, 200);
+  assertEquals(await updated.json(), { id: "1", name: "Sam" });
+});
+
+Deno.test("createApiHandlers throws on write ETags without current()", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        DELETE: endpoint({
+          etag: { field: "version" },
+          handler: () => new Response(null, { status: 204 }),
+        }),
+      }),
+    Error,
+    "DELETE endpoint uses etag without current()",
+  );
+});
+
+Deno.test("createApiHandlers derives HEAD, OPTIONS and 405 handlers", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({ handler: () => Response.json({ id: "1" }) }),
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      handler: (_ctx, { body }) => Response.json(body, { status: 201 }),
+    }),
+  });
+
+  const head = await handlers.HEAD(createMockContext({ method: "HEAD" }));
+  assertEquals(head.status, 200);
+  assertEquals(head.body, null);
+  assertEquals(head.headers.get("Content-Type"), "application/json");
+
+  const options = await handlers.OPTIONS(
+    createMockContext({ method: "OPTIONS" }),
+  );
+  assertEquals(options.status, 204);
+  assertEquals(options.headers.get("Allow"), "GET, POST, HEAD, OPTIONS");
+  assertEquals(options.headers.has("Access-Control-Allow-Origin"), false);
+
+  const notAllowed = await handlers.DELETE(
+    createMockContext({ method: "DELETE" }),
+  );
+  assertEquals(notAllowed.status, 405);
+  assertEquals(notAllowed.headers.get("Allow"), "GET, POST, HEAD, OPTIONS");
+});
+
+Deno.test("createApiHandlers answers CORS preflights from the definition", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({ handler: () => Response.json({ id: "1" }) }),
+    PUT: endpoint({
+      headers: z.object({ "x-request-id": z.string() }),
+      body: z.object({ name: z.string() }),
+      security: ["bearer"],
+      handler: (_ctx, { body }) => Response.json(body),
+    }),
+  }, {
+    cors: { origin: "https://app.test", maxAge: 600 },
+    securitySchemes: {
+      bearer: bearerAuth({ verify: (token) => ({ token }) }),
+    },
+  });
+
+  const preflight = await handlers.OPTIONS(createMockContext({
+    method: "OPTIONS",
+    headers: {
+      "Origin": "https://app.test",
+      "Access-Control-Request-Method": "PUT",
+    },
+  }));
+  assertEquals(preflight.status, 204);
+  assertEquals(
+    preflight.headers.get("Access-Control-Allow-Origin"),
+    "https://app.test",
+  );
+  assertEquals(
+    preflight.headers.get("Access-Control-Allow-Methods"),
+    "GET, PUT, HEAD, OPTIONS",
+  );
+  assertEquals(
+    preflight.headers.get("Access-Control-Allow-Headers"),
+    "x-request-id, Content-Type, Authorization, Idempotency-Key, traceparent",
+  );
+  assertEquals(preflight.headers.get("Access-Control-Max-Age"), "600");
+
+  const other = await handlers.OPTIONS(createMockContext({
+    method: "OPTIONS",
+    headers: {
+      "Origin": "https://evil.test",
+      "Access-Control-Request-Method": "PUT",
+    },
+  }));
+  assertEquals(other.headers.has("Access-Control-Allow-Origin"), false);
+
+  const response = await handlers.GET(
+    createMockContext({ headers: { "Origin": "https://app.test" } }),
+  );
+  assertEquals(
+    response.headers.get("Access-Control-Allow-Origin"),
+    "https://app.test",
+  );
+  assertEquals(response.headers.get("Vary"), "Origin");
+});
+
+Deno.test("createApiHandlers lets methods override the global CORS config", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({ handler: () => Response.json({}) }),
+    POST: endpoint({
+      cors: false,
+      handler: () => Response.json({}, { status: 201 }),
+    }),
+  }, { cors: true });
+
+  const headers = { "Origin": "https://app.test" };
+  const get = await handlers.GET(createMockContext({ headers }));
+  assertEquals(get.headers.get("Access-Control-Allow-Origin"), "*");
+  const post = await handlers.POST(
+    createMockContext({ method: "POST", headers }),
+  );
+  assertEquals(post.headers.has("Access-Control-Allow-Origin"), false);
+
+  const preflight = await handlers.OPTIONS(createMockContext({
+    method: "OPTIONS",
+    headers: { ...headers, "Access-Control-Request-Method": "POST" },
+  }));
+  assertEquals(preflight.headers.has("Access-Control-Allow-Origin"), false);
+});
+
+Deno.test("createApiHandlers announces deprecated endpoints", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      query: z.object({ limit: z.coerce.number() }),
+      sunset: { date: "2027-01-01", replacement: "/api/v2/test" },
+      handler: () => Response.json([]),
+    }),
+    POST: endpoint({ handler: () => Response.json({}) }),
+  });
+
+  const ok = await handlers.GET(
+    createMockContext({ url: "http://localhost:3000/api/test?limit=5" }),
+  );
+  assertEquals(ok.headers.get("Deprecation"), "true");
+  assertEquals(ok.headers.get("Sunset"), "Fri, 01 Jan 2027 00:00:00 GMT");
+  assertEquals(
+    ok.headers.get("Link"),
+    '</api/v2/test>; rel="successor-version"',
+  );
+
+  // Errors are announced too
+  const invalid = await handlers.GET(createMockContext({}));
+  assertEquals(invalid.status, 400);
+  assertEquals(invalid.headers.get("Deprecation"), "true");
+
+  const current = await handlers.POST(createMockContext({ method: "POST" }));
+  assertEquals(current.headers.has("Deprecation"), false);
+});
+
+Deno.test("createApiHandlers throws on invalid sunset dates", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({
+          sunset: { date: "someday" },
+          handler: () => Response.json([]),
+        }),
+      }),
+    Error,
+    'Invalid sunset date: "someday"',
+  );
+});
+
+Deno.test("createApiHandlers serves older versions through upgraders", async () => {
+  const received: unknown[] = [];
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      body: z.object({ fullName: z.string() }),
+      response: z.object({ id: z.string(), fullName: z.string() }),
+      versions: {
+        "1": {
+          body: z.object({ name: z.string() }),
+          response: z.object({ id: z.string(), name: z.string() }),
+          upgrade: (body: { name: string }) => ({ fullName: body.name }),
+          downgrade: (user: { id: string; fullName: string }) => ({
+            id: user.id,
+            name: user.fullName,
+          }),
+        },
+      },
+      handler: (_ctx, { body }) => {
+        received.push(body);
+        return Response.json({ id: "1", fullName: body.fullName });
+      },
+    }),
+  }, { versioning: { versions: ["1", "2"] } });
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    handlers.POST(createMockContext({ method: "POST", body, headers }));
+
+  const v1 = await post({ name: "Ada" }, { "Api-Version": "1" });
+  assertEquals(await v1.json(), { id: "1", name: "Ada" });
+  assertEquals(v1.headers.get("Api-Version"), "1");
+  assertEquals(v1.headers.get("Vary"), "Api-Version");
+
+  const v2 = await post({ fullName: "Sam" });
+  assertEquals(await v2.json(), { id: "1", fullName: "Sam" });
+  assertEquals(v2.headers.get("Api-Version"), "2");
+  assertEquals(received, [{ fullName: "Ada" }, { fullName: "Sam" }]);
+
+  // Each version validates its own shape
+  const invalid = await post({ fullName: "Ada" }, { "Api-Version": "1" });
+  assertEquals(invalid.status, 400);
+  assertEquals((await invalid.json()).issues[0].path, ["name"]);
+
+  const unsupported = await post({ fullName: "Ada" }, { "Api-Version": "3" });
+  assertEquals(unsupported.status, 400);
+  assertEquals((await unsupported.json()).title, "Unsupported API Version");
+});
+
+Deno.test("createApiHandlers needs basePath to version by path", () => {
+  const apiDef = { GET: endpoint({ handler: () => Response.json([]) }) };
+  assertThrows(
+    () =>
+      createApiHandlers(apiDef, {
+        versioning: { versions: ["1", "2"], by: "path" },
+      }),
+    Error,
+    "Versioning by path needs `basePath` with Fresh",
+  );
+  createApiHandlers(apiDef, {
+    versioning: { versions: ["1", "2"], by: "path", basePath: "/api" },
+  });
+});
+
+Deno.test("createApiHandlers throws on versions without versioning options", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({
+          versions: { "1": { downgrade: (body: unknown) => body } },
+          handler: () => Response.json([]),
+        }),
+      }),
+    Error,
+    "GET endpoint declares versions without versioning options",
+  );
+});
+
+Deno.test("createApiHandlers answers slow handlers with a 504", async () => {
+  let aborted = false;
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      timeout: 10,
+      handler: (_ctx, { signal }) =>
+        new Promise<Response>((resolve) => {
+          signal.addEventListener("abort", () => {
+            aborted = true;
+            resolve(Response.json([]));
+          });
+        }),
+    }),
+    POST: endpoint({ handler: () => Response.json({}, { status: 201 }) }),
+  }, { timeout: "1s" });
+
+  const slow = await handlers.GET(createMockContext({}));
+  assertEquals(slow.status, 504);
+  assertEquals((await slow.json()).title, "Gateway Timeout");
+  assertEquals(aborted, true);
+
+  const fast = await handlers.POST(createMockContext({ method: "POST" }));
+  assertEquals(fast.status, 201);
+});
+
+Deno.test("createApiHandlers aborts handlers when the client disconnects", async () => {
+  const controller = new AbortController();
+  let signal: AbortSignal | undefined;
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      handler: (_ctx, data) => {
+        signal = data.signal;
+        controller.abort();
+        return new Promise<Response>(() => {});
+      },
+    }),
+  });
+
+  const response = await handlers.GET(
+    createMockContext({ signal: controller.signal }),
+  );
+  assertEquals(response.status, 503);
+  assertEquals(signal?.aborted, true);
+});
+
+Deno.test("createApiHandlers throws on invalid timeouts", () => {
+  assertThrows(
+    () =>
+      createApiHandlers({
+        GET: endpoint({ timeout: "soon", handler: () => Response.json([]) }),
+      }),
+    Error,
+    'Invalid timeout: "soon"',
+  );
+});
+
+Deno.test("createApiHandlers answers thrown catalog errors with problems", async () => {
+  const errors = defineErrors({
+    NOT_FOUND: {
+      status: 404,
+      title: "User not found",
+      details: z.object({ id: z.string() }),
+    },
+    CONFLICT: { status: 409 },
+  });
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      params: z.object({ id: z.string() }),
+      errors: [errors.NOT_FOUND],
+      handler: (_ctx, { params }) => {
+        const details = { id: params.id, extra: true };
+        throw apiError(errors.NOT_FOUND, details);
+      },
+    }),
+    DELETE: endpoint({
+      handler: () => {
+        throw apiError(errors.CONFLICT);
+      },
+    }),
+  });
+
+  const response = await handlers.GET(
+    createMockContext({ params: { id: "42" } }),
+  );
+  assertEquals(response.status, 404);
+  assertEquals(
+    response.headers.get("Content-Type"),
+    "application/problem+json",
+  );
+  assertEquals(await response.json(), {
+    type: "about:blank",
+    title: "User not found",
+    status: 404,
+    code: "NOT_FOUND",
+    details: { id: "42" },
+  });
+
+  // Errors the endpoint doesn't list propagate like any other exception
+  await assertRejects(
+    () => handlers.DELETE(createMockContext({ method: "DELETE" })),
+    Error,
+    "CONFLICT",
+  );
+});
+
+Deno.test("createApiHandlers calls lifecycle hooks and traces requests", async () => {
+  const events: string[] = [];
+  const tracer = memoryTracer();
+  let traceparent: string | undefined;
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      operationId: "usersList",
+      query: z.object({ limit: z.coerce.number().max(100) }),
+      handler: (_ctx, data) => {
+        traceparent = data.traceparent;
+        return Response.json([]);
+      },
+    }),
+  }, {
+    tracer,
+    hooks: {
+      onRequest: ({ method, route }) => {
+        events.push(`request ${method} ${route}`);
+      },
+      onValidationError: (_info, problem) => {
+        events.push(`invalid ${problem.issues[0].location}`);
+      },
+      onResponse: (_info, response) => {
+        events.push(`response ${response.status}`);
+      },
+    },
+  });
+
+  const ok = await handlers.GET(createMockContext({
+    url: "http://localhost:3000/api/users?limit=10",
+    headers: {
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+    },
+  }));
+  assertEquals(ok.status, 200);
+  const invalid = await handlers.GET(createMockContext({
+    url: "http://localhost:3000/api/users?limit=1000",
+  }));
+  assertEquals(invalid.status, 400);
+
+  assertEquals(events, [
+    "request GET /api/test",
+    "response 200",
+    "request GET /api/test",
+    "invalid query",
+    "response 400",
+  ]);
+  const [first, second] = tracer.spans;
+  assertEquals(first.name, "usersList");
+  assertEquals(first.context.traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+  assertEquals(first.attributes["http.response.status_code"], 200);
+  assertEquals(traceparent?.split("-")[2], first.context.spanId);
+  assertEquals(second.attributes["validation.location"], "query");
+  assertEquals(second.attributes["http.response.status_code"], 400);
+});
+
+Deno.test("createApiHandlers writes access logs with sensitive fields masked", async () => {
+  const entries: AccessLogEntry[] = [];
+  const password = z.string().min(8).meta({ sensitive: true });
+  const handlers = createApiHandlers({
+    POST: endpoint({
+      operationId: "sessionCreate",
+      body: z.object({ username: z.string(), password }),
+      response: z.object({ token: z.string().meta({ sensitive: true }) }),
+      handler: () => ({ token: "secret" }),
+    }),
+  }, { accessLog: (entry) => void entries.push(entry) });
+
+  const ok = await handlers.POST(createMockContext({
+    method: "POST",
+    body: { username: "alice", password: "correct horse" },
+  }));
+  assertEquals(await ok.json(), { token: "secret" });
+  const invalid = await handlers.POST(createMockContext({
+    method: "POST",
+    body: { username: "alice", password: "hunter2" },
+  }));
+  const problem = await invalid.json();
+
+  assertEquals(
+    entries.map(({ operationId, status }) => [operationId, status]),
+    [
+      ["sessionCreate", 200],
+      ["sessionCreate", 400],
+    ],
+  );
+  assertEquals(entries[0].request?.body, {
+    username: "alice",
+    password: REDACTED,
+  });
+  assertEquals(entries[0].response, { token: REDACTED });
+  assertEquals(entries[1].request, undefined);
+  assertEquals(problem.issues[0].message, "Invalid value");
+  assertEquals(entries[1].response, problem);
+});
+
+Deno.test("createApiHandlers strips response fields by role", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      security: ["bearer"],
+      response: z.object({
+        name: z.string(),
+        email: visibleTo(z.string(), ["admin"]).optional(),
+      }),
+      handler: () => ({ name: "Ada", email: "ada@example.com" }),
+    }),
+  }, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => ({ roles: token === "admin" ? ["admin"] : [] }),
+      }),
+    },
+  });
+
+  const admin = await handlers.GET(
+    createMockContext({ headers: { Authorization: "Bearer admin" } }),
+  );
+  assertEquals(await admin.json(), { name: "Ada", email: "ada@example.com" });
+
+  const other = await handlers.GET(
+    createMockContext({ headers: { Authorization: "Bearer user" } }),
+  );
+  assertEquals(await other.json(), { name: "Ada" });
+});
+
+Deno.test("createApiHandlers strips undeclared response fields when enabled", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      response: z.object({ id: z.string() }),
+      handler: () => Response.json({ id: "1", internal: "do-not-leak" }),
+    }),
+  }, { responseValidation: { mode: "strict" } });
+
+  const response = await handlers.GET(createMockContext({}));
+
+  assertEquals(await response.json(), { id: "1" });
+});
+
+Deno.test("createApiHandlers leaves responses untouched by default", async () => {
+  const handlers = createApiHandlers({
+    GET: endpoint({
+      response: z.object({ id: z.string() }),
+      handler: () => Response.json({ id: "1", internal: "visible" }),
+    }),
+  });
+
+  const response = await handlers.GET(createMockContext({}));
+
+  assertEquals(await response.json(), { id: "1", internal: "visible" });
+});
+
 // =============================================================================
 // Pagination integration tests
 // =============================================================================
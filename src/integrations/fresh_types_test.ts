@@ -7,7 +7,9 @@ import {
   type FreshApiMethodDef,
   type FreshSseMethodDef,
   sseEndpoint,
+  withProviders,
 } from "./fresh.ts";
+import { apiKeyAuth, bearerAuth } from "../core/security.ts";
 import { z } from "zod";
 
 // Test 1: Direct FreshApiMethodDef - does handler get typed?
@@ -148,3 +150,160 @@ const _noParamsSse = createApiHandlers({
     },
   }),
 });
+
+// Test: headers schema is inferred for the handler
+createApiHandlers({
+  GET: endpoint({
+    headers: z.object({ "X-Tenant-Id": z.string() }),
+    handler: (_ctx, { headers }) => {
+      headers["X-Tenant-Id"] satisfies string;
+      // @ts-expect-error - header not declared
+      headers["X-Other"];
+      return Response.json({ ok: true });
+    },
+  }),
+});
+
+// Test: cookies schema is inferred for the handler
+createApiHandlers({
+  GET: endpoint({
+    cookies: z.object({ session: z.string() }),
+    handler: (_ctx, { cookies }) => {
+      cookies.session satisfies string;
+      // @ts-expect-error - cookie not declared
+      cookies.theme;
+      return Response.json({ ok: true });
+    },
+  }),
+});
+
+// Test: respond() is limited to declared statuses and typed by their schema
+createApiHandlers({
+  POST: endpoint({
+    body: z.object({ name: z.string() }),
+    response: z.object({ id: z.string() }),
+    responses: {
+      201: z.object({ id: z.string(), created: z.literal(true) }),
+      404: { schema: z.object({ message: z.string() }), name: "NotFound" },
+    },
+    handler: (_ctx, { body, respond }) => {
+      if (!body.name) {
+        return respond(404, { message: "Not found" });
+      }
+      // @ts-expect-error - 409 is not a declared status
+      respond(409, { message: "Conflict" });
+      // @ts-expect-error - data doesn't match the 201 schema
+      respond(201, { id: "1" });
+      // @ts-expect-error - data doesn't match the 200 schema
+      respond(200, { id: 1 });
+      return respond(201, { id: "1", created: true });
+    },
+  }),
+});
+
+// Test: handlers may return plain data for the 200 response schema
+createApiHandlers({
+  GET: endpoint({
+    response: z.object({ id: z.string() }),
+    handler: () => ({ id: "1" }),
+  }),
+  PUT: endpoint({
+    response: z.object({ id: z.string() }),
+    // @ts-expect-error - plain data must match the response schema
+    handler: () => ({ id: 1 }),
+  }),
+  DELETE: endpoint({
+    // @ts-expect-error - plain data needs a response schema
+    handler: () => ({ ok: true }),
+  }),
+});
+
+// Test: capabilities are typed from their providers
+const api = withProviders({
+  auth: () => ({ id: "user-1", roles: ["admin"] }),
+  database: () => Promise.resolve({ query: (_sql: string) => [] as string[] }),
+});
+
+api.createApiHandlers({
+  GET: api.endpoint({
+    requires: ["auth", "database"],
+    handler: (_ctx, _data, { auth, database }) => {
+      auth.id satisfies string;
+      database.query("SELECT 1") satisfies string[];
+      return Response.json({ ok: true });
+    },
+  }),
+  POST: api.endpoint({
+    requires: ["auth"],
+    handler: (_ctx, _data, capabilities) => {
+      // @ts-expect-error - database was not required
+      capabilities.database;
+      return Response.json({ ok: true });
+    },
+  }),
+});
+
+api.endpoint({
+  // @ts-expect-error - no provider named "cache"
+  requires: ["cache"],
+  handler: () => Response.json({ ok: true }),
+});
+
+const secured = withProviders({
+  database: () => ({ name: "primary" }),
+}, {
+  securitySchemes: {
+    bearer: bearerAuth({ verify: () => ({ userId: "u1" }) }),
+    apiKey: apiKeyAuth({
+      in: "header",
+      name: "X-Api-Key",
+      verify: () => ({ clientId: "c1" }),
+    }),
+  },
+});
+
+secured.createApiHandlers({
+  GET: secured.endpoint({
+    security: ["bearer"],
+    requires: ["database"],
+    handler: (_ctx, { principal }, { database }) => {
+      principal.userId satisfies string;
+      database.name satisfies string;
+      return Response.json({ ok: true });
+    },
+  }),
+  POST: secured.endpoint({
+    security: ["bearer", "apiKey"],
+    handler: (_ctx, { principal }) => {
+      // @ts-expect-error - either scheme may have matched
+      principal.userId;
+      if ("clientId" in principal) principal.clientId satisfies string;
+      return Response.json({ ok: true });
+    },
+  }),
+  PUT: secured.endpoint({
+    security: ["bearer"],
+    params: z.object({ id: z.string() }),
+    authorize: {
+      check: (principal, { params }) => {
+        principal.userId satisfies string;
+        // @ts-expect-error - params.id is a string
+        params.id satisfies number;
+        return principal.userId === params.id;
+      },
+    },
+    handler: () => Response.json({ ok: true }),
+  }),
+  DELETE: secured.endpoint({
+    handler: (_ctx, { principal }) => {
+      principal satisfies undefined;
+      return Response.json({ ok: true });
+    },
+  }),
+});
+
+secured.endpoint({
+  // @ts-expect-error - no scheme named "oauth"
+  security: ["oauth"],
+  handler: () => Response.json({ ok: true }),
+});
@@ -0,0 +1,379 @@
+/**
+ * Hono Integration
+ *
+ * Runtime adapter for Hono. Mirrors the Fresh adapter with handlers that
+ * receive Hono's `Context`, and mounts them onto a Hono app with path params
+ * taken from Hono's router. Handlers carry the same `__apiDef` metadata, so
+ * OpenAPI/type generation and protocol `fromEndpoint()` work unchanged.
+ *
+ * - endpoint() / sseEndpoint() — define typed API methods
+ * - createApiHandlers() — wrap methods into Hono handlers with validation
+ * - mountApi() — register handlers on a Hono app by path
+ * - withProviders() — the above bound to capability providers and security
+ *   schemes
+ *
+ * @module
+ */
+
+import type { Context, Env, Handler, Hono } from "hono";
+import type { z } from "zod";
+import type { ApiDef, ResponseDefs, SseEventDef } from "../core/types.ts";
+import type { Capabilities, Providers } from "../core/capabilities.ts";
+import type { EndpointPrincipal, SecuritySchemes } from "../core/security.ts";
+import { type ApiRegistry, isApiRegistry } from "../core/registry.ts";
+import { methodNotAllowedResponse } from "../core/router.ts";
+import { versionedPaths, type VersioningOptions } from "../core/versioning.ts";
+import {
+  type ContextAdapter,
+  createRouteHandlers,
+  type EndpointDef,
+  type HandlerOptions,
+  remoteHostname,
+  type SseEndpointDef,
+  stripHandlers,
+} from "../core/runtime.ts";
+
+/** Options shared by all handlers created by createApiHandlers() */
+export interface ApiHandlersOptions extends HandlerOptions {
+  /** Capability providers for endpoints that declare `requires` */
+  // deno-lint-ignore no-explicit-any
+  providers?: Providers<Context<any>>;
+}
+
+/** Hono-specific method definition with handler */
+export type HonoApiMethodDef<
+  TEnv extends Env,
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+  TCapabilities = Record<never, never>,
+  TPrincipal = unknown,
+> = EndpointDef<
+  Context<TEnv>,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses,
+  TCapabilities,
+  TPrincipal
+>;
+
+/**
+ * Define an API endpoint with full type inference for the handler.
+ * Zero runtime cost - returns its argument unchanged.
+ */
+export function endpoint<
+  TEnv extends Env = Env,
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+>(
+  def: HonoApiMethodDef<
+    TEnv,
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema,
+    TResponseSchema,
+    TResponses
+  >,
+): HonoApiMethodDef<
+  TEnv,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses
+> {
+  return def;
+}
+
+/** Hono-specific SSE method definition with generator handler */
+export type HonoSseMethodDef<
+  TEnv extends Env,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  TEvents extends SseEventDef = SseEventDef,
+> = SseEndpointDef<Context<TEnv>, TQuerySchema, TParamsSchema, TEvents>;
+
+/**
+ * Define an SSE endpoint with full type inference.
+ * Zero runtime cost - returns its argument unchanged.
+ */
+export function sseEndpoint<
+  TEnv extends Env = Env,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  TEvents extends SseEventDef = SseEventDef,
+>(
+  def: HonoSseMethodDef<TEnv, TQuerySchema, TParamsSchema, TEvents>,
+): HonoSseMethodDef<TEnv, TQuerySchema, TParamsSchema, TEvents> {
+  return def;
+}
+
+/** Hono handlers with the API definition attached */
+export type ApiHandlers<TEnv extends Env = Env> =
+  & Record<string, (c: Context<TEnv>) => Promise<Response>>
+  & { __apiDef: ApiDef };
+
+/**
+ * Hono keeps the raw Request on `c.req.raw` and params on `c.req.param()`.
+ * Under `Deno.serve(app.fetch)` the env is Deno's connection info.
+ */
+const fromHonoContext: ContextAdapter<Context> = (c) => ({
+  req: c.req.raw,
+  params: c.req.param() as Record<string, string>,
+  ip: remoteHostname(
+    (c.env as Partial<Deno.ServeHandlerInfo> | undefined)?.remoteAddr,
+  ),
+  route: c.req.routePath,
+});
+
+/**
+ * Create Hono handlers with automatic validation.
+ *
+ * ```ts
+ * export const handler = createApiHandlers({
+ *   GET: endpoint({
+ *     params: z.object({ id: z.string() }),
+ *     handler: async (c, { params }) => c.json(await getUser(params.id)),
+ *   }),
+ * });
+ * ```
+ */
+export function createApiHandlers<
+  TEnv extends Env = Env,
+  TDef extends Record<string, unknown> = Record<string, unknown>,
+>(
+  apiDef: TDef,
+  options: ApiHandlersOptions = {},
+): ApiHandlers<TEnv> {
+  const route = createRouteHandlers<Context<TEnv>>(
+    apiDef,
+    options,
+    fromHonoContext,
+  );
+  const handlers: Record<string, (c: Context<TEnv>) => Promise<Response>> =
+    route.handlers;
+
+  // Attach apiDef for OpenAPI/type generation (strip handlers)
+  const honoHandlers = Object.assign(handlers, {
+    __apiDef: stripHandlers(apiDef),
+  });
+  handlerSets.set(honoHandlers, {
+    allow: route.allow,
+    versioning: options.versioning,
+  });
+  return honoHandlers;
+}
+
+/**
+ * Handler sets created by createApiHandlers(), with their `Allow` methods and
+ * versioning. Fresh and Node handler sets carry `__apiDef` too, so this tells
+ * them apart.
+ */
+const handlerSets = new WeakMap<
+  object,
+  { allow: string[]; versioning?: VersioningOptions }
+>();
+
+/**
+ * Convert a file-style route path to a Hono path.
+ * `[id]` becomes `:id` and `[...path]` a catch-all `:path{.+}`.
+ */
+export function honoPath(path: string): string {
+  return path
+    .replace(/\[\.\.\.(\w+)\]/g, ":$1{.+}")
+    .replace(/\[(\w+)\]/g, ":$1");
+}
+
+/**
+ * Register handlers on a Hono app, keyed by path. Paths may use Hono syntax
+ * (`/users/:id`) or the file-style syntax of Fresh routes (`/users/[id]`).
+ * A defineApi() registry works too: its endpoint definitions are wrapped with
+ * createApiHandlers() and `options`.
+ *
+ * The defined methods are registered, plus HEAD for GET and OPTIONS, then a
+ * fallback answering any other method with a 405 listing them in `Allow`.
+ * Routes the app registers on the same path before mountApi() still take
+ * precedence. Handler sets of other adapters are rejected. With versions
+ * picked by path, each route is also registered under every version prefix.
+ *
+ * @example
+ * ```ts
+ * import * as users from "./routes/api/users.ts";
+ * import * as user from "./routes/api/users/[id].ts";
+ *
+ * const app = new Hono();
+ * mountApi(app, {
+ *   "/api/users": users.handler,
+ *   "/api/users/[id]": user.handler,
+ * });
+ * ```
+ */
+export function mountApi<TEnv extends Env>(
+  app: Hono<TEnv>,
+  // deno-lint-ignore no-explicit-any
+  routes: Record<string, ApiHandlers<any>> | ApiRegistry,
+  options: ApiHandlersOptions = {},
+): void {
+  const entries = isApiRegistry(routes) ? routes.routes : routes;
+  for (const [path, entry] of Object.entries(entries)) {
+    if ("__apiDef" in entry && !handlerSets.has(entry)) {
+      throw new Error(
+        `mountApi() can't serve ${path}: it holds handlers from another adapter; use the Hono adapter's createApiHandlers() or register its endpoint definitions`,
+      );
+    }
+    const handlers: ApiHandlers<TEnv> = "__apiDef" in entry
+      ? entry as ApiHandlers<TEnv>
+      : createApiHandlers<TEnv>(entry, options);
+    const { allow, versioning } = handlerSets.get(handlers)!;
+    const methods = new Set(Object.keys(handlers.__apiDef));
+    if (methods.has("GET")) methods.add("HEAD");
+    methods.add("OPTIONS");
+    for (const route of [path, ...versionedPaths(versioning, path)]) {
+      for (const method of methods) {
+        app.on(method, honoPath(route), handlers[method] as Handler<TEnv>);
+      }
+      // Other methods get the shared 405 (with CORS headers where it has them)
+      app.all(honoPath(route), (c) => {
+        const handler = handlers[c.req.method];
+        if (handler) return handler(c);
+        return methodNotAllowedResponse(
+          c.req.method,
+          new URL(c.req.url).pathname,
+          allow,
+        );
+      });
+    }
+  }
+}
+
+// =============================================================================
+// Capabilities
+// =============================================================================
+
+/** endpoint(), createApiHandlers() and mountApi() bound to a provider registry */
+export interface ProviderBindings<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+> {
+  providers: TProviders;
+  securitySchemes: TSchemes;
+  /**
+   * endpoint() whose `requires` must name registered providers and whose
+   * `security` must name registered schemes. The handler's third argument
+   * holds the resolved capabilities, and `principal` is typed by the schemes.
+   */
+  endpoint<
+    TEnv extends Env = Env,
+    TBodySchema extends z.ZodType | undefined = undefined,
+    TQuerySchema extends z.ZodType | undefined = undefined,
+    TParamsSchema extends z.ZodType | undefined = undefined,
+    THeadersSchema extends z.ZodType | undefined = undefined,
+    TCookiesSchema extends z.ZodType | undefined = undefined,
+    TResponseSchema extends z.ZodType | undefined = undefined,
+    TResponses extends ResponseDefs = Record<never, never>,
+    const TRequires extends readonly (keyof TProviders & string)[] = [],
+    const TSecurity extends readonly (keyof TSchemes & string)[] = [],
+  >(
+    def:
+      & HonoApiMethodDef<
+        TEnv,
+        TBodySchema,
+        TQuerySchema,
+        TParamsSchema,
+        THeadersSchema,
+        TCookiesSchema,
+        TResponseSchema,
+        TResponses,
+        Capabilities<TProviders, TRequires>,
+        EndpointPrincipal<TSchemes, TSecurity>
+      >
+      & { requires?: TRequires; security?: TSecurity },
+  ): HonoApiMethodDef<
+    TEnv,
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema,
+    TResponseSchema,
+    TResponses,
+    Capabilities<TProviders, TRequires>,
+    EndpointPrincipal<TSchemes, TSecurity>
+  >;
+  /** createApiHandlers() with these providers and security schemes */
+  createApiHandlers<
+    TEnv extends Env = Env,
+    TDef extends Record<string, unknown> = Record<string, unknown>,
+  >(
+    apiDef: TDef,
+    options?: Omit<ApiHandlersOptions, "providers" | "securitySchemes">,
+  ): ApiHandlers<TEnv>;
+  /** mountApi() with these providers and security schemes */
+  mountApi<TEnv extends Env>(
+    app: Hono<TEnv>,
+    // deno-lint-ignore no-explicit-any
+    routes: Record<string, ApiHandlers<any>> | ApiRegistry,
+    options?: Omit<ApiHandlersOptions, "providers" | "securitySchemes">,
+  ): void;
+}
+
+/**
+ * Register capability providers (and optionally security schemes) once and
+ * get endpoint(), createApiHandlers() and mountApi() bound to them. Requiring
+ * a capability without a provider, or naming an unregistered scheme in
+ * `security`, is a compile error.
+ *
+ * @example
+ * ```ts
+ * const api = withProviders({ database: () => db }, {
+ *   securitySchemes: { bearer: bearerAuth({ verify: verifyToken }) },
+ * });
+ *
+ * api.mountApi(app, {
+ *   "/posts": api.createApiHandlers({
+ *     GET: api.endpoint({
+ *       security: ["bearer"],
+ *       requires: ["database"],
+ *       handler: (c, { principal }, { database }) =>
+ *         c.json(database.postsFor(principal.id)),
+ *     }),
+ *   }),
+ * });
+ * ```
+ */
+export function withProviders<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+>(
+  providers: TProviders,
+  options: { securitySchemes?: TSchemes } = {},
+): ProviderBindings<TProviders, TSchemes> {
+  const securitySchemes = options.securitySchemes ?? {} as TSchemes;
+  return {
+    providers,
+    securitySchemes,
+    // deno-lint-ignore no-explicit-any
+    endpoint: (def: any) => def,
+    createApiHandlers: (apiDef, options = {}) =>
+      createApiHandlers(apiDef, { ...options, providers, securitySchemes }),
+    mountApi: (app, routes, options = {}) =>
+      mountApi(app, routes, { ...options, providers, securitySchemes }),
+  };
+}
@@ -0,0 +1,274 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type Context, Hono } from "hono";
+import { z } from "zod";
+import {
+  createApiHandlers,
+  endpoint,
+  honoPath,
+  mountApi,
+  sseEndpoint,
+  withProviders,
+} from "./hono.ts";
+import {
+  createApiHandlers as createFreshHandlers,
+  endpoint as freshEndpoint,
+} from "./fresh.ts";
+import { CapabilityError } from "../core/capabilities.ts";
+import { bearerAuth } from "../core/security.ts";
+import { fromEndpoint } from "../protocol/compose.ts";
+import { defineApi } from "../core/registry.ts";
+
+type AppEnv = { Variables: { tenant: string } };
+
+const UserSchema = z.object({ id: z.number(), name: z.string() });
+
+const users = createApiHandlers<AppEnv>({
+  POST: endpoint({
+    body: z.object({ name: z.string() }),
+    response: UserSchema,
+    handler: (c: Context<AppEnv>, { body }) => {
+      c.get("tenant") satisfies string;
+      return c.json({ id: 1, name: body.name }, 201);
+    },
+  }),
+});
+
+const user = createApiHandlers<AppEnv>({
+  GET: endpoint({
+    params: z.object({ id: z.number() }),
+    query: z.object({ fields: z.array(z.string()).optional() }),
+    public: true,
+    handler: (c: Context<AppEnv>, { params, query }) =>
+      Response.json({
+        id: params.id,
+        tenant: c.get("tenant"),
+        fields: query.fields ?? [],
+      }),
+  }),
+});
+
+const files = createApiHandlers({
+  GET: endpoint({
+    requires: ["auth"],
+    handler: (c) => Response.json({ path: c.req.param("path") }),
+  }),
+}, {
+  providers: {
+    auth: (c) => {
+      if (!c.req.header("Authorization")) {
+        throw new CapabilityError(401, "Unauthorized");
+      }
+      return true;
+    },
+  },
+});
+
+const events = createApiHandlers({
+  GET: sseEndpoint({
+    events: { tick: z.object({ n: z.number() }) },
+    async *handler() {
+      yield { event: "tick", data: { n: 1 } };
+    },
+  }),
+});
+
+const app = new Hono<AppEnv>();
+app.use(async (c, next) => {
+  c.set("tenant", "acme");
+  await next();
+});
+mountApi(app, {
+  "/api/users": users,
+  "/api/users/[id]": user,
+  "/api/files/[...path]": files,
+  "/api/events": events,
+});
+
+function request(path: string, init?: RequestInit): Promise<Response> {
+  return Promise.resolve(
+    app.fetch(new Request(`http://localhost${path}`, init)),
+  );
+}
+
+Deno.test("honoPath converts file-style params", () => {
+  assertEquals(honoPath("/users/[id]"), "/users/:id");
+  assertEquals(honoPath("/files/[...path]"), "/files/:path{.+}");
+  assertEquals(honoPath("/users/:id"), "/users/:id");
+});
+
+Deno.test("mountApi passes Hono params and context to handlers", async () => {
+  const response = await request("/api/users/7?fields=name&fields=email");
+  assertEquals(await response.json(), {
+    id: 7,
+    tenant: "acme",
+    fields: ["name", "email"],
+  });
+});
+
+Deno.test("mountApi validates bodies and returns problem responses", async () => {
+  const created = await request("/api/users", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "Ada" }),
+  });
+  assertEquals(created.status, 201);
+  assertEquals(await created.json(), { id: 1, name: "Ada" });
+
+  const invalid = await request("/api/users", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({}),
+  });
+  assertEquals(invalid.status, 400);
+  assertEquals(invalid.headers.get("Content-Type"), "application/problem+json");
+});
+
+Deno.test("mountApi resolves providers with the Hono context", async () => {
+  const denied = await request("/api/files/a/b.txt");
+  assertEquals(denied.status, 401);
+
+  const ok = await request("/api/files/a/b.txt", {
+    headers: { Authorization: "Bearer t" },
+  });
+  assertEquals(await ok.json(), { path: "a/b.txt" });
+});
+
+Deno.test("mountApi serves SSE endpoints", async () => {
+  const response = await request("/api/events");
+  assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+  assertEquals(await response.text(), 'event: tick\ndata: {"n":1}\n\n');
+});
+
+Deno.test("createApiHandlers attaches __apiDef for generators and protocols", () => {
+  assertEquals(user.__apiDef.GET?.public, true);
+  assertEquals("handler" in user.__apiDef.GET!, false);
+
+  const step = fromEndpoint(users, "POST", { name: "createUser" });
+  assertEquals(step.name, "createUser");
+  assertEquals(step.response, UserSchema);
+});
+
+Deno.test("mountApi serves a defineApi() registry", async () => {
+  const api = defineApi({
+    "/users/[id]": user,
+    "/health": {
+      GET: endpoint({ handler: (c) => c.json({ ok: true }) }),
+    },
+  });
+  const registryApp = new Hono<AppEnv>();
+  registryApp.use(async (c, next) => {
+    c.set("tenant", "acme");
+    await next();
+  });
+  mountApi(registryApp, api);
+
+  const health = await registryApp.request("/health");
+  assertEquals(await health.json(), { ok: true });
+  const found = await registryApp.request("/users/3");
+  assertEquals((await found.json()).id, 3);
+});
+
+Deno.test("mountApi answers other methods with 405 after the app's routes", async () => {
+  const mixed = new Hono();
+  mixed.post("/items", (c) => c.json({ created: true }, 201));
+  mountApi(mixed, {
+    "/items": createApiHandlers({
+      GET: endpoint({ handler: (c) => c.json([]) }),
+    }),
+  });
+
+  assertEquals(await (await mixed.request("/items")).json(), []);
+  const created = await mixed.request("/items", { method: "POST" });
+  assertEquals(created.status, 201);
+  assertEquals(await created.json(), { created: true });
+  assertEquals((await mixed.request("/items", { method: "HEAD" })).status, 200);
+  const options = await mixed.request("/items", { method: "OPTIONS" });
+  assertEquals(options.headers.get("Allow"), "GET, HEAD, OPTIONS");
+  const deleted = await mixed.request("/items", { method: "DELETE" });
+  assertEquals(deleted.status, 405);
+  assertEquals(deleted.headers.get("Allow"), "GET, HEAD, OPTIONS");
+  const custom = await mixed.request("/items", { method: "PROPFIND" });
+  assertEquals(custom.status, 405);
+  assertEquals(custom.headers.get("Allow"), "GET, HEAD, OPTIONS");
+});
+
+Deno.test("mountApi registers routes under each version prefix", async () => {
+  const versioned = new Hono();
+  mountApi(versioned, {
+    "/api/users/[id]": createApiHandlers({
+      GET: endpoint({
+        params: z.object({ id: z.string() }),
+        versions: {
+          "1": {
+            downgrade: (user: { id: string; fullName: string }) => ({
+              id: user.id,
+              name: user.fullName,
+            }),
+          },
+        },
+        handler: (_c, { params }) =>
+          Response.json({ id: params.id, fullName: "Ada" }),
+      }),
+    }, { versioning: { versions: ["1", "2"], by: "path", basePath: "/api" } }),
+  });
+
+  const v1 = await versioned.request("/api/v1/users/7");
+  assertEquals(await v1.json(), { id: "7", name: "Ada" });
+  assertEquals(v1.headers.get("Api-Version"), "1");
+  assertEquals(await (await versioned.request("/api/users/7")).json(), {
+    id: "7",
+    fullName: "Ada",
+  });
+  const deleted = await versioned.request("/api/v2/users/7", {
+    method: "DELETE",
+  });
+  assertEquals(deleted.status, 405);
+  assertEquals((await versioned.request("/api/v3/users/7")).status, 404);
+});
+
+Deno.test("mountApi rejects handlers of other adapters", () => {
+  const fresh = createFreshHandlers({
+    GET: freshEndpoint({ handler: () => Response.json([]) }),
+  });
+  assertThrows(
+    () => mountApi(new Hono(), defineApi({ "/items": fresh })),
+    Error,
+    "mountApi() can't serve /items: it holds handlers from another adapter",
+  );
+});
+
+Deno.test("withProviders binds providers and schemes to mountApi", async () => {
+  const api = withProviders({
+    tenant: (c: Context<AppEnv>) => c.get("tenant"),
+  }, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => token === "t1" ? { id: "ada" } : undefined,
+      }),
+    },
+  });
+  const bound = new Hono<AppEnv>();
+  bound.use(async (c, next) => {
+    c.set("tenant", "acme");
+    await next();
+  });
+  api.mountApi(bound, {
+    "/whoami": api.createApiHandlers<AppEnv>({
+      GET: api.endpoint({
+        security: ["bearer"],
+        requires: ["tenant"],
+        handler: (c: Context<AppEnv>, { principal }, { tenant }) =>
+          c.json({ id: principal.id, tenant }),
+      }),
+    }),
+  });
+
+  const ok = await bound.request("/whoami", {
+    headers: { Authorization: "Bearer t1" },
+  });
+  assertEquals(await ok.json(), { id: "ada", tenant: "acme" });
+  const denied = await bound.request("/whoami", {
+    headers: { Authorization: "Bearer t2" },
+  });
+  assertEquals(denied.status, 401);
+});
@@ -0,0 +1,539 @@
+/**
+ * Node Integration
+ *
+ * Runtime adapter for Node's `http` module and Express-compatible routers.
+ * Incoming messages are turned into web Requests (streaming the body from the
+ * Node stream), run through the shared pipeline, and the resulting Response
+ * is written back with `res.write`, which also streams SSE endpoints.
+ *
+ * - endpoint() / sseEndpoint() — define typed API methods
+ * - createApiMiddleware() — `(req, res, next)` middleware for one route,
+ *   with path params taken from Express's `req.params`
+ * - createNodeHandler() — route, validate and dispatch requests for
+ *   `http.createServer` (or `app.use()` in Express)
+ * - withProviders() — endpoint() and both of the above bound to capability
+ *   providers and security schemes
+ *
+ * @module
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import type { z } from "zod";
+import type {
+  ApiDef,
+  HttpMethod,
+  ResponseDefs,
+  SseEventDef,
+} from "../core/types.ts";
+import { problemResponse } from "../core/problem.ts";
+import type { Providers } from "../core/capabilities.ts";
+import type { SecuritySchemes } from "../core/security.ts";
+import {
+  type ApiRegistry,
+  isApiRegistry,
+  registryDefinitions,
+} from "../core/registry.ts";
+import {
+  createRouter,
+  methodNotAllowedResponse,
+  notFoundResponse,
+} from "../core/router.ts";
+import {
+  type BoundEndpoint,
+  type ContextAdapter,
+  createRouteHandlers,
+  type EndpointDef,
+  type HandlerOptions,
+  type RouteHandlers,
+  type SseEndpointDef,
+  stripHandlers,
+} from "../core/runtime.ts";
+import { unversionedPath } from "../core/versioning.ts";
+
+/** Context passed to handlers served by the Node adapter */
+export interface NodeContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  /** The incoming message as a web Request */
+  request: Request;
+  /** Path params from the router */
+  params: Record<string, string>;
+}
+
+/** Method definition with a handler receiving a NodeContext */
+export type NodeApiMethodDef<
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+> = EndpointDef<
+  NodeContext,
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses
+>;
+
+/**
+ * Define an API endpoint with full type inference for the handler.
+ * Zero runtime cost - returns its argument unchanged.
+ */
+export function endpoint<
+  TBodySchema extends z.ZodType | undefined = undefined,
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  THeadersSchema extends z.ZodType | undefined = undefined,
+  TCookiesSchema extends z.ZodType | undefined = undefined,
+  TResponseSchema extends z.ZodType | undefined = undefined,
+  TResponses extends ResponseDefs = Record<never, never>,
+>(
+  def: NodeApiMethodDef<
+    TBodySchema,
+    TQuerySchema,
+    TParamsSchema,
+    THeadersSchema,
+    TCookiesSchema,
+    TResponseSchema,
+    TResponses
+  >,
+): NodeApiMethodDef<
+  TBodySchema,
+  TQuerySchema,
+  TParamsSchema,
+  THeadersSchema,
+  TCookiesSchema,
+  TResponseSchema,
+  TResponses
+> {
+  return def;
+}
+
+/**
+ * Define an SSE endpoint with full type inference.
+ * Zero runtime cost - returns its argument unchanged.
+ */
+export function sseEndpoint<
+  TQuerySchema extends z.ZodType | undefined = undefined,
+  TParamsSchema extends z.ZodType | undefined = undefined,
+  TEvents extends SseEventDef = SseEventDef,
+>(
+  def: SseEndpointDef<NodeContext, TQuerySchema, TParamsSchema, TEvents>,
+): SseEndpointDef<NodeContext, TQuerySchema, TParamsSchema, TEvents> {
+  return def;
+}
+
+/** Express-style `next`: pass an error, or fall through to the next handler */
+export type NextFunction = (error?: unknown) => void;
+
+/** `(req, res, next)` middleware usable with `http.createServer` and Express */
+export type NodeMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: NextFunction,
+) => Promise<void>;
+
+/** Middleware for one route with the API definition attached */
+export type ApiMiddleware = NodeMiddleware & { __apiDef: ApiDef };
+
+/** Method definitions keyed by path pattern, e.g. "/users/[id]" */
+export type NodeRoutes = Record<string, Record<string, unknown>>;
+
+export interface NodeHandlerOptions extends HandlerOptions {
+  /** Prefix for every route pattern, e.g. "/api". Default: "" */
+  basePath?: string;
+}
+
+/** Node handler with the API definitions attached, keyed by route pattern */
+export type NodeHandler = NodeMiddleware & { routes: Record<string, ApiDef> };
+
+/** Properties Express (and body parsers) add to the incoming message */
+interface ExpressRequest extends IncomingMessage {
+  originalUrl?: string;
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Re-encode a body parser's result in the request's Content-Type: JSON for
+ * JSON types (or none), URLSearchParams for urlencoded forms. Anything else,
+ * e.g. multipart, can't be rebuilt and throws.
+ */
+function encodeParsedBody(
+  parsed: unknown,
+  contentType: string | null,
+): BodyInit {
+  const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+  if (
+    !mediaType || mediaType === "application/json" ||
+    mediaType.endsWith("+json")
+  ) {
+    return JSON.stringify(parsed);
+  }
+  if (mediaType === "application/x-www-form-urlencoded") {
+    const form = new URLSearchParams();
+    for (const [name, value] of Object.entries(parsed ?? {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== null && typeof item === "object") {
+          throw new Error(
+            `Can't re-encode the parsed form field "${name}": nested values ` +
+              "aren't supported. Use a non-extended urlencoded parser, or " +
+              "mount the API before it.",
+          );
+        }
+        form.append(name, String(item));
+      }
+    }
+    return form;
+  }
+  throw new Error(
+    `Can't re-encode a parsed ${mediaType} body. Mount the API before the ` +
+      "body parser that consumed it.",
+  );
+}
+
+/**
+ * Build a web Request from a Node incoming message. The body streams from
+ * the message; if a body parser already consumed it, its result is used
+ * instead (strings and buffers as-is, anything else re-encoded in the
+ * request's Content-Type, or as JSON when there is none).
+ */
+export function toWebRequest(
+  req: IncomingMessage,
+  signal?: AbortSignal,
+): Request {
+  const message = req as ExpressRequest;
+  const encrypted = (req.socket as { encrypted?: boolean }).encrypted;
+  const url = new URL(
+    message.originalUrl ?? req.url ?? "/",
+    `${encrypted ? "https" : "http"}://${req.headers.host ?? "localhost"}`,
+  );
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+
+  const method = req.method ?? "GET";
+  const init: RequestInit & { duplex?: "half" } = { method, headers, signal };
+  if (method !== "GET" && method !== "HEAD") {
+    const parsed = message.body;
+    if (parsed === undefined) {
+      init.body = Readable.toWeb(req) as ReadableStream<Uint8Array>;
+      init.duplex = "half";
+    } else if (typeof parsed === "string" || parsed instanceof Uint8Array) {
+      init.body = parsed as BodyInit;
+    } else {
+      init.body = encodeParsedBody(parsed, headers.get("Content-Type"));
+      if (!headers.has("Content-Type")) {
+        headers.set("Content-Type", "application/json");
+      }
+      headers.delete("Content-Length");
+    }
+  }
+
+  return new Request(url, init);
+}
+
+/** Resolve once the response can take more data (or is gone) */
+function drained(res: ServerResponse): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+/**
+ * Write a web Response to a Node server response. Bodies are streamed
+ * chunk by chunk with `res.write`, so SSE events reach the client as they
+ * are produced; the stream is cancelled if the client disconnects.
+ */
+export async function writeResponse(
+  res: ServerResponse,
+  response: Response,
+): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    if (name !== "set-cookie") res.setHeader(name, value);
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) res.setHeader("Set-Cookie", cookies);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+  if (response.headers.get("Content-Type") === "text/event-stream") {
+    res.flushHeaders();
+  }
+
+  const reader = response.body.getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => {});
+  };
+  res.once("close", cancel);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || res.destroyed) break;
+      if (!res.write(value)) await drained(res);
+    }
+    res.end();
+  } finally {
+    res.off("close", cancel);
+  }
+}
+
+/**
+ * The runtime reads the web Request and router params off the context.
+ * `route` is the pattern when we route, or Express's matched `req.route.path`.
+ * `pathname` comes from `req.url`, relative to where the handler is mounted.
+ */
+function fromNodeContext(route?: string): ContextAdapter<NodeContext> {
+  return (ctx) => ({
+    req: ctx.request,
+    params: ctx.params,
+    ip: ctx.req.socket?.remoteAddress,
+    route: route ??
+      (ctx.req as { route?: { path?: string } }).route?.path,
+    pathname: new URL(ctx.req.url ?? "/", "http://localhost").pathname,
+  });
+}
+
+/** The route's handler for a method, or a 405 for non-standard methods */
+function dispatchMethod(
+  route: RouteHandlers<NodeContext>,
+  ctx: NodeContext,
+  pathname: string,
+): Promise<Response> {
+  const methodHandler = route.handlers[ctx.request.method as HttpMethod];
+  if (!methodHandler) {
+    return Promise.resolve(
+      methodNotAllowedResponse(ctx.request.method, pathname, route.allow),
+    );
+  }
+  return methodHandler(ctx);
+}
+
+/**
+ * Run a request through `dispatch` and write its Response. Errors go to
+ * `next` when there is one (Express), otherwise become a 500 problem.
+ */
+async function serve(
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: NextFunction | undefined,
+  dispatch: (request: Request) => Promise<Response>,
+): Promise<void> {
+  // Abort the Request (and with it SSE generators) when the client leaves
+  const controller = new AbortController();
+  res.once("close", () => controller.abort());
+
+  try {
+    await writeResponse(
+      res,
+      await dispatch(toWebRequest(req, controller.signal)),
+    );
+  } catch (error) {
+    if (next) return next(error);
+    console.error("Unhandled API error:", error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    await writeResponse(
+      res,
+      problemResponse({
+        type: "about:blank",
+        title: "Internal Server Error",
+        status: 500,
+      }),
+    );
+  }
+}
+
+/**
+ * Create middleware for one route's endpoint definitions. Path params come
+ * from `req.params`, as set by Express-compatible routers; unsupported
+ * methods get a 405 problem response.
+ *
+ * @example
+ * ```ts
+ * const router = express.Router();
+ * router.all("/users/:id", createApiMiddleware({
+ *   GET: endpoint({
+ *     params: z.object({ id: z.string() }),
+ *     handler: (_ctx, { params }) => Response.json({ id: params.id }),
+ *   }),
+ * }));
+ * ```
+ */
+export function createApiMiddleware(
+  apiDef: Record<string, unknown>,
+  options: HandlerOptions = {},
+): ApiMiddleware {
+  const route = createRouteHandlers(apiDef, options, fromNodeContext());
+
+  const middleware: NodeMiddleware = (req, res, next) =>
+    serve(req, res, next, (request) => {
+      const params = (req as ExpressRequest).params ?? {};
+      return dispatchMethod(
+        route,
+        { req, res, request, params },
+        new URL(request.url).pathname,
+      );
+    });
+
+  return Object.assign(middleware, { __apiDef: stripHandlers(apiDef) });
+}
+
+/**
+ * Create a Node handler that routes requests to endpoint definitions, like
+ * createFetchHandler(). Unmatched paths get a 404 problem response, or fall
+ * through to `next` when used as middleware. Also accepts a defineApi()
+ * registry.
+ *
+ * @example
+ * ```ts
+ * const handler = createNodeHandler({
+ *   "/users/[id]": {
+ *     GET: endpoint({
+ *       params: z.object({ id: z.string() }),
+ *       handler: (_ctx, { params }) => Response.json({ id: params.id }),
+ *     }),
+ *   },
+ * }, { basePath: "/api" });
+ *
+ * http.createServer(handler).listen(3000);
+ * ```
+ */
+export function createNodeHandler(
+  routes: NodeRoutes | ApiRegistry,
+  options: NodeHandlerOptions = {},
+): NodeHandler {
+  const { basePath = "", ...handlerOptions } = options;
+  if (handlerOptions.versioning) {
+    handlerOptions.versioning = { basePath, ...handlerOptions.versioning };
+  }
+
+  const handlers: Record<string, RouteHandlers<NodeContext>> = {};
+  const apiDefs: Record<string, ApiDef> = {};
+  const definitions = isApiRegistry(routes)
+    ? registryDefinitions(routes, "createNodeHandler()")
+    : routes;
+  for (const [path, apiDef] of Object.entries(definitions)) {
+    handlers[path] = createRouteHandlers(
+      apiDef,
+      handlerOptions,
+      fromNodeContext(path),
+    );
+    apiDefs[path] = stripHandlers(apiDef);
+  }
+  const match = createRouter(handlers, basePath);
+
+  const handler: NodeMiddleware = (req, res, next) => {
+    // Routes are relative to where the handler is mounted (req.url)
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    const route = match(
+      unversionedPath(handlerOptions.versioning, pathname),
+    );
+    if (!route && next) {
+      next();
+      return Promise.resolve();
+    }
+
+    return serve(req, res, next, async (request) => {
+      if (!route) return notFoundResponse(pathname);
+      return await dispatchMethod(
+        route.value,
+        { req, res, request, params: route.params },
+        pathname,
+      );
+    });
+  };
+
+  return Object.assign(handler, { routes: apiDefs });
+}
+
+// =============================================================================
+// Capabilities
+// =============================================================================
+
+/** endpoint() and the Node handlers bound to a provider registry */
+export interface ProviderBindings<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+> {
+  providers: TProviders;
+  securitySchemes: TSchemes;
+  /** endpoint() with `requires` and `security` checked and typed */
+  endpoint: BoundEndpoint<NodeContext, TProviders, TSchemes>;
+  /** createApiMiddleware() with these providers and security schemes */
+  createApiMiddleware(
+    apiDef: Record<string, unknown>,
+    options?: Omit<HandlerOptions, "providers" | "securitySchemes">,
+  ): ApiMiddleware;
+  /** createNodeHandler() with these providers and security schemes */
+  createNodeHandler(
+    routes: NodeRoutes | ApiRegistry,
+    options?: Omit<NodeHandlerOptions, "providers" | "securitySchemes">,
+  ): NodeHandler;
+}
+
+/**
+ * Register capability providers (and optionally security schemes) once and
+ * get endpoint(), createApiMiddleware() and createNodeHandler() bound to
+ * them. Requiring a capability without a provider, or naming an unregistered
+ * scheme in `security`, is a compile error.
+ *
+ * @example
+ * ```ts
+ * const api = withProviders({ database: () => db }, {
+ *   securitySchemes: { bearer: bearerAuth({ verify: verifyToken }) },
+ * });
+ *
+ * http.createServer(api.createNodeHandler({
+ *   "/posts": {
+ *     GET: api.endpoint({
+ *       security: ["bearer"],
+ *       requires: ["database"],
+ *       handler: (_ctx, { principal }, { database }) =>
+ *         Response.json(database.postsFor(principal.id)),
+ *     }),
+ *   },
+ * })).listen(3000);
+ * ```
+ */
+export function withProviders<
+  TProviders extends Providers,
+  TSchemes extends SecuritySchemes = Record<never, never>,
+>(
+  providers: TProviders,
+  options: { securitySchemes?: TSchemes } = {},
+): ProviderBindings<TProviders, TSchemes> {
+  const securitySchemes = options.securitySchemes ?? {} as TSchemes;
+  return {
+    providers,
+    securitySchemes,
+    // deno-lint-ignore no-explicit-any
+    endpoint: (def: any) => def,
+    createApiMiddleware: (apiDef, options = {}) =>
+      createApiMiddleware(apiDef, { ...options, providers, securitySchemes }),
+    createNodeHandler: (routes, options = {}) =>
+      createNodeHandler(routes, { ...options, providers, securitySchemes }),
+  };
+}
@@ -0,0 +1,320 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import {
+  createApiMiddleware,
+  createNodeHandler,
+  endpoint,
+  type NodeMiddleware,
+  sseEndpoint,
+  withProviders,
+} from "./node.ts";
+import { CapabilityError } from "../core/capabilities.ts";
+import { bearerAuth } from "../core/security.ts";
+
+const UserSchema = z.object({ id: z.number(), name: z.string() });
+
+const handler = createNodeHandler({
+  "/users": {
+    POST: endpoint({
+      body: z.object({ name: z.string() }),
+      responses: { 201: UserSchema },
+      handler: (_ctx, { body, respond }) =>
+        respond(201, { id: 1, name: body.name }),
+    }),
+  },
+  "/users/[id]": {
+    GET: endpoint({
+      params: z.object({ id: z.number() }),
+      query: z.object({ fields: z.array(z.string()).optional() }),
+      handler: (ctx, { params, query }) =>
+        Response.json({
+          id: params.id,
+          fields: query.fields ?? [],
+          agent: ctx.req.headers["user-agent"] ?? null,
+        }, { headers: { "Set-Cookie": "a=1" } }),
+    }),
+  },
+  "/files/[...path]": {
+    GET: endpoint({
+      requires: ["auth"],
+      handler: (ctx) => Response.json({ path: ctx.params.path }),
+    }),
+  },
+  "/events": {
+    GET: sseEndpoint({
+      events: { tick: z.object({ n: z.number() }) },
+      async *handler() {
+        yield { event: "tick", data: { n: 1 } };
+        yield { event: "tick", data: { n: 2 } };
+      },
+    }),
+  },
+  "/boom": {
+    GET: endpoint({
+      handler: () => {
+        throw new Error("boom");
+      },
+    }),
+  },
+}, {
+  basePath: "/api",
+  providers: {
+    auth: (ctx) => {
+      if (!ctx.request.headers.get("Authorization")) {
+        throw new CapabilityError(401, "Unauthorized");
+      }
+      return true;
+    },
+  },
+});
+
+async function withServer(
+  listener: (req: IncomingMessage, res: ServerResponse) => void,
+  fn: (baseUrl: string) => Promise<void>,
+): Promise<void> {
+  const server = createServer(listener);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(`http://localhost:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+Deno.test("createNodeHandler routes, validates and writes responses", async () => {
+  await withServer(handler, async (baseUrl) => {
+    const created = await fetch(`${baseUrl}/api/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Ada" }),
+    });
+    assertEquals(created.status, 201);
+    assertEquals(await created.json(), { id: 1, name: "Ada" });
+
+    const user = await fetch(
+      `${baseUrl}/api/users/7?fields=name&fields=email`,
+      { headers: { "User-Agent": "test" } },
+    );
+    assertEquals(user.headers.get("Set-Cookie"), "a=1");
+    assertEquals(await user.json(), {
+      id: 7,
+      fields: ["name", "email"],
+      agent: "test",
+    });
+
+    const invalid = await fetch(`${baseUrl}/api/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    assertEquals(invalid.status, 400);
+    assertEquals(
+      invalid.headers.get("Content-Type"),
+      "application/problem+json",
+    );
+    await invalid.body?.cancel();
+  });
+});
+
+Deno.test("createNodeHandler returns 404 and 405 problems", async () => {
+  await withServer(handler, async (baseUrl) => {
+    const missing = await fetch(`${baseUrl}/api/unknown`);
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+
+    const method = await fetch(`${baseUrl}/api/users`);
+    assertEquals(method.status, 405);
+    assertEquals(method.headers.get("Allow"), "POST, OPTIONS");
+    await method.body?.cancel();
+  });
+});
+
+Deno.test("createNodeHandler resolves providers with the Node context", async () => {
+  await withServer(handler, async (baseUrl) => {
+    const denied = await fetch(`${baseUrl}/api/files/a/b%20c.txt`);
+    assertEquals(denied.status, 401);
+    await denied.body?.cancel();
+
+    const ok = await fetch(`${baseUrl}/api/files/a/b%20c.txt`, {
+      headers: { Authorization: "Bearer t" },
+    });
+    assertEquals(await ok.json(), { path: "a/b c.txt" });
+  });
+});
+
+Deno.test("createNodeHandler streams SSE endpoints over res.write", async () => {
+  await withServer(handler, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/api/events`);
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+    assertEquals(
+      await response.text(),
+      'event: tick\ndata: {"n":1}\n\nevent: tick\ndata: {"n":2}\n\n',
+    );
+  });
+});
+
+Deno.test("createNodeHandler turns thrown errors into 500 problems", async () => {
+  const error = console.error;
+  console.error = () => {};
+  try {
+    await withServer(handler, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/api/boom`);
+      assertEquals(response.status, 500);
+      assertEquals((await response.json()).title, "Internal Server Error");
+    });
+  } finally {
+    console.error = error;
+  }
+});
+
+Deno.test("createNodeHandler falls through to next for unmatched paths", async () => {
+  const app = (req: IncomingMessage, res: ServerResponse) =>
+    handler(req, res, () => {
+      res.statusCode = 418;
+      res.end("next");
+    });
+
+  await withServer(app, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/other`);
+    assertEquals(response.status, 418);
+    assertEquals(await response.text(), "next");
+  });
+});
+
+Deno.test("createApiMiddleware uses Express params and parsed bodies", async () => {
+  const middleware = createApiMiddleware({
+    PUT: endpoint({
+      params: z.object({ id: z.string() }),
+      body: z.object({ name: z.string() }),
+      handler: (_ctx, { params, body }) =>
+        Response.json({ ...params, ...body }),
+    }),
+  });
+
+  // Stand-in for an Express router with express.json() mounted
+  const express: NodeMiddleware = async (req, res, next) => {
+    let text = "";
+    for await (const chunk of req) text += chunk;
+    Object.assign(req, { params: { id: "42" }, body: JSON.parse(text) });
+    await middleware(req, res, next);
+  };
+
+  await withServer(express, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/users/42`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Ada" }),
+    });
+    assertEquals(await response.json(), { id: "42", name: "Ada" });
+
+    const method = await fetch(`${baseUrl}/users/42`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    assertEquals(method.status, 405);
+    assertEquals(method.headers.get("Allow"), "PUT, OPTIONS");
+    await method.body?.cancel();
+  });
+});
+
+Deno.test("createApiMiddleware re-encodes parsed bodies in their content type", async () => {
+  const middleware = createApiMiddleware({
+    POST: endpoint({
+      contentTypes: ["application/x-www-form-urlencoded"],
+      body: z.object({ name: z.string(), tag: z.array(z.string()) }),
+      handler: (_ctx, { body }) => Response.json(body),
+    }),
+  });
+
+  // Stand-in for an Express router with express.urlencoded() mounted
+  const errors: unknown[] = [];
+  const express: NodeMiddleware = async (req, res) => {
+    let text = "";
+    for await (const chunk of req) text += chunk;
+    const form = new URLSearchParams(text);
+    const body = req.headers["content-type"]?.startsWith("multipart/")
+      ? { name: "Ada" }
+      : { name: form.get("name"), tag: form.getAll("tag") };
+    Object.assign(req, { body });
+    await middleware(req, res, (error?: unknown) => {
+      errors.push(error);
+      res.statusCode = 500;
+      res.end();
+    });
+  };
+
+  await withServer(express, async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/users`, {
+      method: "POST",
+      body: new URLSearchParams("name=Ada&tag=a&tag=b"),
+    });
+    assertEquals(await response.json(), { name: "Ada", tag: ["a", "b"] });
+
+    const form = new FormData();
+    form.set("name", "Ada");
+    const multipart = await fetch(`${baseUrl}/users`, {
+      method: "POST",
+      body: form,
+    });
+    assertEquals(multipart.status, 500);
+    await multipart.body?.cancel();
+  });
+
+  assertEquals(errors.length, 1);
+  assertStringIncludes(
+    String(errors[0]),
+    "Can't re-encode a parsed multipart/form-data body",
+  );
+});
+
+Deno.test("createApiMiddleware attaches __apiDef", () => {
+  const middleware = createApiMiddleware({
+    GET: endpoint({ public: true, handler: () => Response.json({}) }),
+  });
+  assertEquals(middleware.__apiDef.GET?.public, true);
+  assertEquals("handler" in middleware.__apiDef.GET!, false);
+});
+
+Deno.test("withProviders binds providers and schemes to createNodeHandler", async () => {
+  const api = withProviders({
+    agent: (ctx: { req: IncomingMessage }) => ctx.req.headers["user-agent"],
+  }, {
+    securitySchemes: {
+      bearer: bearerAuth({
+        verify: (token) => token === "t1" ? { id: "ada" } : undefined,
+      }),
+    },
+  });
+  const whoami = api.createNodeHandler({
+    "/whoami": {
+      GET: api.endpoint({
+        security: ["bearer"],
+        requires: ["agent"],
+        handler: (_ctx, { principal }, { agent }) =>
+          Response.json({ id: principal.id, agent }),
+      }),
+    },
+  });
+
+  await withServer(whoami, async (baseUrl) => {
+    const ok = await fetch(`${baseUrl}/whoami`, {
+      headers: { Authorization: "Bearer t1", "User-Agent": "test" },
+    });
+    assertEquals(await ok.json(), { id: "ada", agent: "test" });
+
+    const denied = await fetch(`${baseUrl}/whoami`, {
+      headers: { Authorization: "Bearer t2" },
+    });
+    assertEquals(denied.status, 401);
+    await denied.body?.cancel();
+  });
+});
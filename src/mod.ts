@@ -2,23 +2,183 @@
 export type {
   ApiDef,
   ApiMethodDef,
+  BodyContentType,
+  DeclaredResponses,
   HttpMethod,
   InferBody,
+  InferCookies,
+  InferHeaders,
   InferParams,
   InferQuery,
+  QueryStyle,
+  Respond,
+  ResponseDefs,
+  ResponseEntry,
   ValidatedRequest,
+  ValidationIssue,
+  ValidationLocation,
 } from "./core/types.ts";
 
 // Validation
 export {
+  parseFormData,
   parseSearchParams,
   type RawRequest,
+  type RequestLimits,
   validateRequest,
   type ValidationError,
   type ValidationOutcome,
   type ValidationResult,
 } from "./core/validation.ts";
 
+// Query and path parameter serialization
+export { coerceValue, parseQuery, serializeQuery } from "./core/query.ts";
+
+// Capabilities
+export {
+  type Capabilities,
+  CapabilityError,
+  type Provider,
+  type Providers,
+} from "./core/capabilities.ts";
+
+// Security schemes
+export {
+  apiKeyAuth,
+  type ApiKeyScheme,
+  authenticate,
+  type AuthenticationResult,
+  basicAuth,
+  type BasicScheme,
+  bearerAuth,
+  type BearerScheme,
+  cookieAuth,
+  type PrincipalOf,
+  type SecurityScheme,
+  type SecuritySchemes,
+} from "./core/security.ts";
+
+// Authorization
+export {
+  type AuthorizationPolicy,
+  filterFields,
+  isAuthorized,
+  principalRoles,
+  principalScopes,
+  visibleTo,
+} from "./core/authorization.ts";
+
+// Rate limiting
+export {
+  kvRateLimitStore,
+  memoryRateLimitStore,
+  type RateLimitHit,
+  type RateLimitKey,
+  type RateLimitPolicy,
+  type RateLimitStore,
+} from "./core/ratelimit.ts";
+
+// Idempotency
+export {
+  type IdempotencyPolicy,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+  kvIdempotencyStore,
+  memoryIdempotencyStore,
+  type StoredResponse,
+} from "./core/idempotency.ts";
+
+// ETags
+export {
+  etagMatches,
+  etagOf,
+  type EtagPolicy,
+  type EtagStrategy,
+} from "./core/etag.ts";
+
+// CORS
+export type { CorsConfig, CorsOptions } from "./core/cors.ts";
+
+// Deprecation
+export { isDeprecated, type Sunset } from "./core/deprecation.ts";
+
+// Versioning
+export type {
+  VersionDef,
+  VersioningOptions,
+  VersionSource,
+} from "./core/versioning.ts";
+
+// Error catalog
+export {
+  ApiError,
+  apiError,
+  type ApiErrorArgs,
+  type ApiErrorProblem,
+  type CatalogError,
+  defineErrors,
+  type ErrorCatalog,
+  type ErrorDef,
+} from "./core/errors.ts";
+
+// Lifecycle hooks
+export type { LifecycleHooks, RequestInfo } from "./core/hooks.ts";
+
+// Tracing
+export {
+  formatTraceparent,
+  memoryTracer,
+  parseTraceparent,
+  type RecordedSpan,
+  type Span,
+  type SpanAttributes,
+  type SpanAttributeValue,
+  type SpanContext,
+  type SpanOptions,
+  type SpanStatus,
+  type Tracer,
+} from "./core/tracing.ts";
+
+// Sensitive fields and access logs
+export { isSensitive, redact, REDACTED } from "./core/redaction.ts";
+export {
+  type AccessLogConfig,
+  type AccessLogEntry,
+  type AccessLogger,
+  consoleAccessLogger,
+} from "./core/accesslog.ts";
+
+// Cookies
+export {
+  type CookieAttributes,
+  parseCookies,
+  type ResponseCookie,
+  responseCookie,
+  type ResponseCookieConfig,
+  type ResponseCookieDefs,
+  serializeCookie,
+} from "./core/cookies.ts";
+
+// Problem details (RFC 9457)
+export {
+  PROBLEM_CONTENT_TYPE,
+  PROBLEM_TYPES,
+  type ProblemDetails,
+  ProblemDetailsSchema,
+  problemResponse,
+  validationProblem,
+  type ValidationProblemDetails,
+  ValidationProblemSchema,
+} from "./core/problem.ts";
+
+// Responses
+export {
+  respond,
+  responseSchemaFor,
+  type ResponseValidationOptions,
+  validateResponse,
+} from "./core/response.ts";
+
 // OpenAPI generation
 export {
   filePathToOpenApiPath,
@@ -29,6 +189,14 @@ export {
   type RouteModule,
 } from "./core/openapi.ts";
 
+// Route registry
+export {
+  type ApiRegistry,
+  type ApiRoutes,
+  defineApi,
+  isApiRegistry,
+} from "./core/registry.ts";
+
 // TypeScript generation
 export { generateTypes, type TypeGenOptions } from "./tsgen/mod.ts";
 
@@ -42,11 +210,33 @@ export {
 
 // Fresh adapter
 export {
+  type ApiHandlersOptions,
   createApiHandlers,
   endpoint,
   type FreshApiMethodDef,
 } from "./integrations/fresh.ts";
 
+// Fetch adapter
+export {
+  createFetchHandler,
+  type FetchContext,
+  type FetchHandler,
+  type FetchHandlerOptions,
+  type FetchRoutes,
+} from "./integrations/fetch.ts";
+
+// Request handling runtime
+export {
+  type BoundEndpoint,
+  createMethodHandler,
+  createRouteHandlers,
+  type EndpointDef,
+  type HandlerOptions,
+  type HandlerResult,
+  type RequestContext,
+  type RouteHandlers,
+} from "./core/runtime.ts";
+
 // Protocol type generation
 export {
   generateProtocolTypes,
@@ -27,6 +27,7 @@ import {
   getNestedValue,
   isFieldMapping,
 } from "./mapping.ts";
+import { redact } from "../core/redaction.ts";
 
 // =============================================================================
 // Type Utilities
@@ -67,6 +68,15 @@ export interface ExecutionContext {
   protocol: string;
   history: string[];
   responses: Record<string, unknown>;
+  /** For dumps: responses with sensitive fields masked. Sessions set it. */
+  toJSON?(): ExecutionDump;
+}
+
+/** A protocol's history and responses as dumped, sensitive fields masked */
+export interface ExecutionDump {
+  protocol: string;
+  history: string[];
+  responses: Record<string, unknown>;
 }
 
 // =============================================================================
@@ -201,6 +211,7 @@ export class ProtocolSession<
       protocol: this.protocol.name,
       history: [...this.history],
       responses: this.responses as Record<string, unknown>,
+      toJSON: () => this.toJSON(),
     };
 
     const response = await this.executor.execute(
@@ -265,6 +276,20 @@ export class ProtocolSession<
     );
   }
 
+  /** For dumps: history and responses, with sensitive fields masked */
+  toJSON(): ExecutionDump {
+    return {
+      protocol: this.protocol.name,
+      history: [...this.history],
+      responses: Object.fromEntries(
+        Object.entries(this.responses).map(([step, response]) => [
+          step,
+          redact(response, this.protocol.steps[step]?.response),
+        ]),
+      ),
+    };
+  }
+
   /** Check if session has reached terminal state */
   isTerminal(): boolean {
     if (!this.protocol.terminal?.length) return false;
@@ -15,6 +15,7 @@ import {
 } from "./client.ts";
 import { dependentStep, mappedStep, protocol, step } from "./dsl.ts";
 import { fromStep } from "./mapping.ts";
+import { REDACTED } from "../core/redaction.ts";
 import {
   type AuthorizeResponse,
   type ExchangeResponse,
@@ -219,6 +220,46 @@ Deno.test("execute validates dependent step request with literal type", async ()
   );
 });
 
+Deno.test("session dumps mask sensitive response fields", async () => {
+  const tokenProtocol = protocol({
+    name: "TokenProtocol",
+    initial: "login",
+    terminal: ["login"],
+    steps: {
+      login: step({
+        name: "login",
+        request: z.object({ user: z.string() }),
+        response: z.object({
+          user: z.string(),
+          token: z.string().meta({ sensitive: true }),
+        }),
+      }),
+    },
+  });
+  let dumped = "";
+  const session = createSession(tokenProtocol, {
+    execute: (_step, _request, ctx) => {
+      dumped = JSON.stringify(ctx);
+      return Promise.resolve({ user: "alice", token: "secret" });
+    },
+  });
+
+  const { response, session: done } = await session.execute("login", {
+    user: "alice",
+  });
+  assertEquals(response.token, "secret");
+  assertEquals(JSON.parse(dumped), {
+    protocol: "TokenProtocol",
+    history: [],
+    responses: {},
+  });
+  assertEquals(JSON.parse(JSON.stringify(done)), {
+    protocol: "TokenProtocol",
+    history: ["login"],
+    responses: { login: { user: "alice", token: REDACTED } },
+  });
+});
+
 // =============================================================================
 // Terminal State Tests
 // =============================================================================
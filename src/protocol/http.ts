@@ -7,6 +7,7 @@
 
 import type { AnyStep, Protocol } from "./types.ts";
 import type { ExecutionContext, StepExecutor } from "./client.ts";
+import { TRACEPARENT_HEADER } from "../core/tracing.ts";
 
 // =============================================================================
 // Types
@@ -30,6 +31,11 @@ export interface HttpExecutorConfig<
   headers?: Record<string, string>;
   /** Custom fetch implementation (defaults to global fetch) */
   fetch?: typeof fetch;
+  /**
+   * W3C `traceparent` sent with every request so traces continue across
+   * services. A function is called per request.
+   */
+  traceparent?: string | (() => string | undefined);
   /** Auth token propagation from previous step responses */
   auth?: {
     /** Step name to extract token from */
@@ -129,6 +135,14 @@ export function createHttpExecutor<
         ...config.headers,
       };
 
+      // Continue the caller's trace
+      const traceparent = typeof config.traceparent === "function"
+        ? config.traceparent()
+        : config.traceparent;
+      if (traceparent) {
+        headers[TRACEPARENT_HEADER] = traceparent;
+      }
+
       // Auto-inject auth token from previous step response
       if (config.auth) {
         const prevResponse = ctx.responses[config.auth.fromStep];
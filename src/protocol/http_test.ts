@@ -435,6 +435,28 @@ Deno.test("createHttpExecutor supports custom auth header name and prefix", asyn
   assertEquals(headerLog[1]["x-api-key"], "api-key-12345");
 });
 
+Deno.test("createHttpExecutor sends traceparent", async () => {
+  const parents: (string | undefined)[] = [];
+  const mockFetch: typeof fetch = (_input, init) => {
+    const opts = init as MockRequestInit | undefined;
+    parents.push(opts?.headers?.["traceparent"]);
+    return Promise.resolve(Response.json({ sessionId: "s", accessToken: "t" }));
+  };
+  const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+  const executor = createHttpExecutor(authProtocol, {
+    baseUrl: "https://api.example.com",
+    routes: testRoutes,
+    fetch: mockFetch,
+    traceparent: () => traceparent,
+  });
+
+  const session = createSession(authProtocol, executor);
+  await session.execute("login", { username: "alice", password: "secret" });
+
+  assertEquals(parents, [traceparent]);
+});
+
 Deno.test("createHttpExecutor supports nested token path", async () => {
   // Endpoint handlers with nested token response
   const nestedLoginHandler = createApiHandlers({
@@ -156,6 +156,7 @@ export type {
   AvailableSteps,
   ExecuteResult,
   ExecutionContext,
+  ExecutionDump,
   MockResponses,
   SessionState,
   StepExecutor,
@@ -1,7 +1,19 @@
 import { toFileUrl } from "@std/path";
-import type { ApiDef, HttpMethod } from "@/core/types.ts";
+import type { ApiDef, HttpMethod, QueryStyle } from "@/core/types.ts";
+import type { ApiRegistry } from "@/core/registry.ts";
+import {
+  type DeprecationDef,
+  describeSunset,
+  isDeprecated,
+} from "@/core/deprecation.ts";
+import { apiDefForVersion } from "@/core/versioning.ts";
+import type { CatalogError } from "@/core/errors.ts";
 import { collectRouteFiles } from "./files.ts";
-import { filePathToApiPath, pathToTypeName } from "./path.ts";
+import {
+  filePathToApiPath,
+  pathToTypeName,
+  routePathToApiPath,
+} from "./path.ts";
 import { zodToTypeString } from "./zod.ts";
 
 const HTTP_METHODS: HttpMethod[] = [
@@ -17,6 +29,8 @@ const HTTP_METHODS: HttpMethod[] = [
 export interface TypeGenOptions {
   /** Directories containing route files. Defaults to ["routes/api"] */
   routesDirs?: string[];
+  /** Routes registered with defineApi(), used instead of `routesDirs` */
+  api?: ApiRegistry;
   /** Output file path. If provided, writes generated types to this file */
   output?: string;
   /**
@@ -32,6 +46,11 @@ export interface TypeGenOptions {
    * - "routes": Runtime route metadata for use with createHttpExecutor()
    */
   format?: "types" | "client" | "routes";
+  /**
+   * Generate types for this version of versioned endpoints (the schemas in
+   * their `versions`). Default: the latest version
+   */
+  version?: string;
 }
 
 interface RouteModule {
@@ -89,7 +108,8 @@ function convert(schema) {
       const props = entries.map(([key, value]) => {
         const isOptional = getTypeName(getDef(value)) === "optional";
         const typeStr = convert(value);
-        return \`\${key}\${isOptional ? "?" : ""}: \${typeStr}\`;
+        const safeKey = /^[A-Za-z_$][\\w$]*$/.test(key) ? key : JSON.stringify(key);
+        return \`\${safeKey}\${isOptional ? "?" : ""}: \${typeStr}\`;
       });
       return \`{ \${props.join("; ")}; }\`;
     }
@@ -127,6 +147,7 @@ function convert(schema) {
 function zodToTypeString(schema) { return convert(schema); }
 
 const filePath = Deno.args[0];
+const version = Deno.args[1];
 try {
   const mod = await import(filePath);
   const apiDef = mod.handler?.__apiDef;
@@ -137,11 +158,20 @@ try {
 
   // Convert Zod schemas to type strings before serializing
   const result = {};
-  for (const [method, def] of Object.entries(apiDef)) {
-    if (!def) continue;
+  for (const [method, currentDef] of Object.entries(apiDef)) {
+    if (!currentDef) continue;
+    // An older version's schemas replace the current ones
+    const old = version ? currentDef.versions?.[version] : undefined;
+    const def = {
+      ...currentDef,
+      body: old?.body ?? currentDef.body,
+      response: old?.response ?? currentDef.response,
+    };
     const methodResult = {
       bodyType: def.body ? zodToTypeString(def.body) : undefined,
       responseType: def.response ? zodToTypeString(def.response) : undefined,
+      headersType: def.headers ? zodToTypeString(def.headers) : undefined,
+      contentTypes: def.contentTypes,
     };
 
     // Handle SSE events
@@ -157,6 +187,39 @@ try {
       methodResult.pagination = def.__pagination;
     }
 
+    // Handle rate limits (the key may be a function, so keep window and max)
+    if (def.rateLimit) {
+      methodResult.rateLimit = {
+        window: def.rateLimit.window,
+        max: def.rateLimit.max,
+      };
+    }
+
+    // Handle idempotency (the client only needs to know it's on)
+    if (def.idempotent) {
+      methodResult.idempotent = true;
+    }
+
+    // Handle query encoding (only when it differs from the default)
+    if (def.queryStyle && def.queryStyle !== "form") {
+      methodResult.queryStyle = def.queryStyle;
+    }
+
+    // Handle deprecation (dates are serialized as strings)
+    if (def.deprecated || def.sunset) {
+      methodResult.deprecated = def.deprecated;
+      methodResult.sunset = def.sunset;
+    }
+
+    // Handle catalog errors (details schemas become type strings)
+    if (def.errors?.length) {
+      methodResult.errorsType = def.errors.map((error) =>
+        \`{ code: "\${error.code}"; status: \${error.status}\${
+          error.details ? \`; details: \${zodToTypeString(error.details)}\` : ""
+        } }\`
+      ).join(" | ");
+    }
+
     // Handle operationId
     if (def.operationId) {
       methodResult.operationId = def.operationId;
@@ -178,6 +241,7 @@ try {
 async function importWithConfig(
   filePath: string,
   configPath: string,
+  version: string | undefined,
 ): Promise<ApiDef | undefined> {
   const absolutePath = await Deno.realPath(filePath);
   const fileUrl = toFileUrl(absolutePath).href;
@@ -189,6 +253,7 @@ async function importWithConfig(
       configPath,
       IMPORT_HELPER_SCRIPT,
       fileUrl, // Pass target file URL as an argument to the script
+      ...(version ? [version] : []),
     ],
     stdout: "piped",
     stderr: "piped",
@@ -262,14 +327,30 @@ type PaginationMeta =
   | PagePaginationMeta
   | UrlPaginationMeta;
 
+interface RateLimitMeta {
+  window: string | number;
+  max: number;
+}
+
 interface EndpointType {
   name: string;
   path: string;
   method: string;
   request?: string;
   response?: string;
+  headers?: string;
+  /** Body content types, when the endpoint accepts more than JSON */
+  contentTypes?: string[];
   events?: Record<string, string>;
   pagination?: PaginationMeta;
+  rateLimit?: RateLimitMeta;
+  idempotent?: boolean;
+  /** Query encoding, when the endpoint doesn't use the default "form" */
+  queryStyle?: QueryStyle;
+  /** JSDoc `@deprecated` tag, when the endpoint is deprecated */
+  deprecated?: string;
+  /** Union of the catalog errors the endpoint can answer with */
+  errors?: string;
   operationId?: string;
 }
 
@@ -281,9 +362,10 @@ async function getApiDef(
   filePath: string,
   config: string | undefined,
   cacheBuster: string,
+  version: string | undefined,
 ): Promise<{ filePath: string; apiDef: ApiDef | undefined }> {
   if (config) {
-    const apiDef = await importWithConfig(filePath, config);
+    const apiDef = await importWithConfig(filePath, config, version);
     return { filePath, apiDef };
   }
 
@@ -293,16 +375,12 @@ async function getApiDef(
   return { filePath, apiDef: mod.handler?.__apiDef };
 }
 
-/**
- * Generate TypeScript types from API route Zod schemas.
- * Returns the generated types as a string.
- * If `output` is provided, also writes to that file.
- */
-export async function generateTypes(
-  options: TypeGenOptions = {},
-): Promise<string> {
-  const { routesDirs = ["routes/api"], output, config } = options;
-
+/** Import route files and pair each API definition with its API path */
+async function importRouteFiles(
+  routesDirs: string[],
+  config: string | undefined,
+  version: string | undefined,
+): Promise<{ apiPath: string; apiDef: ApiDef | undefined }[]> {
   const routeFiles: string[] = [];
   for (const dir of routesDirs) {
     for await (const entry of Deno.readDir(dir)) {
@@ -310,20 +388,48 @@ export async function generateTypes(
     }
   }
 
-  const endpoints: EndpointType[] = [];
   const cacheBuster = `?t=${Date.now()}`;
 
   // Import all route files (in parallel when using config for better perf)
   const importResults = await Promise.all(
     routeFiles
       .sort()
-      .map((filePath) => getApiDef(filePath, config, cacheBuster)),
+      .map((filePath) => getApiDef(filePath, config, cacheBuster, version)),
   );
 
-  for (const { filePath, apiDef } of importResults) {
-    if (!apiDef) continue;
+  return importResults.map(({ filePath, apiDef }) => ({
+    apiPath: filePathToApiPath(filePath),
+    apiDef,
+  }));
+}
+
+/**
+ * Generate TypeScript types from API route Zod schemas, or from a
+ * defineApi() registry when `api` is given.
+ * Returns the generated types as a string.
+ * If `output` is provided, also writes to that file.
+ */
+export async function generateTypes(
+  options: TypeGenOptions = {},
+): Promise<string> {
+  const { routesDirs = ["routes/api"], api, output, config, version } = options;
+
+  const routes = api
+    ? Object.keys(api.apiDefs).sort().map((path) => ({
+      apiPath: routePathToApiPath(path),
+      apiDef: api.apiDefs[path],
+    }))
+    : await importRouteFiles(routesDirs, config, version);
+
+  const endpoints: EndpointType[] = [];
+
+  for (const route of routes) {
+    if (!route.apiDef) continue;
+    const { apiPath } = route;
+    const apiDef = version
+      ? apiDefForVersion(route.apiDef, version)
+      : route.apiDef;
 
-    const apiPath = filePathToApiPath(filePath);
     const baseName = pathToTypeName(apiPath);
 
     for (const method of HTTP_METHODS) {
@@ -348,9 +454,14 @@ export async function generateTypes(
       const def = methodDef as {
         body?: unknown;
         response?: unknown;
+        headers?: unknown;
+        contentTypes?: string[];
         bodyType?: string;
         responseType?: string;
+        headersType?: string;
         events?: Record<string, unknown>;
+        errors?: readonly CatalogError[];
+        errorsType?: string;
       };
 
       if (def.bodyType) {
@@ -369,6 +480,20 @@ export async function generateTypes(
         );
       }
 
+      if (def.headersType) {
+        endpoint.headers = def.headersType;
+      } else if (def.headers) {
+        endpoint.headers = zodToTypeString(
+          def.headers as Parameters<typeof zodToTypeString>[0],
+        );
+      }
+
+      if (
+        def.contentTypes?.some((type) => type !== "application/json")
+      ) {
+        endpoint.contentTypes = def.contentTypes;
+      }
+
       // Handle SSE events
       if (def.events) {
         endpoint.events = {};
@@ -395,6 +520,38 @@ export async function generateTypes(
           .pagination;
       }
 
+      // Handle rate limits (same shape from direct import and subprocess)
+      const rateLimitDef = methodDef as { rateLimit?: RateLimitMeta };
+      if (rateLimitDef.rateLimit) {
+        endpoint.rateLimit = {
+          window: rateLimitDef.rateLimit.window,
+          max: rateLimitDef.rateLimit.max,
+        };
+      }
+
+      // Handle idempotency
+      if ((methodDef as { idempotent?: unknown }).idempotent) {
+        endpoint.idempotent = true;
+      }
+
+      // Handle query encoding (same shape from direct import and subprocess)
+      const queryStyle = (methodDef as { queryStyle?: QueryStyle }).queryStyle;
+      if (queryStyle && queryStyle !== "form") {
+        endpoint.queryStyle = queryStyle;
+      }
+
+      if (def.errorsType) {
+        endpoint.errors = def.errorsType;
+      } else if (def.errors?.length) {
+        endpoint.errors = errorUnion(def.errors);
+      }
+
+      // Handle deprecation (same shape from direct import and subprocess)
+      const deprecated = deprecatedTag(methodDef as DeprecationDef);
+      if (deprecated) {
+        endpoint.deprecated = deprecated;
+      }
+
       // Handle operationId
       const operationIdDef = methodDef as { operationId?: string };
       if (operationIdDef.operationId) {
@@ -440,23 +597,77 @@ function generateTypesFormat(endpoints: EndpointType[]): string {
 
   for (const endpoint of endpoints) {
     lines.push(`// ${endpoint.method} ${endpoint.path}`);
+    const doc = endpoint.deprecated ? [`/** ${endpoint.deprecated} */`] : [];
 
     if (endpoint.request) {
-      lines.push(`export type ${endpoint.name}Request = ${endpoint.request};`);
+      lines.push(
+        ...doc,
+        `export type ${endpoint.name}Request = ${endpoint.request};`,
+      );
     }
 
     if (endpoint.response) {
       lines.push(
+        ...doc,
         `export type ${endpoint.name}Response = ${endpoint.response};`,
       );
     }
 
+    if (endpoint.headers) {
+      lines.push(
+        ...doc,
+        `export type ${endpoint.name}Headers = ${endpoint.headers};`,
+      );
+    }
+
+    if (endpoint.contentTypes) {
+      lines.push(
+        ...doc,
+        `export type ${endpoint.name}ContentType = ${
+          contentTypeUnion(endpoint.contentTypes)
+        };`,
+      );
+    }
+
+    if (endpoint.errors) {
+      lines.push(
+        ...doc,
+        `export type ${endpoint.name}Error = ${endpoint.errors};`,
+      );
+    }
+
     lines.push("");
   }
 
   return lines.join("\n");
 }
 
+/**
+ * JSDoc tag for a deprecated endpoint, so editors strike through its uses.
+ * Includes the sunset date and replacement when known.
+ */
+function deprecatedTag(def: DeprecationDef): string | undefined {
+  if (!isDeprecated(def)) return undefined;
+  if (!def.sunset) return "@deprecated";
+  const { date, replacement } = describeSunset(def.sunset);
+  return `@deprecated Sunset on ${date}.` +
+    (replacement ? ` Use ${replacement} instead.` : "");
+}
+
+/** Render catalog errors as a union discriminated by `code` */
+function errorUnion(errors: readonly CatalogError[]): string {
+  return errors.map((error) =>
+    `{ code: "${error.code}"; status: ${error.status}${
+      error.details ? `; details: ${zodToTypeString(error.details)}` : ""
+    } }`
+  ).join(" | ");
+}
+
+/** Render content types as a string literal union */
+function contentTypeUnion(contentTypes: string[]): string {
+  return contentTypes.map((type) => `"${type}"`).join(" | ");
+}
+
 /**
  * Derive an operationId from path and method.
  * E.g., POST /api/auth/login -> authLogin
@@ -525,6 +736,9 @@ function generateRoutesFormat(endpoints: EndpointType[]): string {
     // Convert Fresh-style [param] to {param} for HTTP executor
     const httpPath = endpoint.path.replace(/\[(\w+)\]/g, "{$1}");
 
+    if (endpoint.deprecated) {
+      lines.push(`  /** ${endpoint.deprecated} */`);
+    }
     lines.push(
       `  ${id}: { method: "${endpoint.method}", path: "${httpPath}" },`,
     );
@@ -589,8 +803,15 @@ interface ResourceMethod {
   name: string;
   body?: string;
   response?: string;
+  headers?: string;
+  contentTypes?: string[];
   events?: Record<string, string>;
   pagination?: PaginationMeta;
+  rateLimit?: RateLimitMeta;
+  idempotent?: boolean;
+  queryStyle?: QueryStyle;
+  deprecated?: string;
+  errors?: string;
 }
 
 interface ResourceNode {
@@ -629,8 +850,15 @@ function generateClientFormat(endpoints: EndpointType[]): string {
           name: methodName,
           body: endpoint.request,
           response: endpoint.response,
+          headers: endpoint.headers,
+          contentTypes: endpoint.contentTypes,
           events: endpoint.events,
           pagination: endpoint.pagination,
+          rateLimit: endpoint.rateLimit,
+          idempotent: endpoint.idempotent,
+          queryStyle: endpoint.queryStyle,
+          deprecated: endpoint.deprecated,
+          errors: endpoint.errors,
         };
       } else {
         // Intermediate segment - go deeper
@@ -656,6 +884,10 @@ function generateClientFormat(endpoints: EndpointType[]): string {
 
       // Render methods
       for (const [methodName, method] of Object.entries(resource.methods)) {
+        // Carried over to the client method, so calls show as deprecated
+        if (method.deprecated) {
+          lines.push(`${indent}  /** ${method.deprecated} */`);
+        }
         lines.push(`${indent}  ${methodName}: {`);
         if (method.body) {
           lines.push(`${indent}    body: ${method.body};`);
@@ -663,6 +895,16 @@ function generateClientFormat(endpoints: EndpointType[]): string {
         if (method.response) {
           lines.push(`${indent}    response: ${method.response};`);
         }
+        if (method.headers) {
+          lines.push(`${indent}    headers: ${method.headers};`);
+        }
+        if (method.contentTypes) {
+          lines.push(
+            `${indent}    contentType: ${
+              contentTypeUnion(method.contentTypes)
+            };`,
+          );
+        }
         if (method.events) {
           lines.push(`${indent}    events: {`);
           for (const [eventName, eventType] of Object.entries(method.events)) {
@@ -738,6 +980,22 @@ function generateClientFormat(endpoints: EndpointType[]): string {
           }
           lines.push(`${indent}    };`);
         }
+        if (method.rateLimit) {
+          lines.push(
+            `${indent}    rateLimit: { window: ${
+              JSON.stringify(method.rateLimit.window)
+            }; max: ${method.rateLimit.max} };`,
+          );
+        }
+        if (method.idempotent) {
+          lines.push(`${indent}    idempotent: true;`);
+        }
+        if (method.queryStyle) {
+          lines.push(`${indent}    queryStyle: "${method.queryStyle}";`);
+        }
+        if (method.errors) {
+          lines.push(`${indent}    errors: ${method.errors};`);
+        }
         lines.push(`${indent}  };`);
       }
 
@@ -755,5 +1013,24 @@ function generateClientFormat(endpoints: EndpointType[]): string {
   lines.push("}");
   lines.push("");
 
+  // Types are erased, so the client reads query encodings from this map
+  const queryStyles = endpoints.filter((endpoint) => endpoint.queryStyle);
+  if (queryStyles.length > 0) {
+    lines.push(
+      "/** Query encoding per client method, for createClient()'s `queryStyles` */",
+    );
+    lines.push("export const apiQueryStyles = {");
+    for (const endpoint of queryStyles) {
+      const method = endpoint.events ? "subscribe" : httpMethodToResourceMethod(
+        endpoint.method,
+        pathHasParams(endpoint.path),
+      );
+      const call = [...pathToResourceSegments(endpoint.path), method].join(".");
+      lines.push(`  "${call}": "${endpoint.queryStyle}",`);
+    }
+    lines.push("} as const;");
+    lines.push("");
+  }
+
   return lines.join("\n");
 }
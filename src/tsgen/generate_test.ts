@@ -1,5 +1,11 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
 import { assertSnapshot } from "@std/testing/snapshot";
 import { generateTypes } from "./generate.ts";
+import { z } from "zod";
+import { defineApi } from "../core/registry.ts";
+import * as taskEvents from "./fixtures/routes/api/tasks/[id]/events.ts";
+import * as users from "./fixtures/routes/api/users.ts";
+import * as user from "./fixtures/routes/api/users/[id].ts";
 
 const FIXTURES_DIR = new URL("./fixtures/routes/api", import.meta.url).pathname;
 const WEBHOOKS_DIR =
@@ -37,3 +43,152 @@ Deno.test("generateTypes with client format", async (t) => {
 
   await assertSnapshot(t, output);
 });
+
+Deno.test("generateTypes emits form content types", async () => {
+  const routesDir = new URL("../core/fixtures/routes/api", import.meta.url)
+    .pathname;
+
+  const types = await generateTypes({ routesDirs: [routesDir] });
+  assertStringIncludes(
+    types,
+    'export type UploadsContentType = "multipart/form-data" | "application/x-www-form-urlencoded";',
+  );
+
+  const client = await generateTypes({
+    routesDirs: [routesDir],
+    format: "client",
+  });
+  assertStringIncludes(
+    client,
+    "body: { title: string; file?: File | undefined; };",
+  );
+  assertStringIncludes(
+    client,
+    'contentType: "multipart/form-data" | "application/x-www-form-urlencoded";',
+  );
+});
+
+Deno.test("generateTypes from a defineApi() registry matches route files", async () => {
+  const api = defineApi({
+    "/api/tasks/:id/events": taskEvents.handler,
+    "/api/users": users.handler,
+    "/api/users/[id]": user.handler,
+  });
+
+  assertEquals(
+    await generateTypes({ api }),
+    await generateTypes({ routesDirs: [FIXTURES_DIR] }),
+  );
+});
+
+Deno.test("generateTypes surfaces rate limits in the client format", async () => {
+  const routesDir = new URL("../core/fixtures/routes/api", import.meta.url)
+    .pathname;
+
+  const client = await generateTypes({
+    routesDirs: [routesDir],
+    format: "client",
+  });
+  assertStringIncludes(client, 'rateLimit: { window: "1m"; max: 60 };');
+});
+
+Deno.test("generateTypes marks idempotent methods in the client format", async () => {
+  const routesDir = new URL("../core/fixtures/routes/api", import.meta.url)
+    .pathname;
+
+  const client = await generateTypes({
+    routesDirs: [routesDir],
+    format: "client",
+  });
+  assertStringIncludes(client, "idempotent: true;");
+});
+
+Deno.test("generateTypes emits catalog error unions", async () => {
+  const routesDir = new URL("../core/fixtures/routes/api", import.meta.url)
+    .pathname;
+  const union = '{ code: "INVALID_CREDENTIALS"; status: 401 } | ' +
+    '{ code: "ACCOUNT_LOCKED"; status: 401; details: { until: string; } }';
+
+  const types = await generateTypes({ routesDirs: [routesDir] });
+  assertStringIncludes(types, `export type SessionError = ${union};`);
+
+  // The subprocess import renders the same union
+  const client = await generateTypes({
+    routesDirs: [routesDir],
+    format: "client",
+    config: "deno.json",
+  });
+  assertStringIncludes(client, `    errors: ${union};`);
+});
+
+Deno.test("generateTypes tags deprecated methods with JSDoc", async () => {
+  const api = defineApi({
+    "/api/users": {
+      GET: {
+        response: z.array(z.string()),
+        sunset: { date: "2027-01-01", replacement: "/api/v2/users" },
+      },
+      POST: { body: z.object({ name: z.string() }), deprecated: true },
+    },
+  });
+
+  const client = await generateTypes({ api, format: "client" });
+  assertStringIncludes(
+    client,
+    "    /** @deprecated Sunset on 2027-01-01. Use /api/v2/users instead. */\n" +
+      "    list: {",
+  );
+  assertStringIncludes(client, "    /** @deprecated */\n    create: {");
+
+  const types = await generateTypes({ api });
+  assertStringIncludes(
+    types,
+    "/** @deprecated */\nexport type UsersPostRequest",
+  );
+});
+
+Deno.test("generateTypes emits one version of versioned endpoints", async () => {
+  const api = defineApi({
+    "/api/users": {
+      POST: {
+        body: z.object({ fullName: z.string() }),
+        response: z.object({ fullName: z.string() }),
+        versions: {
+          "1": {
+            body: z.object({ name: z.string() }),
+            response: z.object({ name: z.string() }),
+          },
+        },
+      },
+    },
+  });
+
+  const v1 = await generateTypes({ api, version: "1", format: "client" });
+  assertStringIncludes(v1, "body: { name: string; };");
+  assertStringIncludes(v1, "response: { name: string; };");
+
+  const latest = await generateTypes({ api, format: "client" });
+  assertStringIncludes(latest, "body: { fullName: string; };");
+});
+
+Deno.test("generateTypes emits each method's query encoding", async () => {
+  const api = defineApi({
+    "/api/issues": {
+      GET: {
+        queryStyle: "deepObject",
+        query: z.object({ filter: z.object({ status: z.string() }) }),
+        response: z.array(z.string()),
+      },
+    },
+    "/api/users": {
+      GET: { query: z.object({ q: z.string() }), response: z.string() },
+    },
+  });
+
+  const client = await generateTypes({ api, format: "client" });
+  assertStringIncludes(client, 'queryStyle: "deepObject";');
+  assertStringIncludes(
+    client,
+    'export const apiQueryStyles = {\n  "issues.list": "deepObject",\n} as const;',
+  );
+});
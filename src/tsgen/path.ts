@@ -32,3 +32,10 @@ export function filePathToApiPath(filePath: string): string {
 
   return path;
 }
+
+/** Convert a registry route pattern to file-style syntax: `:id` -> `[id]` */
+export function routePathToApiPath(path: string): string {
+  return path
+    .replace(/:(\w+)[+*]/g, "[...$1]")
+    .replace(/:(\w+)/g, "[$1]");
+}
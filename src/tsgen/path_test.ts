@@ -1,5 +1,9 @@
 import { assertEquals } from "@std/assert";
-import { filePathToApiPath, pathToTypeName } from "./path.ts";
+import {
+  filePathToApiPath,
+  pathToTypeName,
+  routePathToApiPath,
+} from "./path.ts";
 
 // filePathToApiPath tests
 
@@ -79,3 +83,9 @@ Deno.test("pathToTypeName handles nested params", () => {
 Deno.test("pathToTypeName handles kebab-case paths", () => {
   assertEquals(pathToTypeName("/api/send-digest"), "SendDigest");
 });
+
+Deno.test("routePathToApiPath converts :param patterns to file-style", () => {
+  assertEquals(routePathToApiPath("/api/users/:id"), "/api/users/[id]");
+  assertEquals(routePathToApiPath("/api/files/:path+"), "/api/files/[...path]");
+  assertEquals(routePathToApiPath("/api/users/[id]"), "/api/users/[id]");
+});
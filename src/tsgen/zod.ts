@@ -20,6 +20,11 @@ function getTypeName(def: Record<string, unknown>): string {
   return (def.type ?? def.typeName ?? "unknown") as string;
 }
 
+/** Quote property names that are not valid identifiers (e.g. "If-Match") */
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
 function convert(schema: unknown): string {
   const def = getDef(schema);
   const typeName = getTypeName(def);
@@ -95,7 +100,7 @@ function convert(schema: unknown): string {
         const isOptional = getTypeName(getDef(value)) === "optional";
         const typeStr = convert(value);
         const optionalMark = isOptional ? "?" : "";
-        return `${key}${optionalMark}: ${typeStr}`;
+        return `${propertyKey(key)}${optionalMark}: ${typeStr}`;
       });
       return `{ ${props.join("; ")}; }`;
     }
@@ -52,3 +52,14 @@ Deno.test("zodToTypeString converts nullable schema", () => {
   const schema = z.string().nullable();
   assertEquals(zodToTypeString(schema), "string | null");
 });
+
+Deno.test("zodToTypeString quotes keys that are not identifiers", () => {
+  const schema = z.object({
+    "If-Match": z.string(),
+    x_id: z.string(),
+  });
+  assertEquals(
+    zodToTypeString(schema),
+    '{ "If-Match": string; x_id: string; }',
+  );
+});